@@ -0,0 +1,71 @@
+/**
+ * Balance simulator CLI
+ * Runs scripted bots over many seeds and prints score, death and card statistics
+ *
+ * Usage: npm run sim:balance -- [--runs 1000] [--seed 1] [--strategy perfect|human|random|all]
+ *                                [--mode classic|endless|time-attack|zen] [--json]
+ */
+
+import {
+  BOT_STRATEGIES,
+  BalanceReport,
+  Distribution,
+  runBalanceSimulation,
+} from '../src/lib/balance-sim';
+import { DEFAULT_GAME_MODE, GAME_MODES, isGameModeId } from '../src/lib/game-modes';
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function formatDistribution(dist: Distribution, unit = ''): string {
+  const f = (value: number) => `${Math.round(value)}${unit}`;
+  return `mean ${f(dist.mean)} | median ${f(dist.median)} | p10 ${f(dist.p10)} | p90 ${f(dist.p90)} | min ${f(dist.min)} | max ${f(dist.max)} | sd ${f(dist.stdDev)}`;
+}
+
+function printReport(report: BalanceReport) {
+  const pct = (count: number) => `${((count / report.runs) * 100).toFixed(1)}%`;
+
+  console.log(`\n🤖 Strategy: ${report.strategy} (${report.runs} runs)`);
+  console.log(`  Score:    ${formatDistribution(report.score)}`);
+  console.log(`  Survival: ${formatDistribution(report.survivalMs, 'ms')}`);
+  console.log(`  Ended by: time ${pct(report.deathCauses.time)} | lives ${pct(report.deathCauses.lives)}`);
+
+  console.log('  Per difficulty level:');
+  report.levels.forEach(level => {
+    const timeToDeath = level.meanTimeToDeathMs === null ? '-' : `${Math.round(level.meanTimeToDeathMs)}ms`;
+    console.log(`    L${level.level}: reached ${pct(level.runsReached)} | deaths ${level.deaths} | mean time to death ${timeToDeath}`);
+  });
+
+  console.log('  Card impact (mean score with / without):');
+  report.cards.forEach(card => {
+    const f = (value: number | null) => value === null ? '-' : Math.round(value).toString();
+    console.log(`    ${card.card.padEnd(15)} collected in ${pct(card.runsCollected)} | ${f(card.meanScoreWith)} / ${f(card.meanScoreWithout)}`);
+  });
+}
+
+function main() {
+  const runs = parseInt(readArg('runs') ?? '1000', 10);
+  const seedStart = parseInt(readArg('seed') ?? '1', 10);
+  const strategy = readArg('strategy') ?? 'all';
+  const mode = readArg('mode') ?? DEFAULT_GAME_MODE;
+  const asJson = process.argv.includes('--json');
+
+  const names = strategy === 'all' ? Object.keys(BOT_STRATEGIES) : [strategy];
+  const unknown = names.filter(name => !BOT_STRATEGIES[name]);
+  if (unknown.length > 0 || !isGameModeId(mode) || !Number.isFinite(runs) || runs <= 0) {
+    console.error(`Invalid arguments. Strategies: ${Object.keys(BOT_STRATEGIES).join(', ')}, all. Modes: ${Object.keys(GAME_MODES).join(', ')}`);
+    process.exit(1);
+  }
+
+  const reports = names.map(name => runBalanceSimulation(name, BOT_STRATEGIES[name], { runs, seedStart, mode }));
+
+  if (asJson) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    reports.forEach(printReport);
+  }
+}
+
+main();
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerAchievements } from '@/lib/kv';
+import {
+  ACHIEVEMENTS,
+  AchievementInfo,
+  AchievementProgress,
+  UnlockedAchievement,
+  createAchievementProgress,
+  describeUnlocks,
+  toAchievementInfo,
+} from '@/lib/achievements';
+
+interface AchievementsResponse {
+  success: boolean;
+  address: string;
+  unlocked: UnlockedAchievement[]; // Oldest first
+  locked: AchievementInfo[];
+  total: number;
+  progress: AchievementProgress;
+  error?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+
+    if (!address) {
+      return NextResponse.json(
+        { success: false, error: 'Missing address' },
+        { status: 400 }
+      );
+    }
+
+    const record = await getPlayerAchievements(address);
+    const unlocked = describeUnlocks(record?.unlocks ?? []);
+    const unlockedIds = new Set(unlocked.map(achievement => achievement.id));
+
+    const response: AchievementsResponse = {
+      success: true,
+      address,
+      unlocked,
+      locked: ACHIEVEMENTS.filter(achievement => !unlockedIds.has(achievement.id)).map(toAchievementInfo),
+      total: ACHIEVEMENTS.length,
+      progress: record?.progress ?? createAchievementProgress(),
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Achievements error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyMGIDAuth } from '@/lib/auth';
-import { getSession, updateSession, storeUnflushedAction, storeStateHash, getStateHash, KVActionData, KVStateHash } from '@/lib/kv';
-import { createSessionRNG } from '@/lib/rng';
-import { createInitialGameState, applyTapResult, processTap } from '@/lib/game-logic';
-import crypto from 'crypto';
+import { getSession, updateSession, storeUnflushedAction, appendSessionActions, storeStateHash, getStateHash, recordSessionRisk, KVActionData, KVStateHash } from '@/lib/kv';
+import { getSimulationSeed } from '@/lib/daily-challenge';
+import { actionValidationPipeline, assessRisk, isBatchRejecting, ValidationResult } from '@/lib/anti-cheat';
+import { TrajectoryTracker } from '@/lib/trajectory';
+import { toCanonicalState, chainStateHash, genesisStateHash, CanonicalGameState } from '@/lib/state-codec';
+import { SimulationSnapshot } from '@/lib/simulation';
+import { getGameMode, getSessionTimeLimit } from '@/lib/game-modes';
 
 interface ActionRequest {
   sessionId: string;
   actions: Array<{
+    sequence: number; // Monotonic per session; retried batches reuse their sequences
     timestamp: number;
+    tick: number; // Simulation tick the tap was applied at
     position: { x: number; y: number };
-    type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
-    targetId?: string;
+    type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+    targetId?: string; // Card id when playing a held card
     value?: number;
   }>;
-  clientStateHash?: string; // For desync detection
+  clientStateHash?: string; // Client's hash chain head after this batch, for desync detection
 }
 
 interface ActionResponse {
   success: boolean;
   validated: number; // Number of actions validated
   rejected: number; // Number of actions rejected
-  stateHash: string; // Server state hash for verification
+  stateHash: string; // Server hash chain head after this batch
+  acknowledgedSequence: number; // Highest sequence processed; the client can drop everything up to it
   desync?: boolean; // True if client/server out of sync
+  authoritative?: { // Sent on desync so the client can rebase onto the server state
+    canonicalState: CanonicalGameState;
+    simulation: SimulationSnapshot;
+  };
+  riskLevel?: 'low' | 'medium' | 'high'; // Aggregated anti-cheat risk for this batch
   error?: string;
 }
 
-// Anti-cheat constants
-const MIN_TAP_INTERVAL = 50; // Minimum 50ms between taps (anti-spam)
+// Batching constants (per-action anti-cheat rules live in the shared pipeline)
 const MAX_ACTIONS_PER_BATCH = 20; // Maximum actions per API call
 const ACTION_BATCH_INTERVAL = 1500; // 1.5 seconds - matches client batching
 
@@ -96,6 +106,34 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    // Sequences must increase within a batch
+    const sequencesValid = actions.every((action, index) =>
+      Number.isInteger(action.sequence) && action.sequence > 0 &&
+      (index === 0 || action.sequence > actions[index - 1].sequence)
+    );
+    if (!sequencesValid) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action sequence numbers' },
+        { status: 400 }
+      );
+    }
+
+    // Actions already processed (a retry after a lost response) are acknowledged, not re-applied
+    const lastSequence = session.lastSequence ?? 0;
+    const freshActions = actions.filter(action => action.sequence > lastSequence);
+    if (freshActions.length === 0) {
+      const stateHash = (await getStateHash(sessionId))?.hash ?? await genesisStateHash(sessionId);
+      const response: ActionResponse = {
+        success: true,
+        validated: 0,
+        rejected: 0,
+        stateHash,
+        acknowledgedSequence: lastSequence,
+        desync: !!clientStateHash && clientStateHash !== stateHash,
+      };
+      return NextResponse.json(response);
+    }
+
     // Check for rate limiting based on last action time
     const now = Date.now();
     if (now - session.lastActionTime < ACTION_BATCH_INTERVAL - 200) { // 200ms tolerance
@@ -105,62 +143,88 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Re-simulate game state from session start
-    const rng = createSessionRNG(sessionId, session.startTime);
-    let gameState = createInitialGameState();
-    
-    // Apply existing actions from session (if any stored)
-    // For now, we'll trust the session state and validate incrementally
+    // Continue the server simulation from where the previous batch left it
+    const mode = getGameMode(session.mode);
+    const loadTracker = () => session.simulation
+      ? TrajectoryTracker.restore(session.simulation)
+      : new TrajectoryTracker(getSimulationSeed(sessionId, session.seed, session.daily), undefined, mode.id, session.cardInventory);
+    let trajectory = loadTracker();
+    const validationResults: ValidationResult[] = [];
+    const acceptedActions: KVActionData[] = [];
 
-    let validated = 0;
     let rejected = 0;
-    let lastActionTime = session.lastActionTime;
+    let previousAction = session.lastTap;
 
-    // Validate each action
-    for (const action of actions) {
-      // Anti-cheat: Check timing constraints
-      if (action.timestamp <= lastActionTime + MIN_TAP_INTERVAL) {
-        console.warn(`Action rejected - too fast: ${action.timestamp} vs ${lastActionTime}`);
-        rejected++;
-        continue;
-      }
+    // Validate each action through the shared anti-cheat pipeline
+    for (const action of freshActions) {
+      const results = actionValidationPipeline.run(action, {
+        sessionStartTime: session.startTime,
+        pauses: session.pauses,
+        maxDuration: getSessionTimeLimit(mode),
+        previousAction,
+        recentActions: acceptedActions,
+        gameState: trajectory.getGameState(),
+        trajectory,
+      });
+      validationResults.push(...results);
 
-      // Anti-cheat: Check timestamp is within game session bounds
-      if (action.timestamp < session.startTime || 
-          action.timestamp > session.startTime + 120000) { // 2 minutes max game time
-        console.warn(`Action rejected - invalid timestamp: ${action.timestamp}`);
+      const failure = results.find(result => !result.isValid);
+      if (failure) {
+        console.warn(`Action rejected - ${failure.reason}`);
         rejected++;
         continue;
       }
 
-      // Anti-cheat: Validate position bounds (assuming 800x600 game area)
-      if (action.position.x < 0 || action.position.x > 800 ||
-          action.position.y < 0 || action.position.y > 600) {
-        console.warn(`Action rejected - invalid position: ${JSON.stringify(action.position)}`);
-        rejected++;
-        continue;
+      // The tracker has applied the tap (or played the held card) on the authoritative
+      // simulation; log what it actually hit, which overlapping objects can make differ from the claim
+      const applied = trajectory.getLastApplied() ?? action;
+      if (applied.type !== action.type || applied.targetId !== action.targetId) {
+        console.warn(`Action ${action.sequence} claimed ${action.type} ${action.targetId ?? ''} but hit ${applied.type} ${applied.targetId ?? ''}`);
       }
-
-      // Process the action through game logic
-      const tapResult = processTap(gameState, action.type);
-      gameState = applyTapResult(gameState, tapResult);
-
-      // Store unflushed action for contract batching (Phase 4)
-      const kvAction: KVActionData = {
+      acceptedActions.push({
         sessionId,
+        sequence: action.sequence,
         timestamp: action.timestamp,
-        type: action.type,
+        tick: action.tick,
+        type: applied.type,
         position: action.position,
-        targetId: action.targetId,
+        targetId: applied.targetId,
         value: action.value,
-      };
+      });
 
-      await storeUnflushedAction(kvAction);
+      previousAction = { timestamp: action.timestamp, tick: action.tick };
+    }
+
+    // Failed actions were rejected one by one; a claimed target the server simulation
+    // disagrees with drops the whole batch, which the client resends once it has rebased
+    const risk = assessRisk(validationResults);
+    const batchRejected = validationResults.some(isBatchRejecting);
+    if (batchRejected) {
+      console.warn(`Batch rejected for session ${sessionId} (${risk.riskLevel} risk):`, risk.reasons);
+      trajectory = loadTracker();
+      rejected = freshActions.length;
+      acceptedActions.length = 0;
+      previousAction = session.lastTap;
+    }
 
-      validated++;
-      lastActionTime = action.timestamp;
+    // Keep a per-session risk record for later review
+    if (risk.reasons.length > 0) {
+      await recordSessionRisk(sessionId, risk, rejected);
     }
 
+    // The action log is what /api/session/finish replays
+    await appendSessionActions(sessionId, acceptedActions);
+
+    // Store unflushed actions for contract batching (Phase 4)
+    for (const kvAction of acceptedActions) {
+      await storeUnflushedAction(kvAction);
+    }
+    const validated = acceptedActions.length;
+    const gameState = trajectory.getGameState();
+    const snapshot = trajectory.snapshot();
+    // A rejected batch was never applied, so it is left unacknowledged to be resent
+    const acknowledgedSequence = batchRejected ? lastSequence : freshActions[freshActions.length - 1].sequence;
+
     // Update session state in KV
     await updateSession(sessionId, {
       gameState: {
@@ -172,29 +236,24 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         activeCards: session.gameState.activeCards, // Preserve active card state
       },
       lastActionTime: now,
+      lastTap: previousAction,
+      lastSequence: acknowledgedSequence,
+      simulation: snapshot,
       totalActions: session.totalActions + validated,
     });
 
-    // Generate server state hash for anti-cheat
-    const stateData = {
-      score: gameState.score,
-      lives: gameState.lives,
-      combo: gameState.combo,
-      streak: gameState.streak,
-      totalActions: session.totalActions + validated,
-    };
-    const serverStateHash = crypto
-      .createHash('sha256')
-      .update(JSON.stringify(stateData))
-      .digest('hex')
-      .substring(0, 16); // First 16 characters
+    // Extend the session's hash chain with the canonical post-batch state
+    const actionCount = session.totalActions + validated;
+    const previousHash = (await getStateHash(sessionId))?.hash ?? await genesisStateHash(sessionId);
+    const canonicalState = toCanonicalState(gameState, actionCount, previousAction?.tick ?? 0);
+    const serverStateHash = await chainStateHash(previousHash, canonicalState);
 
-    // Store state hash for verification
+    // Store the new chain head for the next batch
     const hashData: KVStateHash = {
       sessionId,
       timestamp: now,
       hash: serverStateHash,
-      actionCount: session.totalActions + validated,
+      actionCount,
     };
     await storeStateHash(hashData);
 
@@ -210,7 +269,10 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       validated,
       rejected,
       stateHash: serverStateHash,
+      acknowledgedSequence,
       desync,
+      authoritative: desync ? { canonicalState, simulation: snapshot.simulation } : undefined,
+      riskLevel: risk.riskLevel,
     };
 
     return NextResponse.json(response);
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getDailyLeaderboard,
+  getDailyRank,
+  getDailyAttempts,
+  getDailyArchive,
+  getArchivedDays,
+  archiveDailyLeaderboard,
+  ModeLeaderboardEntry,
+} from '@/lib/kv';
+import { DAILY_CHALLENGE_CONFIG, getAttemptsLeft, getDailyKey, getPreviousDailyKey, isDailyKey } from '@/lib/daily-challenge';
+
+interface DailyLeaderboardEntry extends ModeLeaderboardEntry {
+  rank: number;
+}
+
+interface DailyChallengeResponse {
+  success: boolean;
+  day: string;
+  isToday: boolean;
+  resetsAt: string; // Next UTC midnight, when today's leaderboard closes
+  maxAttempts: number;
+  attemptsLeft?: number; // Only when an address is given and the day is today
+  player?: { rank: number; score: number } | null; // Only when an address is given
+  leaderboard: DailyLeaderboardEntry[];
+  totalPlayers: number;
+  archivedDays: string[];
+  error?: string;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const address = searchParams.get('address');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 100);
+    const today = getDailyKey();
+    const day = searchParams.get('day') ?? today;
+
+    if (!isDailyKey(day) || day > today) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid day' },
+        { status: 400 }
+      );
+    }
+
+    // Past days are served from the archive once their leaderboard has been archived
+    await archiveDailyLeaderboard(getPreviousDailyKey(today));
+    const archive = day === today ? null : await getDailyArchive(day);
+
+    let entries: ModeLeaderboardEntry[];
+    let totalPlayers: number;
+    if (archive) {
+      entries = archive.top.slice(0, limit);
+      totalPlayers = archive.totalPlayers;
+    } else {
+      ({ entries, totalPlayers } = await getDailyLeaderboard(day, 0, limit));
+    }
+
+    const response: DailyChallengeResponse = {
+      success: true,
+      day,
+      isToday: day === today,
+      resetsAt: new Date(Date.parse(`${today}T00:00:00Z`) + 86400000).toISOString(),
+      maxAttempts: DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS,
+      leaderboard: entries.map((entry, index) => ({ ...entry, rank: index + 1 })),
+      totalPlayers,
+      archivedDays: await getArchivedDays(),
+    };
+
+    if (address) {
+      response.player = await getDailyRank(day, address);
+      if (day === today) {
+        response.attemptsLeft = getAttemptsLeft(await getDailyAttempts(day, address));
+      }
+    }
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Daily challenge error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
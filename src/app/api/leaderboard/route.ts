@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
 import * as cheerio from 'cheerio';
+import { getModeLeaderboard } from '@/lib/kv';
+import { isGameModeId } from '@/lib/game-modes';
 
 interface LeaderboardEntry {
   rank: number;
@@ -9,6 +11,7 @@ interface LeaderboardEntry {
   score: number;
   timestamp: number;
   transactions: number;
+  sessionId?: string; // Replayable run behind a mode leaderboard score
 }
 
 interface CombinedLeaderboardEntry {
@@ -266,6 +269,39 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
 
     console.log(`API: Fetching leaderboard for page=${page}, limit=${limit}`);
 
+    // Per-mode rankings come from verified scores in KV, not the on-chain board
+    const mode = searchParams.get('mode');
+    if (mode !== null) {
+      if (!isGameModeId(mode)) {
+        return NextResponse.json({ error: `Unknown game mode: ${mode}` }, { status: 400 });
+      }
+
+      const startIndex = (page - 1) * limit;
+      const { entries, totalPlayers, totalGames } = await getModeLeaderboard(mode, startIndex, limit);
+      const leaderboard: LeaderboardEntry[] = entries.map((entry, index) => ({
+        rank: startIndex + index + 1,
+        address: entry.address,
+        username: null,
+        score: entry.score,
+        timestamp: Date.now(),
+        transactions: 0,
+        sessionId: entry.sessionId,
+      }));
+      const top = startIndex === 0 ? entries : (await getModeLeaderboard(mode, 0, 1)).entries;
+
+      return NextResponse.json({
+        leaderboard,
+        mode,
+        totalPlayers,
+        totalGames,
+        highestScore: top[0]?.score ?? 0,
+        page,
+        limit,
+        hasMore: startIndex + entries.length < totalPlayers,
+        lastUpdated: new Date().toISOString(),
+      });
+    }
+
     // Use your exact script implementation
     const combinedData = await fetchCombinedLeaderboard();
     
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPersonalBestPace } from '@/lib/kv';
+import type { PaceCurve } from '@/lib/pace';
+import { GameModeId, isGameModeId } from '@/lib/game-modes';
+
+interface PersonalBestPaceResponse {
+  success: boolean;
+  address: string;
+  mode: GameModeId;
+  curve: PaceCurve | null; // Score curve of the best verified run, null before the first one
+  error?: string;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+): Promise<NextResponse> {
+  try {
+    const { address } = await params;
+    const mode = request.nextUrl.searchParams.get('mode');
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid player address format' },
+        { status: 400 }
+      );
+    }
+
+    if (!mode || !isGameModeId(mode)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid game mode' },
+        { status: 400 }
+      );
+    }
+
+    const response: PersonalBestPaceResponse = {
+      success: true,
+      address,
+      mode,
+      curve: await getPersonalBestPace(address, mode),
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Personal best pace error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayerHistory, getPlayerTotals } from '@/lib/kv';
+import {
+  ArchivedRun,
+  PLAYER_STATS_CONFIG,
+  PlayerSummary,
+  ScoreTrendPoint,
+  createPlayerTotals,
+  getScoreTrend,
+  summarizePlayer,
+} from '@/lib/player-stats';
+
+interface PlayerProfileResponse {
+  success: boolean;
+  address: string;
+  lifetime: PlayerSummary; // Verified runs only
+  recentRuns: ArchivedRun[]; // Newest first, verified or not
+  trend: ScoreTrendPoint[]; // Verified scores, oldest first
+  error?: string;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+): Promise<NextResponse> {
+  try {
+    const { address } = await params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid player address format' },
+        { status: 400 }
+      );
+    }
+
+    const [totals, history] = await Promise.all([
+      getPlayerTotals(address),
+      getPlayerHistory(address),
+    ]);
+
+    const response: PlayerProfileResponse = {
+      success: true,
+      address,
+      lifetime: summarizePlayer(totals ?? createPlayerTotals()),
+      recentRuns: history.slice(0, PLAYER_STATS_CONFIG.RECENT_RUNS),
+      trend: getScoreTrend(history),
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Player profile error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
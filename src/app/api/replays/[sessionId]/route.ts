@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArchivedRun, getRunReplay } from '@/lib/kv';
+import type { ArchivedRun } from '@/lib/player-stats';
+import type { ReplayInput } from '@/lib/replay-playback';
+
+interface ReplayResponse {
+  success: boolean;
+  replay: ReplayInput;
+  run: ArchivedRun | null; // Verified score and stats, when still archived
+  error?: string;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { sessionId } = await params;
+
+    const [replay, run] = await Promise.all([
+      getRunReplay(sessionId),
+      getArchivedRun(sessionId),
+    ]);
+
+    if (!replay) {
+      return NextResponse.json(
+        { success: false, error: 'Replay not found' },
+        { status: 404 }
+      );
+    }
+
+    const response: ReplayResponse = {
+      success: true,
+      replay,
+      run,
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Replay fetch error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyMGIDAuth } from '@/lib/auth';
-import { getSession, updateSession, cleanupSession } from '@/lib/kv';
-import { createSessionRNG } from '@/lib/rng';
-import { createInitialGameState, applyTapResult, processTap } from '@/lib/game-logic';
+import {
+  getSession,
+  getSessionActions,
+  updateSession,
+  cleanupSession,
+  recordSessionRisk,
+  recordModeScore,
+  recordDailyScore,
+  getDailyRank,
+  getDailyAttempts,
+  recordRunAchievements,
+  archiveRun,
+  archiveRunReplay,
+  recordRunPace,
+} from '@/lib/kv';
+import { assessRisk, validateTickTiming } from '@/lib/anti-cheat';
+import { DailyStanding, getAttemptsLeft, getSimulationSeed } from '@/lib/daily-challenge';
+import { verifyTapReplay, ReplayTap, TapVerdict } from '@/lib/replay-verification';
+import type { DirectorDecision } from '@/lib/difficulty';
+import type { WaveRecord } from '@/lib/wave-events';
+import { UnlockedAchievement, describeUnlocks } from '@/lib/achievements';
+import { buildPaceCurve } from '@/lib/pace';
+import { ReplayInput, getReplayTickCap } from '@/lib/replay-playback';
 import { finishSessionOnChain } from '@/lib/contract-integration';
+import { GameModeId, getGameMode } from '@/lib/game-modes';
 
 interface FinishSessionRequest {
   sessionId: string;
   clientFinalScore: number; // For comparison only
-  tapHistory: Array<{
-    timestamp: number;
-    position: { x: number; y: number };
-    result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
-  }>;
+  clientFinalTick: number; // Simulation tick the client's run ended on
 }
 
 interface FinishSessionResponse {
   success: boolean;
   finalScore: number;
+  mode: GameModeId;
   isValid: boolean;
   scoreDifference?: number;
   stats?: {
@@ -27,9 +45,18 @@ interface FinishSessionResponse {
     gifts: number;
     bombs: number;
     misses: number;
+    activations: number; // Held cards played from the inventory
+    cardsPlayed: Record<string, number>;
     maxCombo: number;
     longestStreak: number;
   };
+  verdicts?: TapVerdict[]; // Per-tap replay results
+  directorLog?: DirectorDecision[]; // Adaptive difficulty decisions the replay made
+  waves?: WaveRecord[]; // Wave events the replay ran, with survival bonuses
+  riskLevel?: 'low' | 'medium' | 'high';
+  daily?: DailyStanding; // Set for daily challenge sessions
+  achievements?: UnlockedAchievement[]; // Unlocked by this run (verified runs only)
+  personalBest?: boolean; // Whether this run's score curve is the new ghost pace for its mode
   error?: string;
 }
 
@@ -56,9 +83,9 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     // Parse request body
     const body: FinishSessionRequest = await request.json();
-    const { sessionId, clientFinalScore, tapHistory } = body;
+    const { sessionId, clientFinalScore, clientFinalTick } = body;
 
-    if (!sessionId || !tapHistory) {
+    if (!sessionId) {
       return NextResponse.json(
         { success: false, error: 'Missing required fields' },
         { status: 400 }
@@ -90,51 +117,65 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    // Re-simulate the game server-side for anti-cheat validation
-    const rng = createSessionRNG(sessionId, session.startTime);
-    let gameState = createInitialGameState();
-    let maxCombo = gameState.combo;
-    let longestStreak = gameState.streak;
-    
-    // Count different action types for stats
-    const stats = {
-      totalTaps: tapHistory.length,
-      logos: 0,
-      glitches: 0,
-      gifts: 0,
-      bombs: 0,
-      misses: 0,
-      maxCombo: 1,
-      longestStreak: 0,
+    // The server-side action log, not a client-resent history, is authoritative
+    const tapHistory: ReplayTap[] = (await getSessionActions(sessionId)).map(action => ({
+      timestamp: action.timestamp,
+      tick: action.tick,
+      position: action.position,
+      targetId: action.targetId,
+      result: action.type,
+    }));
+
+    const mode = getGameMode(session.mode);
+    const simulationSeed = getSimulationSeed(sessionId, session.seed, session.daily);
+    const replayInput: ReplayInput = {
+      sessionId,
+      seed: simulationSeed,
+      mode: mode.id,
+      cardInventory: session.cardInventory,
+      taps: tapHistory,
     };
 
-    // Apply each tap event and validate
-    for (const tap of tapHistory) {
-      // Basic validation of tap timing (anti-cheat)
-      if (tap.timestamp < session.startTime || tap.timestamp > session.startTime + 120000) {
-        console.warn(`Invalid tap timestamp: ${tap.timestamp} for session ${sessionId}`);
-        continue;
+    // The run goes on after its last tap (waves still pay out), so it is replayed
+    // to the client's final tick, which can't run ahead of wall-clock time or past the mode's cap
+    const lastTapTick = tapHistory.reduce((last, tap) => Math.max(last, tap.tick), 0);
+    const endTiming = validateTickTiming(clientFinalTick, Date.now(), session.startTime, lastTapTick);
+    replayInput.endTick = endTiming.isValid
+      ? Math.min(clientFinalTick, getReplayTickCap(replayInput))
+      : lastTapTick;
+
+    // Authoritative replay: regenerate the spawn stream from the session seed
+    // and score each tap by what it actually hit, under the session's mode rules
+    const replay = verifyTapReplay(
+      simulationSeed,
+      tapHistory,
+      {
+        sessionStartTime: session.startTime,
+        pauses: session.pauses,
+        mode: mode.id,
+        cardInventory: session.cardInventory,
+        endTick: replayInput.endTick,
       }
+    );
+    // Stop the pace curve and replay viewer exactly where the verified run stopped
+    replayInput.endTick = replay.endTick;
+    const gameState = replay.finalState;
+    const stats = replay.stats;
 
-      // Process the tap result
-      const tapResult = processTap(gameState, tap.result);
-      gameState = applyTapResult(gameState, tapResult);
+    const rejectedTaps = replay.verdicts.filter(verdict => !verdict.valid);
+    if (rejectedTaps.length > 0) {
+      console.warn(`Replay rejected ${rejectedTaps.length}/${tapHistory.length} taps for session ${sessionId}`);
+    }
 
-      // Update stats
-      stats[tap.result as keyof typeof stats]++;
-      if (gameState.combo > maxCombo) {
-        maxCombo = gameState.combo;
-        stats.maxCombo = maxCombo;
-      }
-      if (gameState.streak > longestStreak) {
-        longestStreak = gameState.streak;
-        stats.longestStreak = longestStreak;
-      }
+    // Aggregate anti-cheat results and keep them with the session for review
+    const risk = assessRisk(endTiming.isValid ? replay.validationResults : [...replay.validationResults, endTiming]);
+    if (risk.reasons.length > 0) {
+      await recordSessionRisk(sessionId, risk, rejectedTaps.length);
     }
 
-    const serverFinalScore = gameState.score;
+    const serverFinalScore = replay.score;
     const scoreDifference = Math.abs(serverFinalScore - clientFinalScore);
-    const isValid = scoreDifference <= 10; // Allow small discrepancies due to timing
+    const isValid = replay.isValid && !risk.shouldReject && scoreDifference === 0;
 
     // Mark session as finished
     await updateSession(sessionId, { 
@@ -148,11 +189,87 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         streak: gameState.streak,
         activeCards: [], // Clear active cards at end
       },
+      simulation: undefined, // No further batches will continue from it
       totalActions: tapHistory.length,
     });
 
+    // Scores are ranked per mode (and per day for daily runs); only verified runs count
+    if (isValid) {
+      try {
+        await recordModeScore(mode.id, walletAddress, serverFinalScore, sessionId);
+        if (session.daily) {
+          await recordDailyScore(session.daily, walletAddress, serverFinalScore);
+        }
+      } catch (leaderboardError) {
+        console.error('Leaderboard update failed (session finishes anyway):', leaderboardError);
+      }
+    }
+
+    // Achievements are judged on the verified replay, never on client stats
+    let achievements: UnlockedAchievement[] | undefined;
+    if (isValid) {
+      try {
+        const unlocks = await recordRunAchievements(walletAddress, {
+          sessionId,
+          mode: mode.id,
+          daily: !!session.daily,
+          score: serverFinalScore,
+          stats,
+          finalState: gameState,
+          waves: replay.waves,
+        });
+        achievements = describeUnlocks(unlocks);
+      } catch (achievementError) {
+        console.error('Achievement update failed (session finishes anyway):', achievementError);
+      }
+    }
+
+    // Archive the run for the player's profile and replays; only verified runs count toward lifetime stats
+    try {
+      await archiveRun({
+        sessionId,
+        address: walletAddress,
+        mode: mode.id,
+        daily: session.daily,
+        cardInventory: session.cardInventory,
+        score: serverFinalScore,
+        isValid,
+        startTime: session.startTime,
+        finishedAt: Date.now(),
+        durationMs: gameState.elapsedTime,
+        stats,
+      });
+      await archiveRunReplay(replayInput);
+    } catch (archiveError) {
+      console.error('Run archive failed (session finishes anyway):', archiveError);
+    }
+
+    // Score curve for ghost pace; only verified runs can become the personal best
+    let personalBest: boolean | undefined;
+    if (isValid) {
+      try {
+        personalBest = await recordRunPace(walletAddress, buildPaceCurve(replayInput));
+      } catch (paceError) {
+        console.error('Pace update failed (session finishes anyway):', paceError);
+      }
+    }
+
+    let daily: DailyStanding | undefined;
+    if (session.daily) {
+      const [standing, attemptsUsed] = await Promise.all([
+        getDailyRank(session.daily, walletAddress),
+        getDailyAttempts(session.daily, walletAddress),
+      ]);
+      daily = {
+        day: session.daily,
+        rank: standing?.rank ?? null,
+        bestScore: standing?.score ?? null,
+        attemptsLeft: getAttemptsLeft(attemptsUsed),
+      };
+    }
+
     // Log completion for monitoring
-    console.log(`Session finished for ${walletAddress}: ${sessionId}, Score: ${serverFinalScore}, Valid: ${isValid}`);
+    console.log(`Session finished for ${walletAddress}: ${sessionId} (${mode.id}), Score: ${serverFinalScore}, Valid: ${isValid}`);
 
     // Phase 4: Smart Contract Integration - Finish session on-chain
     try {
@@ -172,9 +289,17 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     const response: FinishSessionResponse = {
       success: true,
       finalScore: serverFinalScore,
+      mode: mode.id,
       isValid,
       scoreDifference: isValid ? undefined : scoreDifference,
       stats,
+      verdicts: replay.verdicts,
+      directorLog: replay.directorLog.length > 0 ? replay.directorLog : undefined,
+      waves: replay.waves,
+      riskLevel: risk.riskLevel,
+      daily,
+      achievements,
+      personalBest,
     };
 
     return NextResponse.json(response);
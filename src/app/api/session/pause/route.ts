@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyMGIDAuth } from '@/lib/auth';
+import { getSession, updateSession } from '@/lib/kv';
+import { ANTI_CHEAT_CONFIG, getSessionPausedTime } from '@/lib/anti-cheat';
+
+interface PauseSessionRequest {
+  sessionId: string;
+  paused: boolean; // true when the client pauses, false when it resumes
+}
+
+interface PauseSessionResponse {
+  success: boolean;
+  paused: boolean;
+  pausedTime: number; // Total paused ms credited to the session
+  error?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify MGID authentication and extract wallet address
+    const authToken = request.headers.get('authorization');
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: 'Missing authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const authResult = await verifyMGIDAuth(authToken);
+    if (!authResult.isValid || !authResult.walletAddress) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const walletAddress = authResult.walletAddress;
+
+    // Parse request body
+    const body: PauseSessionRequest = await request.json();
+    const { sessionId, paused } = body;
+
+    if (!sessionId || typeof paused !== 'boolean') {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    // Get session from KV
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify session belongs to the authenticated user
+    if (session.playerAddress !== walletAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Session does not belong to authenticated user' },
+        { status: 403 }
+      );
+    }
+
+    // Verify session is still active
+    if (!session.isActive) {
+      return NextResponse.json(
+        { success: false, error: 'Session already finished' },
+        { status: 400 }
+      );
+    }
+
+    // Intervals are timed by the server so the client cannot claim arbitrary pauses
+    const now = Date.now();
+    const pauses = [...(session.pauses ?? [])];
+    const open = pauses.length > 0 && pauses[pauses.length - 1].end === undefined;
+
+    if (paused && !open) {
+      if (pauses.length >= ANTI_CHEAT_CONFIG.MAX_PAUSES) {
+        return NextResponse.json(
+          { success: false, error: 'Too many pauses' },
+          { status: 429 }
+        );
+      }
+      pauses.push({ start: now });
+    } else if (!paused && open) {
+      pauses[pauses.length - 1] = { ...pauses[pauses.length - 1], end: now };
+    }
+
+    await updateSession(sessionId, { pauses });
+
+    const response: PauseSessionResponse = {
+      success: true,
+      paused,
+      pausedTime: getSessionPausedTime(pauses, now),
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Session pause error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyMGIDAuth } from '@/lib/auth';
+import { getSession, getStateHash, updateSession } from '@/lib/kv';
+import { getSessionPausedTime } from '@/lib/anti-cheat';
+import { genesisStateHash } from '@/lib/state-codec';
+import { GameModeId, getGameMode, getSessionTimeLimit } from '@/lib/game-modes';
+
+interface ResumeSessionRequest {
+  sessionId: string;
+}
+
+interface ResumeSessionResponse {
+  success: boolean;
+  sessionId: string;
+  seed: number;
+  mode: GameModeId;
+  daily?: string; // UTC day of the daily challenge the session is ranked in
+  cardInventory?: boolean; // Helpful cards are held and played on demand
+  startTime: number;
+  elapsed: number; // Unpaused wall-clock ms since the session started
+  lastSequence: number; // Highest action sequence the server has processed
+  stateHash: string; // Server hash chain head
+  error?: string;
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Verify MGID authentication and extract wallet address
+    const authToken = request.headers.get('authorization');
+    if (!authToken) {
+      return NextResponse.json(
+        { success: false, error: 'Missing authorization header' },
+        { status: 401 }
+      );
+    }
+
+    const authResult = await verifyMGIDAuth(authToken);
+    if (!authResult.isValid || !authResult.walletAddress) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const walletAddress = authResult.walletAddress;
+
+    // Parse request body
+    const body: ResumeSessionRequest = await request.json();
+    const { sessionId } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    // Get session from KV
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify session belongs to the authenticated user
+    if (session.playerAddress !== walletAddress) {
+      return NextResponse.json(
+        { success: false, error: 'Session does not belong to authenticated user' },
+        { status: 403 }
+      );
+    }
+
+    // Verify session is still active
+    if (!session.isActive) {
+      return NextResponse.json(
+        { success: false, error: 'Session already finished' },
+        { status: 400 }
+      );
+    }
+
+    // The game clock kept running while the client was away (reported pauses excepted)
+    const now = Date.now();
+    const elapsed = now - session.startTime - getSessionPausedTime(session.pauses, now);
+    const mode = getGameMode(session.mode);
+    if (elapsed > getSessionTimeLimit(mode)) {
+      return NextResponse.json(
+        { success: false, error: 'Session has expired' },
+        { status: 410 }
+      );
+    }
+
+    // Touch the session so its TTL restarts from the resume
+    await updateSession(sessionId, { lastActionTime: session.lastActionTime });
+
+    const stateHash = (await getStateHash(sessionId))?.hash ?? await genesisStateHash(sessionId);
+
+    console.log(`Session resumed for ${walletAddress}: ${sessionId} (${elapsed}ms elapsed)`);
+
+    const response: ResumeSessionResponse = {
+      success: true,
+      sessionId,
+      seed: session.seed,
+      mode: mode.id,
+      daily: session.daily,
+      cardInventory: session.cardInventory,
+      startTime: session.startTime,
+      elapsed,
+      lastSequence: session.lastSequence ?? 0,
+      stateHash,
+    };
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error('Session resume error:', error);
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error' 
+      },
+      { status: 500 }
+    );
+  }
+}
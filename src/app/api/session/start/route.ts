@@ -1,19 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyMGIDAuth } from '@/lib/auth';
-import { storeSession, KVSessionData } from '@/lib/kv';
+import { storeSession, claimDailyAttempt, archiveDailyLeaderboard, KVSessionData } from '@/lib/kv';
 import { createSessionRNG } from '@/lib/rng';
 import { createInitialGameState } from '@/lib/game-logic';
+import { DEFAULT_GAME_MODE, GameModeId, isGameModeId } from '@/lib/game-modes';
+import { DAILY_CHALLENGE_CONFIG, deriveDailySeed, getAttemptsLeft, getDailyKey, getPreviousDailyKey } from '@/lib/daily-challenge';
 import { startGameOnChain } from '@/lib/contract-integration';
 
 interface StartSessionRequest {
-  // Future extensibility - currently no additional data needed
   clientTimestamp?: number;
+  mode?: GameModeId; // Defaults to Classic
+  daily?: boolean; // Play today's daily challenge (mode is fixed by the challenge)
+  cardInventory?: boolean; // Hold helpful cards and play them on demand (not in daily runs)
 }
 
 interface StartSessionResponse {
   success: boolean;
   sessionId: string;
   seed: number;
+  mode: GameModeId;
+  cardInventory: boolean;
+  daily?: {
+    day: string;
+    attempt: number; // 1-based ranked attempt this session uses
+    attemptsLeft: number;
+  };
   error?: string;
 }
 
@@ -38,18 +49,50 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
 
     const walletAddress = authResult.walletAddress;
 
+    // Body is optional; older clients start without one
+    const body: StartSessionRequest = await request.json().catch(() => ({}));
+    const mode = body.daily ? DAILY_CHALLENGE_CONFIG.MODE : body.mode ?? DEFAULT_GAME_MODE;
+    const cardInventory = !body.daily && body.cardInventory === true;
+
+    if (!isGameModeId(mode)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown game mode: ${String(mode)}` },
+        { status: 400 }
+      );
+    }
+
+    // Daily runs share the day's seed and use up one of the player's ranked attempts
+    const day = body.daily ? getDailyKey() : undefined;
+    let attempt = 0;
+    if (day) {
+      const claimed = await claimDailyAttempt(day, walletAddress);
+      if (claimed === null) {
+        return NextResponse.json(
+          { success: false, error: 'No daily challenge attempts left today' },
+          { status: 429 }
+        );
+      }
+      attempt = claimed;
+
+      // The first daily run of a new day archives the previous day's results
+      await archiveDailyLeaderboard(getPreviousDailyKey(day));
+    }
+
     // Generate deterministic seed for the session
     const sessionId = `${walletAddress}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const seed = Math.floor(Math.random() * 0x7FFFFFFF); // 32-bit positive integer
+    const seed = day ? deriveDailySeed(day) : Math.floor(Math.random() * 0x7FFFFFFF); // 32-bit positive integer
 
     // Create initial game state
-    const initialGameState = createInitialGameState();
+    const initialGameState = createInitialGameState(Date.now(), mode, cardInventory);
 
     // Prepare session data for KV storage
     const sessionData: KVSessionData = {
       id: sessionId,
       playerAddress: walletAddress,
       seed,
+      mode,
+      daily: day,
+      cardInventory: cardInventory || undefined,
       startTime: Date.now(),
       isActive: true,
       gameState: {
@@ -78,13 +121,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     }
 
     // Log session start for monitoring
-    console.log(`Session started for ${walletAddress}: ${sessionId}`);
+    console.log(`Session started for ${walletAddress}: ${sessionId} (${mode})`);
 
     // Return session details to client
     const response: StartSessionResponse = {
       success: true,
       sessionId,
       seed,
+      mode,
+      cardInventory,
+      daily: day ? { day, attempt, attemptsLeft: getAttemptsLeft(attempt) } : undefined,
     };
 
     return NextResponse.json(response);
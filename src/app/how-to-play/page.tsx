@@ -5,6 +5,7 @@ import { motion } from 'framer-motion';
 import { Header } from '@/components/layout/Header';
 import Image from 'next/image';
 import { playMusic } from '@/lib/audio-manager';
+import { CARD_DEFINITIONS, CardCategory } from '@/lib/cards';
 
 export default function HowToPlayPage() {
   // Handle navigation
@@ -60,68 +61,16 @@ export default function HowToPlayPage() {
     },
   ];
 
-  const magicCards = [
-    {
-      category: "⚡ Helpful Cards",
-      cards: [
-        {
-          name: "Time Freeze",
-          effect: "Stops all falling objects for 5 seconds (timer continues)",
-          color: "text-electric-cyan",
-        },
-        {
-          name: "Slow Motion", 
-          effect: "Halves falling speed for 7 seconds",
-          color: "text-electric-cyan",
-        },
-        {
-          name: "Golden Monad",
-          effect: "The next Monad Logo tapped is worth triple points",
-          color: "text-yellow-400",
-        },
-        {
-          name: "Extra Time",
-          effect: "Adds +10 seconds to the countdown timer", 
-          color: "text-success-lime",
-        },
-        {
-          name: "Logo Highlight",
-          effect: "Real Monad logos glow/pulse for 5s; glitches stay normal",
-          color: "text-electric-cyan",
-        },
-      ],
-    },
-    {
-      category: "😈 Chaotic Cards",
-      cards: [
-        {
-          name: "Bomb Trap",
-          effect: "If tapped: -20 points penalty",
-          color: "text-danger",
-        },
-        {
-          name: "Shrink Ray",
-          effect: "For 4 seconds, all falling objects become tiny, testing precision",
-          color: "text-purple-accent",
-        },
-      ],
-    },
-    {
-      category: "🎲 Wild & Fun Cards", 
-      cards: [
-        {
-          name: "Monad Swarm",
-          effect: "Spawns a dense wave of Monad Logos for 3 seconds - huge scoring opportunity!",
-          color: "text-success-lime",
-        },
-        {
-          name: "Glitch Purge",
-          effect: "Instantly destroys all visible Glitches, awarding +5 bonus points each",
-          color: "text-electric-cyan",
-        },
-      ],
-    },
-  ];
+  const categoryTitles: Record<CardCategory, string> = {
+    helpful: "⚡ Helpful Cards",
+    chaotic: "😈 Chaotic Cards",
+    wild: "🎲 Wild & Fun Cards",
+  };
+
+  const magicCards = (Object.keys(categoryTitles) as CardCategory[]).map(category => ({
+    category: categoryTitles[category],
+    cards: CARD_DEFINITIONS.filter(card => card.category === category),
+  }));
 
   const gameStats = [
     { label: "Game Duration", value: "120 seconds" },
@@ -230,7 +179,7 @@ export default function HowToPlayPage() {
                         {card.name}
                       </h4>
                       <p className="text-soft-white/70 text-sm">
-                        {card.effect}
+                        {card.description}
                       </p>
                     </motion.div>
                   ))}
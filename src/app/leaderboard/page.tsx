@@ -7,6 +7,7 @@ import { Header } from '@/components/layout/Header';
 import { useLeaderboard, getUserRank, type LeaderboardEntry } from '@/hooks/useLeaderboard';
 import { useMGID } from '@/hooks/useMGID';
 import { playMusic } from '@/lib/audio-manager';
+import { GAME_MODES, GameModeId } from '@/lib/game-modes';
 
 export default function LeaderboardPage() {
   const { authenticated, user } = usePrivy();
@@ -15,9 +16,16 @@ export default function LeaderboardPage() {
   
   const [currentPage, setCurrentPage] = useState(1);
   const [userRank, setUserRank] = useState<number | null>(null);
+  const [selectedMode, setSelectedMode] = useState<GameModeId | undefined>(undefined); // undefined = overall
   const pageLimit = 20;
   
-  const { data: leaderboardData, loading, error, refetch } = useLeaderboard(pageLimit, currentPage);
+  const { data: leaderboardData, loading, error, refetch } = useLeaderboard(pageLimit, currentPage, selectedMode);
+
+  const handleSelectMode = (mode: GameModeId | undefined) => {
+    setSelectedMode(mode);
+    setCurrentPage(1);
+    setUserRank(null);
+  };
 
   // Handle navigation
   const handleNavigate = (page: string) => {
@@ -58,9 +66,9 @@ export default function LeaderboardPage() {
   // Fetch user's rank when data loads
   React.useEffect(() => {
     if (userAddress && leaderboardData && !userRank) {
-      getUserRank(userAddress).then(setUserRank);
+      getUserRank(userAddress, selectedMode).then(setUserRank);
     }
-  }, [userAddress, leaderboardData, userRank]);
+  }, [userAddress, leaderboardData, userRank, selectedMode]);
 
   // Helper to check if current user
   const isCurrentUser = (entry: LeaderboardEntry): boolean => {
@@ -69,7 +77,7 @@ export default function LeaderboardPage() {
 
   const stats = leaderboardData ? [
     { label: "Total Players", value: (leaderboardData.totalPlayers || 0).toLocaleString() },
-    { label: "Transactions", value: (leaderboardData.totalGames || 0).toLocaleString() },
+    { label: selectedMode ? "Verified Games" : "Transactions", value: (leaderboardData.totalGames || 0).toLocaleString() },
     { label: "Highest Score", value: (leaderboardData.highestScore || 0).toLocaleString() },
     { label: "Last Updated", value: leaderboardData.lastUpdated ? new Date(leaderboardData.lastUpdated).toLocaleTimeString() : "..." },
   ] : [
@@ -120,6 +128,23 @@ export default function LeaderboardPage() {
           </p>
         </motion.div>
 
+        {/* Mode Tabs */}
+        <div className="flex flex-wrap justify-center gap-2 mb-8">
+          {[undefined, ...Object.values(GAME_MODES).map(mode => mode.id)].map(mode => (
+            <button
+              key={mode ?? 'overall'}
+              onClick={() => handleSelectMode(mode)}
+              className={`px-4 py-2 rounded-lg font-futuristic text-sm transition-all ${
+                selectedMode === mode
+                  ? 'bg-electric-cyan text-charcoal font-bold'
+                  : 'bg-purple-accent/20 text-purple-accent hover:bg-purple-accent/30'
+              }`}
+            >
+              {mode ? GAME_MODES[mode].name : 'Overall'}
+            </button>
+          ))}
+        </div>
+
         {/* Stats Section */}
         <motion.section
           className="mb-8"
@@ -186,7 +211,9 @@ export default function LeaderboardPage() {
           {!loading && !error && leaderboardData && leaderboardData.leaderboard.length > 0 && (
             <div className="bg-success-lime/10 border border-success-lime/30 rounded-lg p-4 text-center">
               <p className="text-success-lime font-futuristic">
-                🏆 <strong>Live Leaderboard:</strong> Real scores from on-chain data updated every few seconds!
+                {selectedMode
+                  ? <>🏆 <strong>{GAME_MODES[selectedMode].name}:</strong> Best server-verified score per player in this mode.</>
+                  : <>🏆 <strong>Live Leaderboard:</strong> Real scores from on-chain data updated every few seconds!</>}
               </p>
             </div>
           )}
@@ -254,7 +281,9 @@ export default function LeaderboardPage() {
                     {/* Player Info */}
                     <div className="col-span-2">
                       <div className={`font-futuristic font-bold ${isCurrentUser(player) ? 'text-electric-cyan' : 'text-soft-white'}`}>
-                        {player.username || 'Anonymous'}
+                        <a href={`/profile/${player.address}`} className="hover:underline">
+                          {player.username || 'Anonymous'}
+                        </a>
                         {isCurrentUser(player) && (
                           <span className="ml-2 text-xs bg-electric-cyan/20 text-electric-cyan px-2 py-1 rounded">
                             YOU
@@ -271,6 +300,14 @@ export default function LeaderboardPage() {
                       <div className="font-futuristic font-bold text-electric-cyan">
                         {(player.score || 0).toLocaleString()}
                       </div>
+                      {player.sessionId && (
+                        <a
+                          href={`/replay/${player.sessionId}`}
+                          className="text-xs font-futuristic text-purple-accent hover:text-electric-cyan transition-colors"
+                        >
+                          ▶ REPLAY
+                        </a>
+                      )}
                     </div>
 
                     {/* Transactions */}
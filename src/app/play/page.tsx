@@ -1,17 +1,31 @@
 'use client';
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import { useCrossAppAccounts, usePrivy } from '@privy-io/react-auth';
 import { useMGID } from '@/hooks/useMGID';
-import { GameStateManager, GameSession, GameStateType } from '@/lib/game-state';
+import { GameStateManager, GameSession, GameSessionSnapshot, GameStateType } from '@/lib/game-state';
 import { GameContractManager, GameContractState } from '@/lib/game-contract-manager';
 import SimpleGameCanvas from '@/components/game/SimpleGameCanvas';
 import CircularTimer from '@/components/game/CircularTimer';
 import { Header } from '@/components/layout/Header';
 import { GameOverModal } from '@/components/game/GameOverModal';
+import { PaceIndicator } from '@/components/game/PaceIndicator';
 import { playMusic, playSound } from '@/lib/audio-manager';
+import { saveSessionSnapshot, loadSessionSnapshot, clearSessionSnapshot } from '@/lib/session-storage';
+import { getCardName } from '@/lib/cards';
+import { GAME_MODES, GameModeId, DEFAULT_GAME_MODE, getGameMode } from '@/lib/game-modes';
+import { DAILY_CHALLENGE_CONFIG, DailyStanding } from '@/lib/daily-challenge';
+import type { UnlockedAchievement } from '@/lib/achievements';
+import { useServerIntegration } from '@/lib/server-integration';
+import { useDailyChallenge } from '@/hooks/useDailyChallenge';
+import { usePersonalBestPace } from '@/hooks/usePersonalBestPace';
+import { PaceCurve, buildPaceCurve } from '@/lib/pace';
+import { getSessionReplayInput } from '@/lib/replay-format';
+
+// How often the running session is saved for resume-after-reload
+const SNAPSHOT_INTERVAL = 1000;
 
 export default function PlayPage() {
   const mgid = useMGID();
@@ -23,8 +37,26 @@ export default function PlayPage() {
   // Game state
   const [isGameReady, setIsGameReady] = useState(false);
   const [currentSession, setCurrentSession] = useState<GameSession | null>(null);
+  const [selectedMode, setSelectedMode] = useState<GameModeId>(DEFAULT_GAME_MODE);
+  const [isDaily, setIsDaily] = useState(false);
+  const [cardInventory, setCardInventory] = useState(false);
+  const [dailyResult, setDailyResult] = useState<DailyStanding | null>(null);
+  const [newAchievements, setNewAchievements] = useState<UnlockedAchievement[]>([]);
+  const serverIntegration = useServerIntegration();
+  const { createIntegratedGameManager, resumeServerSession, processTapWithServer } = serverIntegration;
+  const [savedRun, setSavedRun] = useState<GameSessionSnapshot | null>(null);
+  const dailyChallenge = useDailyChallenge(mgid.walletAddress);
+  const dailyAttemptsLeft = dailyChallenge.data?.attemptsLeft ?? DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS;
   const [showGameOver, setShowGameOver] = useState(false);
   const [gameOverSession, setGameOverSession] = useState<GameSession | null>(null);
+  const [gameOverPace, setGameOverPace] = useState<{ current: PaceCurve; best: PaceCurve } | null>(null);
+
+  // Ghost pace: the personal best in the mode being played
+  const personalBestPace = usePersonalBestPace(mgid.walletAddress, currentSession?.gameState.mode ?? selectedMode);
+  const ghost = personalBestPace.data?.mode === currentSession?.gameState.mode ? personalBestPace.data : null;
+
+  // Last time the server corrected the current run
+  const lastDesync = serverIntegration.lastDesync?.sessionId === currentSession?.id ? serverIntegration.lastDesync : null;
   
   // Contract state
   const [contractState, setContractState] = useState<GameContractState>({
@@ -48,6 +80,7 @@ export default function PlayPage() {
   const latestSessionRef = useRef<GameSession | null>(null);
   const rafIdRef = useRef<number | null>(null);
   const updateScheduledRef = useRef(false);
+  const lastSnapshotRef = useRef(0);
 
   // Debug logging controls (disabled by default unless ?debug or localStorage flag is set)
   const debugEnabledRef = useRef(false);
@@ -91,6 +124,25 @@ export default function PlayPage() {
     }
   };
 
+  // Every tap of a server session is sent for verification
+  const sendTapsToServer = useCallback((gameManager: GameStateManager) => {
+    gameManager.setTapHandler((tap, state) => {
+      processTapWithServer(tap.position, tap.timestamp, tap, state);
+    });
+  }, [processTapWithServer]);
+
+  // Save the in-progress run so a reload or tab crash can resume it
+  const persistSnapshot = (gameManager: GameStateManager, force = false) => {
+    const now = Date.now();
+    if (!force && now - lastSnapshotRef.current < SNAPSHOT_INTERVAL) return;
+    lastSnapshotRef.current = now;
+
+    const snapshot = gameManager.snapshotSession(now);
+    if (snapshot) {
+      saveSessionSnapshot(snapshot);
+    }
+  };
+
   const queueSessionUpdate = (session: GameSession) => {
     latestSessionRef.current = session;
     if (updateScheduledRef.current) return;
@@ -108,6 +160,7 @@ export default function PlayPage() {
             prevSession.gameState.score !== s.gameState.score ||
             prevSession.gameState.lives !== s.gameState.lives ||
             prevSession.gameState.timeLeft !== s.gameState.timeLeft ||
+            Math.floor(prevSession.gameState.elapsedTime / 1000) !== Math.floor(s.gameState.elapsedTime / 1000) ||
             prevSession.countdownTime !== s.countdownTime ||
             prevSession.objects.length !== s.objects.length) {
           return {
@@ -281,7 +334,8 @@ export default function PlayPage() {
       objectSize: { x: 64, y: 64 },
     };
 
-    const gameManager = new GameStateManager(config);
+    // Rebased onto the server state on desync, with pauses reported to the server
+    const gameManager = createIntegratedGameManager(config);
     
     // Set contract manager for blockchain integration
     if (contractManagerRef.current) {
@@ -305,21 +359,35 @@ export default function PlayPage() {
         queueSessionUpdate(session);
         // Log a summarized snapshot only on change
         maybeLogUpdate('Update', session);
+        persistSnapshot(gameManager);
       }
     );
 
     gameManagerRef.current = gameManager;
-    
-    // Initialize a session
-    const sessionId = `session-${mgid.walletAddress}-${Date.now()}`;
-    const seed = Date.now();
-    
-    console.log('Creating session:', sessionId);
-    const newSession = gameManager.initializeSession(sessionId, seed);
-    setCurrentSession(newSession);
-    setIsGameReady(true);
+
+    // Save immediately when the page is being unloaded
+    const handlePageHide = () => persistSnapshot(gameManager, true);
+    window.addEventListener('pagehide', handlePageHide);
+
+    // Resume a run interrupted by a reload (once its server session is resumed,
+    // below), otherwise initialize a new session
+    const savedSession = loadSessionSnapshot();
+    if (savedSession && savedSession.id.startsWith(`${mgid.walletAddress}_`)) {
+      setSavedRun(savedSession);
+    } else {
+      clearSessionSnapshot();
+
+      const sessionId = `session-${mgid.walletAddress}-${Date.now()}`;
+      const seed = Date.now();
+
+      console.log('Creating session:', sessionId);
+      const newSession = gameManager.initializeSession(sessionId, seed);
+      setCurrentSession(newSession);
+      setIsGameReady(true);
+    }
 
     return () => {
+      window.removeEventListener('pagehide', handlePageHide);
       if (gameManagerRef.current) {
         gameManagerRef.current.cleanup();
         gameManagerRef.current = null;
@@ -329,7 +397,37 @@ export default function PlayPage() {
         rafIdRef.current = null;
       }
     };
-  }, [mgid.isAuthenticated, mgid.walletAddress, mgid.hasMinimumBalance, mgid.isCheckingBalance, mgid.balance]);
+  }, [mgid.isAuthenticated, mgid.walletAddress, mgid.hasMinimumBalance, mgid.isCheckingBalance, mgid.balance, createIntegratedGameManager]);
+
+  // Resume the server session of a run saved before a reload, then restore the
+  // run locally and keep sending its taps; a run the server no longer accepts is dropped
+  useEffect(() => {
+    const gameManager = gameManagerRef.current;
+    if (!savedRun || !gameManager) return;
+
+    console.log('Resuming session:', savedRun.id);
+    resumeServerSession(savedRun.id)
+      .then(() => {
+        if (gameManagerRef.current !== gameManager) return;
+        sendTapsToServer(gameManager);
+        const restoredSession = gameManager.restoreSession(savedRun);
+        setCurrentSession({ ...restoredSession });
+        if (restoredSession.state !== 'FINISHED') {
+          playMusic.game();
+        }
+      })
+      .catch(error => {
+        console.error('❌ Could not resume the saved run:', error);
+        clearSessionSnapshot();
+        if (gameManagerRef.current !== gameManager) return;
+        const newSession = gameManager.initializeSession(`session-${mgid.walletAddress}-${Date.now()}`, Date.now());
+        setCurrentSession(newSession);
+      })
+      .finally(() => {
+        setSavedRun(null);
+        setIsGameReady(true);
+      });
+  }, [savedRun, resumeServerSession, sendTapsToServer, mgid.walletAddress]);
 
   // Cooldown timer - update cooldown remaining every second
   useEffect(() => {
@@ -369,8 +467,34 @@ export default function PlayPage() {
   }, [contractState.cooldownRemaining]);
 
   const handleGameOver = (session: GameSession) => {
+    clearSessionSnapshot();
     setGameOverSession({ ...session });
+    // Re-simulate this run's score curve to chart against the personal best it raced
+    setGameOverPace(ghost ? { current: buildPaceCurve(getSessionReplayInput(session)), best: ghost } : null);
     setShowGameOver(true);
+
+    // Runs are verified by the server before they are ranked. The result is read
+    // from the live game, which a desync on the last batch may have rebased.
+    const getFinishedSession = () => {
+      const live = gameManagerRef.current?.getCurrentSession();
+      return live?.id === session.id ? live : session;
+    };
+    serverIntegration.finishServerSession(() => {
+      const finished = getFinishedSession();
+      return { score: finished.gameState.score, tick: finished.tick };
+    })
+      .then(response => {
+        const finished = getFinishedSession();
+        setGameOverSession({ ...finished });
+        setGameOverPace(pace => pace && { ...pace, current: buildPaceCurve(getSessionReplayInput(finished)) });
+        setDailyResult(response.daily ?? null);
+        setNewAchievements(response.achievements ?? []);
+        if (response.personalBest) personalBestPace.refetch();
+      })
+      .catch(error => console.error('❌ Failed to submit run for verification:', error))
+      .finally(() => {
+        if (session.daily) dailyChallenge.refetch();
+      });
     
     // Stop all music and return to menu music for game over screen
     playMusic.stop();
@@ -443,6 +567,35 @@ export default function PlayPage() {
     }
   };
 
+  // Start the session on the server, on-chain and locally. Every run gets its
+  // session and seed from the server (daily runs share the day's seed), and
+  // every tap is sent for verification so the run can be ranked.
+  const createGameSession = async (logPrefix: string): Promise<GameSession> => {
+    const gameManager = gameManagerRef.current!;
+    const server = await serverIntegration.startServerSession(
+      isDaily ? DAILY_CHALLENGE_CONFIG.MODE : selectedMode,
+      isDaily,
+      !isDaily && cardInventory // Daily runs are played without the card inventory
+    );
+    const { sessionId, seed, mode } = server;
+    const day = server.daily?.day;
+    if (day) {
+      dailyChallenge.refetch();
+    }
+    console.log(`🚀 ${logPrefix}Starting new game session (transaction step):`, sessionId);
+
+    // Start game on contract (this will show transaction approval modal)
+    const startTxHash = await contractManagerRef.current!.startGame(sessionId);
+    console.log(`✅ ${logPrefix}Game started on-chain:`, startTxHash);
+
+    sendTapsToServer(gameManager);
+    setDailyResult(null);
+    setNewAchievements([]);
+
+    // Then initialize the local game session
+    return gameManager.initializeSession(sessionId, seed, mode, day, server.cardInventory);
+  };
+
   // Start game with proper session validation and contract integration
   const handleStartGame = async () => {
     if (!gameManagerRef.current || !contractManagerRef.current || !mgid.walletAddress) {
@@ -476,16 +629,7 @@ export default function PlayPage() {
       playMusic.stop();
       console.log('🎵 Stopped menu music, starting game music...');
       
-      // Create session ID
-      const sessionId = `session-${mgid.walletAddress}-${Date.now()}`;
-      console.log('🚀 Starting new game session (transaction step):', sessionId);
-
-      // Start game on contract (this will show transaction approval modal)
-      const startTxHash = await contractManagerRef.current.startGame(sessionId);
-      console.log('✅ Game started on-chain:', startTxHash);
-
-      // Then initialize the local game session
-      const newSession = gameManagerRef.current.initializeSession(sessionId, Date.now());
+      const newSession = await createGameSession('');
       
       // Play game start sound and music
       playSound.gameStart();
@@ -542,16 +686,7 @@ export default function PlayPage() {
         }
       }
 
-      // Create new session ID
-      const sessionId = `session-${mgid.walletAddress}-${Date.now()}`;
-      console.log('🚀 Play Again: Starting new game session (transaction):', sessionId);
-
-      // Start game on contract (this will show transaction approval modal)
-      const startTxHash = await contractManagerRef.current!.startGame(sessionId);
-      console.log('✅ Play Again: Game started on-chain:', startTxHash);
-
-      // Initialize the local game session
-      const newSession = gameManagerRef.current!.initializeSession(sessionId, Date.now());
+      const newSession = await createGameSession('Play Again: ');
       
       // Play game start sound and music
       playSound.gameStart();
@@ -732,7 +867,7 @@ export default function PlayPage() {
                         <div className="flex flex-col items-center">
                           <div className="flex gap-1.5 items-center justify-center">
                             {(() => {
-                              const MAX_LIVES = 5; // UI cap
+                              const MAX_LIVES = getGameMode(currentSession.gameState.mode).lives; // UI cap
                               const lives = currentSession.gameState.lives;
                               return Array.from({ length: MAX_LIVES }).map((_, i) => (
                                 <motion.div
@@ -759,16 +894,54 @@ export default function PlayPage() {
 
                         {/* TIME with circular progress */}
                         <div className="flex flex-col items-center">
-                          <CircularTimer 
-                            timeLeft={currentSession.gameState.timeLeft}
-                            totalTime={120}
-                            size={80}
-                            strokeWidth={6}
-                          />
+                          {(() => {
+                            const duration = getGameMode(currentSession.gameState.mode).duration;
+                            if (duration !== null) {
+                              return (
+                                <CircularTimer 
+                                  timeLeft={currentSession.gameState.timeLeft}
+                                  totalTime={duration}
+                                  size={80}
+                                  strokeWidth={6}
+                                />
+                              );
+                            }
+
+                            // Untimed modes show how long the player has survived
+                            const survived = Math.floor(currentSession.gameState.elapsedTime / 1000);
+                            return (
+                              <div className="w-20 h-20 flex flex-col items-center justify-center rounded-full border-[6px] border-electric-cyan/40">
+                                <span className="text-electric-cyan font-futuristic font-bold text-lg leading-none">
+                                  {Math.floor(survived / 60)}:{(survived % 60).toString().padStart(2, '0')}
+                                </span>
+                                <span className="text-white/50 text-[8px] font-futuristic tracking-widest mt-0.5">
+                                  SURVIVED
+                                </span>
+                              </div>
+                            );
+                          })()}
                         </div>
                       </div>
                     </div>
 
+                    {/* Ghost pace against the personal best */}
+                    {ghost && currentSession.state !== 'READY' && (
+                      <div className="mt-3 w-full">
+                        <PaceIndicator ghost={ghost} score={currentSession.gameState.score} tick={currentSession.tick} />
+                      </div>
+                    )}
+
+                    {/* Desync with the server: the game was corrected, or the run may not be ranked */}
+                    {lastDesync && (
+                      <div className="mt-3 w-full text-center">
+                        <span className={`font-futuristic text-xs ${lastDesync.rebased ? 'text-warning-yellow' : 'text-error-red'}`}>
+                          {lastDesync.rebased
+                            ? `⚠️ Resynced with the server${lastDesync.replayedActions > 0 ? ` (${lastDesync.replayedActions} taps replayed)` : ''}`
+                            : '⚠️ Out of sync with the server - this run may not be ranked'}
+                        </span>
+                      </div>
+                    )}
+
                     {/* Active Effects */}
                     {currentSession.gameState.activeEffects.length > 0 && (
                       <div className="mt-4 w-full">
@@ -781,10 +954,10 @@ export default function PlayPage() {
                                 className="bg-purple-accent/20 border border-purple-accent/50 rounded px-2 py-1"
                               >
                                 <span className="text-purple-accent font-futuristic text-xs uppercase">
-                                  {effect.type.replace('-', ' ')}
+                                  {getCardName(effect.type)}
                                 </span>
                                 <span className="text-soft-white/60 text-xs ml-1">
-                                  {Math.ceil(effect.duration / 1000)}s
+                                  {effect.charges ? `×${effect.charges}` : `${Math.ceil(effect.duration / 1000)}s`}
                                 </span>
                               </div>
                             ))}
@@ -798,6 +971,65 @@ export default function PlayPage() {
                 {/* Game Controls - Only show when READY */}
                 {currentSession.state === 'READY' && (
                   <div className="text-center mb-6">
+                    {/* Game Mode Selector */}
+                    <div className="flex flex-wrap justify-center gap-2 mb-2">
+                      {Object.values(GAME_MODES).map(mode => (
+                        <button
+                          key={mode.id}
+                          onClick={() => { setSelectedMode(mode.id); setIsDaily(false); }}
+                          disabled={isStartingGame}
+                          className={`px-3 py-1.5 rounded-lg font-futuristic text-xs transition-all ${
+                            !isDaily && selectedMode === mode.id
+                              ? 'bg-electric-cyan text-charcoal font-bold'
+                              : 'bg-purple-accent/20 text-purple-accent hover:bg-purple-accent/30'
+                          }`}
+                        >
+                          {mode.name.toUpperCase()}
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => setIsDaily(true)}
+                        disabled={isStartingGame || dailyAttemptsLeft <= 0}
+                        className={`px-3 py-1.5 rounded-lg font-futuristic text-xs transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                          isDaily
+                            ? 'bg-yellow-400 text-charcoal font-bold'
+                            : 'bg-yellow-400/20 text-yellow-400 hover:bg-yellow-400/30'
+                        }`}
+                      >
+                        DAILY CHALLENGE
+                      </button>
+                    </div>
+                    {!isDaily && (
+                      <button
+                        onClick={() => setCardInventory(enabled => !enabled)}
+                        disabled={isStartingGame}
+                        className={`px-3 py-1 mb-2 rounded-lg font-futuristic text-[10px] transition-all ${
+                          cardInventory
+                            ? 'bg-purple-accent text-charcoal font-bold'
+                            : 'bg-purple-accent/10 text-purple-accent/70 hover:bg-purple-accent/20'
+                        }`}
+                      >
+                        CARD INVENTORY: {cardInventory ? 'ON (keys 1-3)' : 'OFF'}
+                      </button>
+                    )}
+                    {isDaily ? (
+                      <p className="text-soft-white/60 text-xs mb-4">
+                        Same seed for everyone today ({GAME_MODES[DAILY_CHALLENGE_CONFIG.MODE].name} rules).{' '}
+                        <span className="text-yellow-400">
+                          {dailyAttemptsLeft}/{DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS} ranked attempts left
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-soft-white/60 text-xs mb-4">
+                        {GAME_MODES[selectedMode].description}
+                      </p>
+                    )}
+                    {dailyChallenge.data?.player && (
+                      <p className="text-yellow-400 font-futuristic text-xs mb-4">
+                        🗓️ Daily rank today: #{dailyChallenge.data.player.rank} of {dailyChallenge.data.totalPlayers} ({dailyChallenge.data.player.score.toLocaleString()} pts)
+                      </p>
+                    )}
+
                     <motion.button
                       onClick={handleStartGame}
                       disabled={!mgid.hasMinimumBalance || (!contractState.canStartGame && contractState.cooldownRemaining > 0) || isStartingGame || isValidatingSession}
@@ -991,6 +1223,9 @@ export default function PlayPage() {
           session={gameOverSession}
           onPlayAgain={handlePlayAgain}
           onMainMenu={handleMainMenu}
+          daily={gameOverSession?.daily ? dailyResult : undefined}
+          achievements={newAchievements}
+          pace={gameOverPace}
         />
       )}
     </div>
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Header } from '@/components/layout/Header';
+import { ScoreTrendChart } from '@/components/profile/ScoreTrendChart';
+import { usePlayerProfile } from '@/hooks/usePlayerProfile';
+import { useAchievements } from '@/hooks/useAchievements';
+import { playMusic } from '@/lib/audio-manager';
+import { getCardName } from '@/lib/cards';
+import { GAME_MODES, GameModeId } from '@/lib/game-modes';
+
+const formatPlaytime = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m ${Math.floor(ms / 1000) % 60}s`;
+};
+
+export default function ProfilePage() {
+  const params = useParams<{ address: string }>();
+  const address = params?.address ?? null;
+
+  const [trendMode, setTrendMode] = useState<GameModeId | undefined>(undefined); // undefined = all modes
+  const { data: profile, loading, error, refetch } = usePlayerProfile(address);
+  const { data: achievements } = useAchievements(address);
+
+  // Handle navigation
+  const handleNavigate = (page: string) => {
+    switch(page) {
+      case 'play':
+        window.location.href = '/play';
+        break;
+      case 'how-to-play':
+        window.location.href = '/how-to-play';
+        break;
+      case 'leaderboard':
+        window.location.href = '/leaderboard';
+        break;
+      default:
+        window.location.href = '/';
+    }
+  };
+
+  // Initialize menu music
+  useEffect(() => {
+    playMusic.menu();
+
+    return () => {
+      playMusic.stop();
+    };
+  }, []);
+
+  const lifetime = profile?.lifetime;
+  const stats = [
+    { label: "Verified Runs", value: lifetime ? lifetime.runs.toLocaleString() : "..." },
+    { label: "Best Score", value: lifetime ? lifetime.bestScore.toLocaleString() : "..." },
+    { label: "Average Score", value: lifetime ? lifetime.averageScore.toLocaleString() : "..." },
+    { label: "Accuracy", value: lifetime ? `${Math.round(lifetime.accuracy * 100)}%` : "..." },
+    { label: "Favourite Card", value: lifetime ? (lifetime.favouriteCard ? getCardName(lifetime.favouriteCard) : "None") : "..." },
+    { label: "Total Playtime", value: lifetime ? formatPlaytime(lifetime.playtimeMs) : "..." },
+  ];
+
+  const trend = profile?.trend.filter(point => !trendMode || point.mode === trendMode) ?? [];
+  const trendModes = Array.from(new Set(profile?.trend.map(point => point.mode) ?? []));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-charcoal via-ink to-charcoal">
+      <Header
+        currentPage="leaderboard"
+        onNavigate={handleNavigate}
+      />
+
+      <div className="container mx-auto px-4 py-8 pt-24 max-w-6xl">
+        {/* Hero Section */}
+        <motion.div
+          className="text-center mb-8"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6 }}
+        >
+          <h1 className="text-5xl font-futuristic font-bold text-electric-cyan mb-4 animate-glow">
+            PLAYER PROFILE
+          </h1>
+          <p className="text-xl text-soft-white/70 font-mono">
+            {address ? `${address.slice(0, 6)}...${address.slice(-4)}` : '...'}
+          </p>
+        </motion.div>
+
+        {error && (
+          <div className="mb-8 bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-center">
+            <p className="text-red-400 font-futuristic">
+              ❌ <strong>Error:</strong> {error}
+            </p>
+            <button
+              onClick={refetch}
+              className="mt-2 px-4 py-2 bg-red-500/20 text-red-300 rounded-lg hover:bg-red-500/30 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {/* Lifetime Stats */}
+        <motion.section
+          className="mb-8"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.2 }}
+        >
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {stats.map(stat => (
+              <div
+                key={stat.label}
+                className={`bg-glass border border-purple-accent/30 rounded-lg p-4 text-center backdrop-blur-sm ${loading ? 'animate-pulse' : ''}`}
+              >
+                <div className="text-2xl font-futuristic font-bold text-electric-cyan mb-1">
+                  {stat.value}
+                </div>
+                <div className="text-soft-white/60 text-sm font-futuristic">
+                  {stat.label}
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.section>
+
+        {/* Score Trend */}
+        <motion.section
+          className="mb-8"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.4 }}
+        >
+          <div className="bg-glass border border-purple-accent/30 rounded-xl p-6 backdrop-blur-sm">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h2 className="text-2xl font-futuristic font-bold text-electric-cyan">SCORE TREND</h2>
+              {trendModes.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {[undefined, ...trendModes].map(mode => (
+                    <button
+                      key={mode ?? 'all'}
+                      onClick={() => setTrendMode(mode)}
+                      className={`px-3 py-1 rounded-lg font-futuristic text-xs transition-all ${
+                        trendMode === mode
+                          ? 'bg-electric-cyan text-charcoal font-bold'
+                          : 'bg-purple-accent/20 text-purple-accent hover:bg-purple-accent/30'
+                      }`}
+                    >
+                      {mode ? GAME_MODES[mode].name : 'All'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <ScoreTrendChart points={trend} />
+          </div>
+        </motion.section>
+
+        {/* Recent Runs */}
+        <motion.section
+          className="mb-8"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, delay: 0.6 }}
+        >
+          <div className="bg-glass border border-purple-accent/30 rounded-xl backdrop-blur-sm overflow-hidden">
+            <div className="bg-purple-accent/20 p-4 border-b border-purple-accent/30">
+              <div className="grid grid-cols-5 gap-4 text-soft-white font-futuristic font-bold text-sm">
+                <div className="col-span-2">RUN</div>
+                <div className="text-center">SCORE</div>
+                <div className="text-center">ACCURACY</div>
+                <div className="text-center">STATUS</div>
+              </div>
+            </div>
+
+            <div className="divide-y divide-purple-accent/20">
+              {profile?.recentRuns.map(run => {
+                const boardTaps = run.stats.totalTaps - run.stats.activations;
+                return (
+                  <div key={run.sessionId} className="p-4 hover:bg-purple-accent/5 transition-colors">
+                    <div className="grid grid-cols-5 gap-4 items-center text-sm">
+                      <div className="col-span-2">
+                        <div className="font-futuristic font-bold text-soft-white">
+                          {GAME_MODES[run.mode]?.name ?? run.mode}
+                          {run.daily && (
+                            <span className="ml-2 text-xs bg-purple-accent/20 text-purple-accent px-2 py-1 rounded">
+                              DAILY
+                            </span>
+                          )}
+                        </div>
+                        <div className="text-soft-white/50 text-xs">
+                          {new Date(run.finishedAt).toLocaleString()} · {formatPlaytime(run.durationMs)}
+                        </div>
+                      </div>
+                      <div className="text-center font-futuristic font-bold text-electric-cyan">
+                        {run.score.toLocaleString()}
+                      </div>
+                      <div className="text-center text-soft-white/80">
+                        {boardTaps > 0 ? `${Math.round(((run.stats.logos + run.stats.gifts) / boardTaps) * 100)}%` : '-'}
+                      </div>
+                      <div className="text-center font-futuristic text-xs">
+                        <div className={run.isValid ? 'text-success-lime' : 'text-red-400'}>
+                          {run.isValid ? 'VERIFIED' : 'REJECTED'}
+                        </div>
+                        <a href={`/replay/${run.sessionId}`} className="text-purple-accent hover:text-electric-cyan transition-colors">
+                          ▶ REPLAY
+                        </a>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {!loading && profile?.recentRuns.length === 0 && (
+                <div className="p-8 text-center text-soft-white/60">
+                  <div className="text-6xl mb-4">🎮</div>
+                  <div className="font-futuristic text-lg mb-2">No archived runs yet</div>
+                  <div className="text-sm">Finished server-verified runs show up here.</div>
+                </div>
+              )}
+            </div>
+          </div>
+        </motion.section>
+
+        {/* Achievements */}
+        {achievements && (
+          <motion.section
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.8 }}
+          >
+            <div className="bg-glass border border-electric-cyan/30 rounded-xl p-6 backdrop-blur-sm">
+              <h2 className="text-2xl font-futuristic font-bold text-electric-cyan mb-4">
+                ACHIEVEMENTS {achievements.unlocked.length}/{achievements.total}
+              </h2>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {[...achievements.unlocked, ...achievements.locked].map(achievement => {
+                  const unlocked = achievements.unlocked.some(entry => entry.id === achievement.id);
+                  return (
+                    <div
+                      key={achievement.id}
+                      title={achievement.description}
+                      className={`rounded-lg border p-3 text-center ${
+                        unlocked ? 'border-success-lime/40 bg-success-lime/10' : 'border-soft-white/10 opacity-40'
+                      }`}
+                    >
+                      <div className="text-2xl">{achievement.icon}</div>
+                      <div className="font-futuristic text-xs text-soft-white mt-1">{achievement.name}</div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </motion.section>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { GameStateManager, GameSession, GameStateType } from '@/lib/game-state';
+import { GameCanvas } from '@/components/game/GameCanvas';
+import { ReplayControls } from '@/components/game/ReplayControls';
+import { Header } from '@/components/layout/Header';
+import { useReplay } from '@/hooks/useReplay';
+import { GAME_MODES } from '@/lib/game-modes';
+
+export default function ReplayPage() {
+  const params = useParams<{ sessionId: string }>();
+  const sessionId = params?.sessionId ?? null;
+  const { data, loading, error, refetch } = useReplay(sessionId);
+
+  const gameManagerRef = useRef<GameStateManager | null>(null);
+  const [isReplayReady, setIsReplayReady] = useState(false);
+  const [tick, setTick] = useState(0);
+  const [endTick, setEndTick] = useState(0);
+  const [state, setState] = useState<GameStateType>('PAUSED');
+  const [speed, setSpeed] = useState(1);
+  const [showHitboxes, setShowHitboxes] = useState(false);
+
+  // Handle navigation
+  const handleNavigate = (page: string) => {
+    switch(page) {
+      case 'play':
+        window.location.href = '/play';
+        break;
+      case 'how-to-play':
+        window.location.href = '/how-to-play';
+        break;
+      case 'leaderboard':
+        window.location.href = '/leaderboard';
+        break;
+      default:
+        window.location.href = '/';
+    }
+  };
+
+  // Load the run into a fresh manager once its inputs arrive
+  useEffect(() => {
+    if (!data) return;
+
+    const gameManager = new GameStateManager({
+      screenWidth: 800,
+      screenHeight: 600,
+      objectSize: { x: 64, y: 64 },
+    });
+    const session = gameManager.loadReplay(data.replay);
+    gameManagerRef.current = gameManager;
+    setEndTick(session.playback?.endTick ?? 0);
+    setIsReplayReady(true);
+
+    return () => {
+      gameManager.cleanup();
+      gameManagerRef.current = null;
+      setIsReplayReady(false);
+    };
+  }, [data]);
+
+  const handleUpdate = useCallback((session: GameSession) => {
+    setTick(session.tick);
+    setState(session.state);
+    setSpeed(session.playback?.speed ?? 1);
+  }, []);
+
+  const run = data?.run;
+
+  return (
+    <div className="min-h-screen bg-charcoal">
+      <Header currentPage="leaderboard" onNavigate={handleNavigate} />
+
+      <div className="container mx-auto p-4 pt-24 max-w-4xl">
+        <div className="text-center mb-4">
+          <h1 className="text-4xl font-futuristic font-bold text-electric-cyan mb-2">
+            REPLAY
+          </h1>
+          {data && (
+            <p className="text-soft-white/70 font-futuristic text-sm">
+              {GAME_MODES[data.replay.mode]?.name ?? data.replay.mode}
+              {run && (
+                <>
+                  {' · '}
+                  <a href={`/profile/${run.address}`} className="hover:underline font-mono">
+                    {`${run.address.slice(0, 6)}...${run.address.slice(-4)}`}
+                  </a>
+                  {' · '}
+                  <span className={run.isValid ? 'text-success-lime' : 'text-red-400'}>
+                    {run.score.toLocaleString()} {run.isValid ? 'VERIFIED' : 'REJECTED'}
+                  </span>
+                </>
+              )}
+            </p>
+          )}
+        </div>
+
+        {loading && (
+          <div className="text-center text-electric-cyan font-futuristic">
+            Loading replay...
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-center">
+            <p className="text-red-400 font-futuristic">
+              ❌ <strong>Error:</strong> {error}
+            </p>
+            <button
+              onClick={refetch}
+              className="mt-2 px-4 py-2 bg-red-500/20 text-red-300 rounded-lg hover:bg-red-500/30 transition-colors"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
+        {isReplayReady && gameManagerRef.current && (
+          <>
+            <div className="w-full mx-auto bg-ink rounded-lg overflow-hidden mb-4" style={{ maxWidth: '800px', height: '600px' }}>
+              <GameCanvas
+                gameManager={gameManagerRef.current}
+                onUpdate={handleUpdate}
+                showHitboxes={showHitboxes}
+              />
+            </div>
+
+            <ReplayControls
+              tick={tick}
+              endTick={endTick}
+              playing={state === 'RUNNING'}
+              speed={speed}
+              showHitboxes={showHitboxes}
+              onPlay={() => gameManagerRef.current?.playReplay()}
+              onPause={() => gameManagerRef.current?.pauseGame()}
+              onSeek={target => gameManagerRef.current?.seekPlayback(target)}
+              onSpeedChange={option => gameManagerRef.current?.setPlaybackSpeed(option)}
+              onToggleHitboxes={() => setShowHitboxes(prev => !prev)}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,26 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
-import { GameStateManager } from '@/lib/game-state';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { GameStateManager, GameSession, GameStateType } from '@/lib/game-state';
 import { GameCanvas } from '@/components/game/GameCanvas';
+import { ReplayControls } from '@/components/game/ReplayControls';
+import { ReplayTransfer } from '@/components/game/ReplayTransfer';
 import { Header } from '@/components/layout/Header';
 import { playMusic } from '@/lib/audio-manager';
+import { ReplayFile, createReplayFile, decodeReplay, getSessionReplayInput } from '@/lib/replay-format';
+import { takePendingReplay } from '@/lib/session-storage';
 
 export default function TestGamePage() {
   const gameManagerRef = useRef<GameStateManager | null>(null);
   const [isGameReady, setIsGameReady] = React.useState(false);
+  const [finishedReplay, setFinishedReplay] = React.useState<ReplayFile | null>(null);
+  const [importedReplay, setImportedReplay] = React.useState<ReplayFile | null>(null);
+  const [importError, setImportError] = React.useState<string | null>(null);
+  const [tick, setTick] = React.useState(0);
+  const [endTick, setEndTick] = React.useState(0);
+  const [state, setState] = React.useState<GameStateType>('PAUSED');
+  const [speed, setSpeed] = React.useState(1);
+  const [showHitboxes, setShowHitboxes] = React.useState(false);
 
   // Handle navigation
   const handleNavigate = (page: string) => {
@@ -27,14 +39,15 @@ export default function TestGamePage() {
     }
   };
 
-  useEffect(() => {
-    // Initialize game manager
+  // Fresh manager with a new test session
+  const createTestSession = () => {
     const config = {
       screenWidth: 800,
       screenHeight: 600,
       objectSize: { x: 64, y: 64 },
     };
 
+    gameManagerRef.current?.cleanup();
     gameManagerRef.current = new GameStateManager(config);
     
     // Initialize a test session
@@ -42,6 +55,34 @@ export default function TestGamePage() {
     const seed = Date.now();
     
     gameManagerRef.current.initializeSession(sessionId, seed);
+  };
+
+  // Watch a replay in a manager sized to the viewport it was recorded at
+  const loadImportedReplay = (file: ReplayFile) => {
+    gameManagerRef.current?.cleanup();
+    gameManagerRef.current = new GameStateManager({
+      screenWidth: file.viewport.width,
+      screenHeight: file.viewport.height,
+      objectSize: { x: 64, y: 64 },
+    });
+    const session = gameManagerRef.current.loadReplay(file);
+    setTick(0);
+    setEndTick(session.playback?.endTick ?? 0);
+    setImportedReplay(file);
+    setImportError(null);
+  };
+
+  useEffect(() => {
+    // Initialize game manager, or open a replay imported from the game over screen
+    const pendingReplay = takePendingReplay();
+    createTestSession();
+    if (pendingReplay) {
+      try {
+        loadImportedReplay(decodeReplay(pendingReplay));
+      } catch (error) {
+        setImportError(error instanceof Error ? error.message : 'Failed to read replay');
+      }
+    }
     setIsGameReady(true);
 
     // Start menu music
@@ -54,9 +95,24 @@ export default function TestGamePage() {
   }, []);
 
   const startGame = () => {
+    if (importedReplay) {
+      createTestSession();
+      setImportedReplay(null);
+    }
     gameManagerRef.current?.startCountdown();
   };
 
+  const handleGameEnd = useCallback((session: GameSession) => {
+    console.log('Game ended:', session);
+    setFinishedReplay(createReplayFile(getSessionReplayInput(session)));
+  }, []);
+
+  const handleUpdate = useCallback((session: GameSession) => {
+    setTick(session.tick);
+    setState(session.state);
+    setSpeed(session.playback?.speed ?? 1);
+  }, []);
+
   if (!isGameReady || !gameManagerRef.current) {
     return (
       <div className="min-h-screen bg-charcoal flex items-center justify-center">
@@ -87,11 +143,38 @@ export default function TestGamePage() {
         <div className="w-full max-w-4xl mx-auto bg-ink rounded-lg overflow-hidden" style={{ height: '600px' }}>
           <GameCanvas 
             gameManager={gameManagerRef.current}
-            onGameEnd={(session) => {
-              console.log('Game ended:', session);
-            }}
+            onGameEnd={handleGameEnd}
+            onUpdate={handleUpdate}
+            showHitboxes={showHitboxes}
           />
         </div>
+
+        <div className="w-full max-w-4xl mx-auto mt-4 space-y-4">
+          {importedReplay && (
+            <ReplayControls
+              tick={tick}
+              endTick={endTick}
+              playing={state === 'RUNNING'}
+              speed={speed}
+              showHitboxes={showHitboxes}
+              onPlay={() => gameManagerRef.current?.playReplay()}
+              onPause={() => gameManagerRef.current?.pauseGame()}
+              onSeek={target => gameManagerRef.current?.seekPlayback(target)}
+              onSpeedChange={option => gameManagerRef.current?.setPlaybackSpeed(option)}
+              onToggleHitboxes={() => setShowHitboxes(prev => !prev)}
+            />
+          )}
+
+          {importError && (
+            <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 text-center">
+              <p className="text-red-400 font-futuristic text-sm">
+                ❌ <strong>Replay not loaded:</strong> {importError}
+              </p>
+            </div>
+          )}
+
+          <ReplayTransfer replay={importedReplay ?? finishedReplay} onImport={loadImportedReplay} />
+        </div>
         
         <div className="mt-4 text-center">
           <div className="text-soft-white/70 font-futuristic text-sm">
@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { CARD_INVENTORY_SLOTS, getCardDefinition, getCardName } from '@/lib/cards';
+
+interface CardInventoryProps {
+  inventory?: string[]; // Held card ids; absent when the run has no inventory
+  onActivate: (slot: number) => void;
+  disabled?: boolean;
+}
+
+export function CardInventory({ inventory, onActivate, disabled = false }: CardInventoryProps) {
+  // Number keys 1-3 play the card in that slot
+  useEffect(() => {
+    if (!inventory || disabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const slot = Number(event.key) - 1;
+      if (Number.isInteger(slot) && slot >= 0 && slot < CARD_INVENTORY_SLOTS) {
+        onActivate(slot);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [inventory, disabled, onActivate]);
+
+  if (!inventory) return null;
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex space-x-2"
+      onTouchStart={event => event.stopPropagation()}
+    >
+      {[...Array(CARD_INVENTORY_SLOTS)].map((_, slot) => {
+        const cardId = inventory[slot];
+        return (
+          <motion.button
+            key={cardId ? `${slot}-${cardId}` : slot}
+            disabled={disabled || !cardId}
+            onClick={event => {
+              // Keep the click from also landing on the canvas as a tap
+              event.stopPropagation();
+              onActivate(slot);
+            }}
+            className={`w-20 h-14 rounded-lg border bg-glass backdrop-blur-sm font-futuristic text-[10px] transition-all ${
+              cardId
+                ? 'border-purple-accent/60 hover:border-electric-cyan cursor-pointer'
+                : 'border-soft-white/10 cursor-default'
+            }`}
+            initial={{ scale: cardId ? 0.6 : 1 }}
+            animate={{ scale: 1 }}
+            whileTap={cardId ? { scale: 0.9 } : {}}
+          >
+            <div className="text-soft-white/40">{slot + 1}</div>
+            <div className={`font-bold ${cardId ? getCardDefinition(cardId)?.color ?? 'text-purple-accent' : 'text-soft-white/20'}`}>
+              {cardId ? getCardName(cardId).toUpperCase() : 'EMPTY'}
+            </div>
+          </motion.button>
+        );
+      })}
+    </div>
+  );
+}
@@ -5,22 +5,40 @@ import { motion } from 'framer-motion';
 import { GameStateManager, GameSession } from '@/lib/game-state';
 import { GameObject } from '@/lib/physics';
 import { getGameModifiers } from '@/lib/game-logic';
+import { getCardName } from '@/lib/cards';
+import { PLAYBACK_CONFIG } from '@/lib/replay-playback';
+import type { PaceCurve } from '@/lib/pace';
 import { MonadLogo } from './MonadLogo';
 import { Glitch } from './Glitch';
 import { GiftBox } from './GiftBox';
 import { HUD } from './HUD';
+import { CardInventory } from './CardInventory';
 import { Toast } from './Toast';
 import { playSound, playMusic } from '@/lib/audio-manager';
+import { useWaveAnnouncements } from '@/hooks/useWaveAnnouncements';
 
 interface GameCanvasProps {
   gameManager: GameStateManager;
   onGameEnd?: (session: GameSession) => void;
+  onUpdate?: (session: GameSession) => void; // Every state change and frame, e.g. for replay controls
+  showHitboxes?: boolean; // Outline every object's tap hitbox
+  ghost?: PaceCurve | null; // Personal best shown as pace in the HUD
 }
 
-export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
+// Tap marker colours in replay playback
+const TAP_MARKER_CLASSES: Record<string, string> = {
+  logo: 'border-success-lime',
+  gift: 'border-purple-accent',
+  glitch: 'border-danger',
+  bomb: 'border-danger',
+  miss: 'border-soft-white/60',
+};
+
+export function GameCanvas({ gameManager, onGameEnd, onUpdate, showHitboxes = false, ghost }: GameCanvasProps) {
   const canvasRef = useRef<HTMLDivElement>(null);
   const [session, setSession] = React.useState<GameSession | null>(null);
   const [toastMessage, setToastMessage] = React.useState<string | null>(null);
+  const { announcement: waveAnnouncement, dismiss: dismissWaveAnnouncement } = useWaveAnnouncements(session);
 
   // Handle tap/click events
   const handleTap = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
@@ -42,6 +60,13 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
     }
   }, [session, gameManager]);
 
+  // Play a held card from the inventory (HUD button or number key)
+  const handleActivateCard = useCallback((slot: number) => {
+    if (gameManager.activateCard(slot)) {
+      playSound.powerUp();
+    }
+  }, [gameManager]);
+
   // Handle touch events for mobile
   const handleTouch = useCallback((event: React.TouchEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -64,9 +89,10 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
     gameManager.setEventHandlers(
       (state, session) => {
         setSession({ ...session });
+        onUpdate?.(session);
         
-        // Handle game state changes (but don't control music here)
-        if (state === 'FINISHED') {
+        // Handle game state changes (but don't control music here); replays play silently
+        if (state === 'FINISHED' && !session.playback) {
           playSound.gameOver();
           // Don't stop music here - let parent component handle music transitions
           
@@ -77,6 +103,8 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
       },
       (session) => {
         setSession({ ...session });
+        onUpdate?.(session);
+        if (session.playback) return;
 
         // Play audio feedback based on session changes
         if (session.gameState.combo >= 5 && session.gameState.combo % 5 === 0) {
@@ -97,7 +125,7 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
       gameManager.cleanup();
       // Don't stop music here - let parent component handle music lifecycle
     };
-  }, [gameManager, onGameEnd]);
+  }, [gameManager, onGameEnd, onUpdate]);
 
   // Render falling objects
   const renderObjects = (objects: GameObject[]) => {
@@ -120,6 +148,9 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
                 key={key}
                 style={style}
                 highlighted={session ? getGameModifiers(session.gameState).logoHighlight : false}
+                hp={obj.hp}
+                maxHp={obj.behaviour?.armour}
+                splits={obj.behaviour?.splits}
                 onTap={() => {
                   const hit = gameManager.handleTap(obj.position);
                   if (hit) playSound.logoTap();
@@ -150,7 +181,7 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
                   if (hit) playSound.giftOpen();
                 }}
                 onReveal={(cardType) => {
-                  setToastMessage(`Magic Card: ${cardType.replace('-', ' ').toUpperCase()}`);
+                  setToastMessage(`Magic Card: ${getCardName(cardType).toUpperCase()}`);
                   setTimeout(() => setToastMessage(null), 2000);
                   playSound.powerUp(); // Play power-up sound when card is revealed
                 }}
@@ -205,7 +236,7 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
 
   // Render pause overlay
   const renderPauseOverlay = () => {
-    if (!session || session.state !== 'PAUSED') return null;
+    if (!session || session.state !== 'PAUSED' || session.playback) return null;
 
     return (
       <motion.div
@@ -236,6 +267,43 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
     );
   };
 
+  // Hitbox outlines and recent tap markers (debugging and replay review)
+  const renderInspectionOverlay = () => {
+    if (!session) return null;
+
+    const recentTaps = session.playback
+      ? session.tapHistory.filter(tap => tap.result !== 'activate' && session.tick - tap.tick <= PLAYBACK_CONFIG.TAP_MARKER_TICKS)
+      : [];
+
+    return (
+      <div className="absolute inset-0 pointer-events-none z-10">
+        {showHitboxes && session.objects.filter(obj => obj.isActive).map(obj => (
+          <div
+            key={`hitbox-${obj.id}`}
+            className="absolute border border-yellow-400/80"
+            style={{
+              left: obj.hitbox.x - obj.hitbox.width / 2,
+              top: obj.hitbox.y - obj.hitbox.height / 2,
+              width: obj.hitbox.width,
+              height: obj.hitbox.height,
+            }}
+          />
+        ))}
+        {recentTaps.map((tap, index) => (
+          <div
+            key={`tap-${tap.tick}-${index}`}
+            className={`absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 ${TAP_MARKER_CLASSES[tap.result]}`}
+            style={{
+              left: tap.position.x,
+              top: tap.position.y,
+              opacity: 1 - (session.tick - tap.tick) / PLAYBACK_CONFIG.TAP_MARKER_TICKS,
+            }}
+          />
+        ))}
+      </div>
+    );
+  };
+
   if (!session) {
     return (
       <div className="w-full h-full flex items-center justify-center">
@@ -264,25 +332,35 @@ export function GameCanvas({ gameManager, onGameEnd }: GameCanvasProps) {
       <div className="absolute inset-0 bg-gradient-radial from-purple-accent/10 via-transparent to-transparent opacity-50" />
       
       {/* Game objects */}
-      <div 
-        className="absolute inset-0"
-        style={{
-          transform: modifiers.shrinkRay < 1 ? `scale(${modifiers.shrinkRay})` : 'none',
-          transition: 'transform 0.3s ease',
-        }}
-      >
+      <div className="absolute inset-0">
         {renderObjects(session.objects)}
       </div>
 
+      {renderInspectionOverlay()}
+
       {/* HUD */}
-      <HUD gameState={session.gameState} />
+      <HUD gameState={session.gameState} waves={session.waves} tick={session.tick} ghost={ghost} />
 
-      {/* Toast notifications */}
-      {toastMessage && (
+      {/* Held cards (card inventory runs only) */}
+      <CardInventory
+        inventory={session.gameState.inventory}
+        onActivate={handleActivateCard}
+        disabled={session.state !== 'RUNNING' || !!session.playback}
+      />
+
+      {/* Toast notifications (card reveals take precedence over wave news) */}
+      {toastMessage ? (
         <Toast
           message={toastMessage}
           onClose={() => setToastMessage(null)}
         />
+      ) : waveAnnouncement && (
+        <Toast
+          key={waveAnnouncement.key}
+          message={waveAnnouncement.message}
+          type={waveAnnouncement.type}
+          onClose={dismissWaveAnnouncement}
+        />
       )}
 
       {/* Overlays */}
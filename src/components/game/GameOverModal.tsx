@@ -4,6 +4,13 @@ import React, { useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { GameSession } from '@/lib/game-state';
 import { playSound } from '@/lib/audio-manager';
+import type { DailyStanding } from '@/lib/daily-challenge';
+import type { UnlockedAchievement } from '@/lib/achievements';
+import { ReplayFile, createReplayFile, encodeReplayJson, getSessionReplayInput } from '@/lib/replay-format';
+import { savePendingReplay } from '@/lib/session-storage';
+import { ReplayTransfer } from './ReplayTransfer';
+import type { PaceCurve } from '@/lib/pace';
+import { PaceChart } from './PaceChart';
 
 interface GameOverModalProps {
   isOpen: boolean;
@@ -11,6 +18,9 @@ interface GameOverModalProps {
   onPlayAgain: () => void;
   onMainMenu: () => void;
   onShare?: () => void;
+  daily?: DailyStanding | null; // Daily challenge result (null while the run is being verified)
+  achievements?: UnlockedAchievement[]; // Unlocked by this run, once the server has verified it
+  pace?: { current: PaceCurve; best: PaceCurve } | null; // This run's score curve against the personal best it raced
 }
 
 export function GameOverModal({ 
@@ -18,7 +28,10 @@ export function GameOverModal({
   session, 
   onPlayAgain, 
   onMainMenu, 
-  onShare 
+  onShare,
+  daily,
+  achievements = [],
+  pace
 }: GameOverModalProps) {
   if (!session) return null;
 
@@ -88,6 +101,13 @@ export function GameOverModal({
     { label: 'Active Effects', value: gameState.activeEffects.length, color: 'text-success-lime' },
   ];
 
+  // This run as a shareable replay; imported replays open in the test-game viewer
+  const replayFile = createReplayFile(getSessionReplayInput(session));
+  const handleImportReplay = (file: ReplayFile) => {
+    savePendingReplay(encodeReplayJson(file));
+    window.location.href = '/test-game';
+  };
+
   function onLeaderboard(e: React.MouseEvent<HTMLButtonElement>): void {
     e.preventDefault();
     // Navigate to leaderboard page
@@ -158,6 +178,87 @@ export function GameOverModal({
               </div>
             </motion.div>
 
+            {/* Daily Challenge Standing */}
+            {daily !== undefined && (
+              <motion.div
+                className="bg-yellow-400/10 border border-yellow-400/30 rounded-lg p-4 mb-8 text-center"
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.5, duration: 0.5 }}
+              >
+                <div className="text-yellow-400 font-futuristic font-bold mb-1">
+                  🗓️ DAILY CHALLENGE
+                </div>
+                {daily === null ? (
+                  <div className="text-soft-white/70 text-sm">Verifying your run...</div>
+                ) : (
+                  <div className="text-soft-white text-sm space-y-1">
+                    <div>
+                      {daily.rank !== null
+                        ? <>Today&apos;s rank: <span className="text-yellow-400 font-bold">#{daily.rank}</span> (best {daily.bestScore?.toLocaleString()})</>
+                        : 'This run could not be verified, so it is not ranked'}
+                    </div>
+                    <div className="text-soft-white/60">
+                      {daily.attemptsLeft} ranked attempt{daily.attemptsLeft === 1 ? '' : 's'} left today
+                    </div>
+                  </div>
+                )}
+              </motion.div>
+            )}
+
+            {/* Newly Unlocked Achievements */}
+            {achievements.length > 0 && (
+              <motion.div
+                className="bg-success-lime/10 border border-success-lime/30 rounded-lg p-4 mb-8"
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.55, duration: 0.5 }}
+              >
+                <div className="text-success-lime font-futuristic font-bold mb-3 text-center">
+                  🏆 ACHIEVEMENT{achievements.length === 1 ? '' : 'S'} UNLOCKED
+                </div>
+                <div className="space-y-2">
+                  {achievements.map((achievement, index) => (
+                    <motion.div
+                      key={achievement.id}
+                      className="flex items-center space-x-3"
+                      initial={{ x: -20, opacity: 0 }}
+                      animate={{ x: 0, opacity: 1 }}
+                      transition={{ delay: 0.7 + index * 0.15, duration: 0.3 }}
+                    >
+                      <span className="text-2xl">{achievement.icon}</span>
+                      <div>
+                        <div className="text-soft-white font-futuristic font-bold text-sm">{achievement.name}</div>
+                        <div className="text-soft-white/60 text-xs">{achievement.description}</div>
+                      </div>
+                    </motion.div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
+            {/* Pace Against Personal Best */}
+            {pace && (
+              <motion.div
+                className="mb-8"
+                initial={{ y: 20, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                transition={{ delay: 0.58, duration: 0.5 }}
+              >
+                <h3 className="text-xl font-futuristic font-bold text-purple-accent mb-1 text-center">
+                  Pace vs Personal Best
+                </h3>
+                <p className={`text-center text-sm font-futuristic mb-3 ${pace.current.score > pace.best.score ? 'text-success-lime' : 'text-soft-white/60'}`}>
+                  {pace.current.score > pace.best.score
+                    ? `New best by ${(pace.current.score - pace.best.score).toLocaleString()}!`
+                    : `${(pace.best.score - pace.current.score).toLocaleString()} short of your best`}
+                </p>
+                <div className="bg-charcoal/30 border border-purple-accent/20 rounded-lg p-4">
+                  <PaceChart current={pace.current} best={pace.best} />
+                </div>
+              </motion.div>
+            )}
+
             {/* Main Stats */}
             <motion.div
               className="grid grid-cols-2 gap-4 mb-8"
@@ -217,6 +318,19 @@ export function GameOverModal({
               </div>
             </motion.div>
 
+            {/* Replay Export / Import */}
+            <motion.div
+              className="mb-8"
+              initial={{ y: 20, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ delay: 1.4, duration: 0.5 }}
+            >
+              <h3 className="text-xl font-futuristic font-bold text-purple-accent mb-4 text-center">
+                Replay
+              </h3>
+              <ReplayTransfer replay={replayFile} onImport={handleImportReplay} />
+            </motion.div>
+
             {/* Action Buttons */}
             <motion.div
               className="flex flex-col sm:flex-row gap-3 justify-center"
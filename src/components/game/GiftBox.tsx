@@ -3,6 +3,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import Image from 'next/image';
+import { getCardDefinition } from '@/lib/cards';
 
 interface GiftBoxProps {
   style: React.CSSProperties;
@@ -11,18 +12,6 @@ interface GiftBoxProps {
   onReveal: (cardType: string) => void;
 }
 
-const CARD_EFFECTS = {
-  'time-freeze': { color: 'text-electric-cyan', name: 'Time Freeze' },
-  'slow-motion': { color: 'text-purple-accent', name: 'Slow Motion' },
-  'golden-monad': { color: 'text-yellow-400', name: 'Golden Monad' },
-  'extra-time': { color: 'text-success-lime', name: 'Extra Time' },
-  'logo-highlight': { color: 'text-electric-cyan', name: 'Logo Highlight' },
-  'bomb-trap': { color: 'text-danger', name: 'Bomb Trap' },
-  'shrink-ray': { color: 'text-purple-accent', name: 'Shrink Ray' },
-  'monad-swarm': { color: 'text-success-lime', name: 'Monad Swarm' },
-  'glitch-purge': { color: 'text-electric-cyan', name: 'Glitch Purge' },
-} as const;
-
 export function GiftBox({ style, cardType, onTap, onReveal }: GiftBoxProps) {
   const [isRevealed, setIsRevealed] = React.useState(false);
   const [isClicked, setIsClicked] = React.useState(false);
@@ -43,7 +32,7 @@ export function GiftBox({ style, cardType, onTap, onReveal }: GiftBoxProps) {
     setTimeout(() => setIsClicked(false), 1000);
   };
 
-  const cardEffect = cardType ? CARD_EFFECTS[cardType as keyof typeof CARD_EFFECTS] : null;
+  const cardEffect = cardType ? getCardDefinition(cardType) ?? null : null;
 
   return (
     <motion.div
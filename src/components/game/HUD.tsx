@@ -3,14 +3,26 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { GameState } from '@/lib/game-logic';
+import { getCardName } from '@/lib/cards';
+import { getGameMode } from '@/lib/game-modes';
+import type { WaveState } from '@/lib/wave-events';
+import { WaveBanner } from './WaveBanner';
+import type { PaceCurve } from '@/lib/pace';
+import { PaceIndicator } from './PaceIndicator';
 
 interface HUDProps {
   gameState: GameState;
   isCountdown?: boolean;
   countdownTime?: number;
+  waves?: WaveState;
+  tick?: number;
+  ghost?: PaceCurve | null; // Personal best to race against
 }
 
-export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDProps) {
+export function HUD({ gameState, isCountdown = false, countdownTime = 0, waves, tick = 0, ghost }: HUDProps) {
+  const mode = getGameMode(gameState.mode);
+  const isTimed = mode.duration !== null;
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -22,18 +34,19 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
       const countdownSeconds = Math.ceil(countdownTime / 1000);
       return countdownSeconds <= 0 ? 'GO!' : countdownSeconds.toString();
     }
-    return formatTime(gameState.timeLeft);
+    // Untimed modes count up instead
+    return formatTime(isTimed ? gameState.timeLeft : gameState.elapsedTime / 1000);
   };
 
   const getTimeColor = () => {
-    if (isCountdown) return 'text-electric-cyan';
+    if (isCountdown || !isTimed) return 'text-electric-cyan';
     if (gameState.timeLeft <= 10) return 'text-danger';
     if (gameState.timeLeft <= 30) return 'text-yellow-400';
     return 'text-electric-cyan';
   };
 
   const isLowLives = gameState.lives <= 2;
-  const isLowTime = !isCountdown && gameState.timeLeft <= 20;
+  const isLowTime = !isCountdown && isTimed && gameState.timeLeft <= 20;
 
   return (
     <motion.div
@@ -132,7 +145,7 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
           }}
         >
           <div className="text-xs text-electric-cyan/60 font-futuristic mb-1">
-            {isCountdown ? 'STARTING' : 'TIME'}
+            {isCountdown ? 'STARTING' : isTimed ? 'TIME' : 'SURVIVED'}
           </div>
           <motion.div
             className={`text-2xl font-futuristic font-bold ${getTimeColor()}`}
@@ -143,13 +156,13 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
           >
             {getTimeDisplay()}
           </motion.div>
-          {!isCountdown && (
+          {!isCountdown && isTimed && (
             <div className="w-20 h-1 bg-charcoal/50 rounded-full mt-1">
               <motion.div
                 className={`h-full rounded-full transition-colors duration-300 ${
                   isLowTime ? 'bg-danger' : 'bg-electric-cyan'
                 }`}
-                animate={{ width: `${(gameState.timeLeft / 120) * 100}%` }}
+                animate={{ width: `${(gameState.timeLeft / mode.duration!) * 100}%` }}
                 transition={{ duration: 0.5 }}
               />
             </div>
@@ -167,7 +180,7 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
         >
           <div className="text-xs text-success-lime/60 font-futuristic mb-1">LIVES</div>
           <div className="flex space-x-1">
-            {[...Array(5)].map((_, i) => (
+            {[...Array(mode.lives)].map((_, i) => (
               <motion.div
                 key={i}
                 className={`w-4 h-4 rounded-full border-2 transition-all duration-300 ${
@@ -191,6 +204,13 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
         </motion.div>
       </div>
 
+      {/* Ghost pace against the personal best */}
+      {ghost && !isCountdown && ghost.mode === gameState.mode && (
+        <div className="mt-3">
+          <PaceIndicator ghost={ghost} score={gameState.score} tick={tick} />
+        </div>
+      )}
+
       {/* Active effects bar */}
       {gameState.activeEffects.length > 0 && (
         <motion.div
@@ -209,7 +229,7 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
                 layout
               >
                 <div className="text-xs font-futuristic text-purple-accent text-center">
-                  {effect.type.replace('-', ' ').toUpperCase()}
+                  {getCardName(effect.type).toUpperCase()}
                 </div>
                 
                 {/* Duration bar for timed effects */}
@@ -229,6 +249,9 @@ export function HUD({ gameState, isCountdown = false, countdownTime = 0 }: HUDPr
           </div>
         </motion.div>
       )}
+
+      {/* Running wave event */}
+      <WaveBanner waves={waves} tick={tick} />
     </motion.div>
   );
 }
\ No newline at end of file
@@ -7,11 +7,16 @@ import Image from 'next/image';
 interface MonadLogoProps {
   style: React.CSSProperties;
   highlighted?: boolean;
+  hp?: number; // Taps left on an armoured logo
+  maxHp?: number;
+  splits?: boolean; // Breaks into two halves when tapped
   onTap: () => void;
 }
 
-export function MonadLogo({ style, highlighted = false, onTap }: MonadLogoProps) {
+export function MonadLogo({ style, highlighted = false, hp, maxHp = 1, splits = false, onTap }: MonadLogoProps) {
   const [isClicked, setIsClicked] = React.useState(false);
+  // A tap that only chips armour shakes the logo instead of popping it
+  const armoured = hp !== undefined && hp > 1;
 
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -32,8 +37,8 @@ export function MonadLogo({ style, highlighted = false, onTap }: MonadLogoProps)
       whileHover={{ scale: 1.1 }}
       whileTap={{ scale: 0.9 }}
       animate={{
-        scale: isClicked ? [1, 1.3, 0] : 1,
-        rotate: isClicked ? [0, 180, 360] : 0,
+        scale: isClicked ? (armoured ? [1, 0.85, 1] : [1, 1.3, 0]) : 1,
+        rotate: isClicked ? (armoured ? [0, -10, 10, 0] : [0, 180, 360]) : 0,
       }}
       transition={{
         duration: isClicked ? 0.3 : 0.2,
@@ -56,6 +61,16 @@ export function MonadLogo({ style, highlighted = false, onTap }: MonadLogoProps)
         />
       )}
       
+      {/* Armour plating ring */}
+      {maxHp > 1 && hp !== undefined && (
+        <div className="absolute -inset-1 rounded-full border-4 border-slate-300/80 pointer-events-none" />
+      )}
+
+      {/* Crack line marking a logo that splits */}
+      {splits && (
+        <div className="absolute inset-y-1 left-1/2 w-0.5 -translate-x-1/2 bg-white/70 rotate-12 pointer-events-none z-10" />
+      )}
+
       {/* Main logo using actual SVG */}
       <motion.div
         className="relative w-full h-full"
@@ -79,6 +94,16 @@ export function MonadLogo({ style, highlighted = false, onTap }: MonadLogoProps)
         />
       </motion.div>
 
+      {/* HP bar for armoured logos */}
+      {maxHp > 1 && hp !== undefined && (
+        <div className="absolute -top-3 left-1/2 -translate-x-1/2 w-4/5 h-1.5 bg-black/60 rounded-full overflow-hidden pointer-events-none">
+          <div
+            className="h-full bg-electric-cyan transition-all duration-200"
+            style={{ width: `${(hp / maxHp) * 100}%` }}
+          />
+        </div>
+      )}
+
       {/* Click effect particles */}
       {isClicked && (
         <>
@@ -0,0 +1,70 @@
+'use client';
+
+import React from 'react';
+import type { PaceCurve } from '@/lib/pace';
+import { SIMULATION_TICK_MS } from '@/lib/simulation';
+
+interface PaceChartProps {
+  current: PaceCurve;
+  best: PaceCurve;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 24;
+
+export function PaceChart({ current, best, width = 560, height = 180 }: PaceChartProps) {
+  const maxTick = Math.max(current.endTick, best.endTick, 1);
+  const maxScore = Math.max(current.score, best.score, ...current.samples, ...best.samples, 1);
+  const innerWidth = width - PADDING * 2;
+  const innerHeight = height - PADDING * 2;
+
+  // Samples sit on interval ticks, except the last which is the run's end
+  const toLine = (curve: PaceCurve) => curve.samples
+    .map((score, index) => {
+      const tick = index === curve.samples.length - 1 ? curve.endTick : index * curve.intervalTicks;
+      const x = PADDING + (tick / maxTick) * innerWidth;
+      const y = PADDING + innerHeight - (score / maxScore) * innerHeight;
+      return `${x},${y}`;
+    })
+    .join(' ');
+
+  const seconds = Math.round((maxTick * SIMULATION_TICK_MS) / 1000);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Score over time against personal best">
+        {[0, 0.5, 1].map(fraction => (
+          <g key={fraction}>
+            <line
+              x1={PADDING}
+              x2={width - PADDING}
+              y1={PADDING + innerHeight * (1 - fraction)}
+              y2={PADDING + innerHeight * (1 - fraction)}
+              className="stroke-purple-accent/20"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={PADDING - 4}
+              y={PADDING + innerHeight * (1 - fraction) + 3}
+              textAnchor="end"
+              fontSize="9"
+              className="fill-soft-white/50"
+            >
+              {Math.round(maxScore * fraction)}
+            </text>
+          </g>
+        ))}
+        <text x={width - PADDING} y={height - 6} textAnchor="end" fontSize="9" className="fill-soft-white/50">
+          {Math.floor(seconds / 60)}:{(seconds % 60).toString().padStart(2, '0')}
+        </text>
+        <polyline points={toLine(best)} fill="none" className="stroke-soft-white/40" strokeWidth="2" strokeDasharray="6 4" strokeLinejoin="round" />
+        <polyline points={toLine(current)} fill="none" className="stroke-electric-cyan" strokeWidth="2" strokeLinejoin="round" />
+      </svg>
+      <div className="flex justify-center gap-6 text-xs font-futuristic">
+        <span className="text-electric-cyan">━ This run ({current.score.toLocaleString()})</span>
+        <span className="text-soft-white/60">┅ Personal best ({best.score.toLocaleString()})</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import { motion } from 'framer-motion';
+import { PaceCurve, getPaceScore } from '@/lib/pace';
+
+interface PaceIndicatorProps {
+  ghost: PaceCurve; // Personal best to race against
+  score: number;
+  tick: number;
+}
+
+export function PaceIndicator({ ghost, score, tick }: PaceIndicatorProps) {
+  const ghostScore = getPaceScore(ghost, tick);
+  const delta = score - ghostScore;
+  const scale = Math.max(ghost.score, score, 1);
+  const deltaColor = delta > 0 ? 'text-success-lime' : delta < 0 ? 'text-danger' : 'text-soft-white/70';
+
+  return (
+    <div className="flex items-center gap-3 w-full max-w-md mx-auto">
+      <div className={`font-futuristic font-bold text-sm min-w-[110px] text-right ${deltaColor}`}>
+        {delta > 0 ? '+' : delta < 0 ? '−' : '±'}{Math.abs(delta).toLocaleString()} vs PB
+      </div>
+      {/* Live score against the ghost's score at the same moment, both out of the best final score */}
+      <div className="relative flex-1 h-2 bg-charcoal/50 rounded-full overflow-hidden" title={`PB pace: ${ghostScore.toLocaleString()} / ${ghost.score.toLocaleString()}`}>
+        <motion.div
+          className="absolute inset-y-0 left-0 bg-soft-white/25 rounded-full"
+          animate={{ width: `${(ghostScore / scale) * 100}%` }}
+          transition={{ duration: 0.2 }}
+        />
+        <motion.div
+          className={`absolute inset-y-0 left-0 rounded-full ${delta >= 0 ? 'bg-success-lime' : 'bg-electric-cyan'}`}
+          style={{ height: '50%', top: '25%' }}
+          animate={{ width: `${(score / scale) * 100}%` }}
+          transition={{ duration: 0.2 }}
+        />
+      </div>
+    </div>
+  );
+}
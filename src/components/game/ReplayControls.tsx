@@ -0,0 +1,89 @@
+'use client';
+
+import React from 'react';
+import { PLAYBACK_CONFIG } from '@/lib/replay-playback';
+import { SIMULATION_TICK_MS } from '@/lib/simulation';
+
+interface ReplayControlsProps {
+  tick: number;
+  endTick: number;
+  playing: boolean;
+  speed: number;
+  showHitboxes: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onToggleHitboxes: () => void;
+}
+
+const formatTicks = (ticks: number) => {
+  const seconds = Math.floor((ticks * SIMULATION_TICK_MS) / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+export function ReplayControls({
+  tick,
+  endTick,
+  playing,
+  speed,
+  showHitboxes,
+  onPlay,
+  onPause,
+  onSeek,
+  onSpeedChange,
+  onToggleHitboxes,
+}: ReplayControlsProps) {
+  return (
+    <div className="bg-glass border border-purple-accent/30 rounded-xl p-4 backdrop-blur-sm space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={playing ? onPause : onPlay}
+          className="w-24 px-4 py-2 bg-electric-cyan text-charcoal font-futuristic font-bold rounded-lg hover:bg-electric-cyan/80 transition-colors"
+        >
+          {playing ? 'PAUSE' : 'PLAY'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={endTick}
+          value={Math.min(tick, endTick)}
+          onChange={event => onSeek(Number(event.target.value))}
+          className="flex-1 accent-electric-cyan"
+          aria-label="Replay position"
+        />
+        <span className="font-mono text-sm text-soft-white/80 w-24 text-right">
+          {formatTicks(tick)} / {formatTicks(endTick)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-2">
+          {PLAYBACK_CONFIG.SPEEDS.map(option => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`px-3 py-1 rounded-lg font-futuristic text-xs transition-all ${
+                speed === option
+                  ? 'bg-electric-cyan text-charcoal font-bold'
+                  : 'bg-purple-accent/20 text-purple-accent hover:bg-purple-accent/30'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={onToggleHitboxes}
+          className={`px-3 py-1 rounded-lg font-futuristic text-xs transition-all ${
+            showHitboxes
+              ? 'bg-yellow-400 text-charcoal font-bold'
+              : 'bg-purple-accent/20 text-purple-accent hover:bg-purple-accent/30'
+          }`}
+        >
+          HITBOXES {showHitboxes ? 'ON' : 'OFF'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { ReplayFile, decodeReplay, encodeReplayBase64, encodeReplayJson } from '@/lib/replay-format';
+
+interface ReplayTransferProps {
+  replay?: ReplayFile | null; // Run to export (import only when absent)
+  onImport: (file: ReplayFile) => void;
+}
+
+const buttonClass = 'px-3 py-1 rounded-lg font-futuristic text-xs transition-all bg-purple-accent/20 text-purple-accent hover:bg-purple-accent/30 disabled:opacity-40';
+
+export function ReplayTransfer({ replay, onImport }: ReplayTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const importText = (text: string) => {
+    try {
+      onImport(decodeReplay(text));
+      setCode('');
+      setError(null);
+      setMessage('Replay loaded');
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : 'Failed to read replay');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!replay) return;
+    const blob = new Blob([encodeReplayJson(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `monadrush-${replay.sessionId}.replay.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    if (!replay) return;
+    try {
+      await navigator.clipboard.writeText(encodeReplayBase64(replay));
+      setError(null);
+      setMessage('Replay code copied');
+    } catch (err) {
+      console.error('Failed to copy replay code:', err);
+      setMessage(null);
+      setError('Could not copy to the clipboard');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) importText(await file.text());
+  };
+
+  return (
+    <div className="bg-charcoal/30 border border-purple-accent/20 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {replay && (
+          <>
+            <button onClick={handleDownload} className={buttonClass}>
+              DOWNLOAD JSON
+            </button>
+            <button onClick={handleCopy} className={buttonClass}>
+              COPY CODE
+            </button>
+          </>
+        )}
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+          OPEN FILE
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.txt,application/json,text/plain"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={event => setCode(event.target.value)}
+          placeholder="Paste a replay code or JSON"
+          className="flex-1 px-3 py-1 bg-charcoal/60 border border-purple-accent/30 rounded-lg text-soft-white text-xs font-mono focus:outline-none focus:border-electric-cyan"
+          aria-label="Replay code"
+        />
+        <button onClick={() => importText(code)} disabled={!code.trim()} className={buttonClass}>
+          LOAD
+        </button>
+      </div>
+
+      {message && <p className="text-success-lime text-xs text-center">{message}</p>}
+      {error && <p className="text-red-400 text-xs text-center">❌ {error}</p>}
+    </div>
+  );
+}
@@ -5,12 +5,16 @@ import { motion } from 'framer-motion';
 import { GameStateManager, GameSession } from '@/lib/game-state';
 import { GameObject } from '@/lib/physics';
 import { getGameModifiers } from '@/lib/game-logic';
+import { getCardName } from '@/lib/cards';
 import { playSound } from '@/lib/audio-manager';
 import { MonadLogo } from './MonadLogo';
 import { Glitch } from './Glitch';
 import { GiftBox } from './GiftBox';
 import { Bomb } from './Bomb';
 import { Toast } from './Toast';
+import { WaveBanner } from './WaveBanner';
+import { CardInventory } from './CardInventory';
+import { useWaveAnnouncements } from '@/hooks/useWaveAnnouncements';
 
 interface SimpleGameCanvasProps {
   gameManager: GameStateManager;
@@ -27,6 +31,7 @@ export default function SimpleGameCanvas({
   const [objects, setObjects] = useState<GameObject[]>([]);
   const gameEndHandledRef = useRef<string | null>(null);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const { announcement: waveAnnouncement, dismiss: dismissWaveAnnouncement } = useWaveAnnouncements(session);
   const [showGlobalExplosion, setShowGlobalExplosion] = useState(false);
   const lastScoreRef = useRef(0);
   const lastComboRef = useRef(1);
@@ -88,6 +93,13 @@ export default function SimpleGameCanvas({
     gameManager.handleTap(position);
   }, [session, gameManager]);
 
+  // Play a held card from the inventory (HUD button or number key)
+  const handleActivateCard = useCallback((slot: number) => {
+    if (gameManager.activateCard(slot)) {
+      playSound.powerUp();
+    }
+  }, [gameManager]);
+
   // Render falling objects using professional components
   const renderObjects = (objects: GameObject[]) => {
     if (!objects) return null;
@@ -119,6 +131,9 @@ export default function SimpleGameCanvas({
                 key={key}
                 style={style}
                 highlighted={modifiers.logoHighlight}
+                hp={obj.hp}
+                maxHp={obj.behaviour?.armour}
+                splits={obj.behaviour?.splits}
                 onTap={() => {
                   console.log('🎵 Logo tapped - playing tap sound');
                   playSound.logoTap();
@@ -151,11 +166,11 @@ export default function SimpleGameCanvas({
                   console.log('🎵 Gift opened - playing gift sound');
                   playSound.giftOpen();
                   gameManager.handleTap(obj.position);
-                  setToastMessage(`Magic Card: ${cardType.replace('-', ' ').toUpperCase()}`);
+                  setToastMessage(`Magic Card: ${getCardName(cardType).toUpperCase()}`);
                   setTimeout(() => setToastMessage(null), 2000);
                 }}
                 onReveal={(cardType: string) => {
-                  setToastMessage(`Magic Card: ${cardType.replace('-', ' ').toUpperCase()}`);
+                  setToastMessage(`Magic Card: ${getCardName(cardType).toUpperCase()}`);
                   setTimeout(() => setToastMessage(null), 2000);
                 }}
               />
@@ -202,6 +217,11 @@ export default function SimpleGameCanvas({
         animate={{ opacity: 1 }}
         exit={{ opacity: 0 }}
       >
+        {session.isPaused && (
+          <p className="absolute top-1/3 text-soft-white font-futuristic tracking-widest">
+            RESUMING
+          </p>
+        )}
         <motion.div
           key={`countdown-${countdownSeconds}`}
           initial={{ scale: 0.5, opacity: 0 }}
@@ -226,9 +246,18 @@ export default function SimpleGameCanvas({
           <h2 className="text-4xl font-futuristic font-bold text-electric-cyan mb-4 neon-text">
             GAME PAUSED
           </h2>
-          <p className="text-soft-white">
+          <p className="text-soft-white mb-6">
             Press Resume to continue
           </p>
+          <button
+            onClick={(event) => {
+              event.stopPropagation();
+              gameManager.resumeGame();
+            }}
+            className="pointer-events-auto px-6 py-2 bg-electric-cyan/20 text-electric-cyan border border-electric-cyan/40 rounded-lg font-futuristic hover:bg-electric-cyan/30"
+          >
+            Resume
+          </button>
         </div>
       </div>
     );
@@ -248,12 +277,31 @@ export default function SimpleGameCanvas({
       {renderCountdown()}
       {renderPauseOverlay()}
 
-      {/* Toast Messages */}
-      {toastMessage && (
+      {/* Running wave event */}
+      {session && <WaveBanner waves={session.waves} tick={session.tick} />}
+
+      {/* Held cards (card inventory runs only) */}
+      {session && (
+        <CardInventory
+          inventory={session.gameState.inventory}
+          onActivate={handleActivateCard}
+          disabled={session.state !== 'RUNNING'}
+        />
+      )}
+
+      {/* Toast Messages (card reveals take precedence over wave news) */}
+      {toastMessage ? (
         <Toast
           message={toastMessage}
           onClose={() => setToastMessage(null)}
         />
+      ) : waveAnnouncement && (
+        <Toast
+          key={waveAnnouncement.key}
+          message={waveAnnouncement.message}
+          type={waveAnnouncement.type}
+          onClose={dismissWaveAnnouncement}
+        />
       )}
 
       {/* Game Effects */}
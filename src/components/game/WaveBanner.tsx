@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { WaveState, WAVE_EVENTS } from '@/lib/wave-events';
+import { SIMULATION_TICK_MS } from '@/lib/simulation';
+
+interface WaveBannerProps {
+  waves?: WaveState;
+  tick: number; // Current simulation tick, for the time left in the wave
+}
+
+export function WaveBanner({ waves, tick }: WaveBannerProps) {
+  const active = waves?.active;
+  const wave = active ? WAVE_EVENTS[active.id] : null;
+  const ticksLeft = active ? Math.max(0, active.endTick - tick) : 0;
+  const secondsLeft = Math.ceil(ticksLeft * SIMULATION_TICK_MS / 1000);
+  const progress = wave ? ticksLeft / wave.durationTicks : 0;
+  const isRush = active?.id === 'golden-rush';
+
+  return (
+    <AnimatePresence>
+      {active && wave && (
+        <motion.div
+          key={`${active.id}-${active.startTick}`}
+          className="absolute top-24 left-1/2 -translate-x-1/2 z-20 pointer-events-none"
+          initial={{ y: -30, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: -30, opacity: 0 }}
+          transition={{ duration: 0.3, ease: 'easeOut' }}
+        >
+          <div className={`bg-glass border backdrop-blur-sm rounded-lg px-4 py-2 text-center min-w-[180px] ${
+            isRush ? 'border-yellow-400/60' : 'border-danger/60'
+          }`}>
+            <div className={`font-futuristic font-bold text-sm ${isRush ? 'text-yellow-400' : 'text-danger'}`}>
+              {wave.name.toUpperCase()} · {secondsLeft}s
+            </div>
+            <div className="mt-1 h-1 bg-black/50 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${isRush ? 'bg-yellow-400' : 'bg-danger'}`}
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+            <div className="text-[10px] text-soft-white/60 font-futuristic mt-1">
+              Survive for +{wave.survivalBonus}
+            </div>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import type { ScoreTrendPoint } from '@/lib/player-stats';
+
+interface ScoreTrendChartProps {
+  points: ScoreTrendPoint[]; // Oldest first
+  width?: number;
+  height?: number;
+}
+
+const PADDING = 24;
+
+export function ScoreTrendChart({ points, width = 640, height = 200 }: ScoreTrendChartProps) {
+  if (points.length === 0) {
+    return (
+      <div className="h-32 flex items-center justify-center text-soft-white/50 font-futuristic text-sm">
+        No verified runs yet
+      </div>
+    );
+  }
+
+  const maxScore = Math.max(...points.map(point => point.score), 1);
+  const innerWidth = width - PADDING * 2;
+  const innerHeight = height - PADDING * 2;
+
+  // Runs are spaced evenly; a single run sits in the middle
+  const coords = points.map((point, index) => ({
+    ...point,
+    x: PADDING + (points.length === 1 ? innerWidth / 2 : (index / (points.length - 1)) * innerWidth),
+    y: PADDING + innerHeight - (point.score / maxScore) * innerHeight,
+  }));
+  const line = coords.map(({ x, y }) => `${x},${y}`).join(' ');
+  const bestIndex = points.findIndex(point => point.score === maxScore);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Score trend">
+      {[0, 0.5, 1].map(fraction => (
+        <g key={fraction}>
+          <line
+            x1={PADDING}
+            x2={width - PADDING}
+            y1={PADDING + innerHeight * (1 - fraction)}
+            y2={PADDING + innerHeight * (1 - fraction)}
+            className="stroke-purple-accent/20"
+            strokeDasharray="4 4"
+          />
+          <text
+            x={PADDING - 4}
+            y={PADDING + innerHeight * (1 - fraction) + 3}
+            textAnchor="end"
+            fontSize="9"
+            className="fill-soft-white/50"
+          >
+            {Math.round(maxScore * fraction)}
+          </text>
+        </g>
+      ))}
+      <polyline points={line} fill="none" className="stroke-electric-cyan" strokeWidth="2" strokeLinejoin="round" />
+      {coords.map((point, index) => (
+        <circle
+          key={point.sessionId}
+          cx={point.x}
+          cy={point.y}
+          r={index === bestIndex ? 5 : 3}
+          className={index === bestIndex ? 'fill-success-lime' : 'fill-electric-cyan'}
+        >
+          <title>{`${point.score.toLocaleString()} · ${new Date(point.finishedAt).toLocaleDateString()}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { AchievementInfo, AchievementProgress, UnlockedAchievement } from '@/lib/achievements';
+
+export interface AchievementsData {
+  address: string;
+  unlocked: UnlockedAchievement[];
+  locked: AchievementInfo[];
+  total: number;
+  progress: AchievementProgress;
+}
+
+export interface UseAchievementsResult {
+  data: AchievementsData | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Fetch a wallet's achievement collection (nothing is fetched without an address)
+ */
+export function useAchievements(address?: string | null): UseAchievementsResult {
+  const [data, setData] = useState<AchievementsData | null>(null);
+  const [loading, setLoading] = useState(!!address);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAchievements = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/achievements?address=${encodeURIComponent(address)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch achievements: ${response.statusText}`);
+      }
+
+      const achievementsData: AchievementsData = await response.json();
+      setData(achievementsData);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Achievements fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchAchievements();
+  }, [fetchAchievements]);
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: fetchAchievements,
+  };
+}
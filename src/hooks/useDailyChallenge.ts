@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface DailyChallengeData {
+  day: string;
+  isToday: boolean;
+  resetsAt: string;
+  maxAttempts: number;
+  attemptsLeft?: number;
+  player?: { rank: number; score: number } | null;
+  leaderboard: Array<{ rank: number; address: string; score: number }>;
+  totalPlayers: number;
+  archivedDays: string[];
+}
+
+export interface UseDailyChallengeResult {
+  data: DailyChallengeData | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Fetch today's daily challenge standings (and the player's rank and attempts when an address is given)
+ */
+export function useDailyChallenge(address?: string | null, day?: string): UseDailyChallengeResult {
+  const [data, setData] = useState<DailyChallengeData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDailyChallenge = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (address) params.set('address', address);
+      if (day) params.set('day', day);
+
+      const response = await fetch(`/api/daily?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch daily challenge: ${response.statusText}`);
+      }
+
+      const dailyData: DailyChallengeData = await response.json();
+      setData(dailyData);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Daily challenge fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [address, day]);
+
+  useEffect(() => {
+    fetchDailyChallenge();
+  }, [fetchDailyChallenge]);
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: fetchDailyChallenge,
+  };
+}
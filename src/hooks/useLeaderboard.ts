@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import type { GameModeId } from '@/lib/game-modes';
 
 export interface LeaderboardEntry {
   rank: number;
@@ -7,10 +8,12 @@ export interface LeaderboardEntry {
   score: number;
   timestamp: number;
   transactions: number;
+  sessionId?: string; // Replayable run behind the score (mode leaderboards only)
 }
 
 export interface LeaderboardData {
   leaderboard: LeaderboardEntry[];
+  mode?: GameModeId; // Set when showing a single mode's verified scores
   totalPlayers: number;
   totalGames: number;
   highestScore: number;
@@ -27,7 +30,14 @@ export interface UseLeaderboardResult {
   refetch: () => void;
 }
 
-export function useLeaderboard(limit = 20, page = 1): UseLeaderboardResult {
+function leaderboardUrl(limit: number, page: number, mode?: GameModeId): string {
+  return `/api/leaderboard?limit=${limit}&page=${page}${mode ? `&mode=${mode}` : ''}`;
+}
+
+/**
+ * Fetch a leaderboard page; without a mode this is the overall on-chain board
+ */
+export function useLeaderboard(limit = 20, page = 1, mode?: GameModeId): UseLeaderboardResult {
   const [data, setData] = useState<LeaderboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -37,7 +47,7 @@ export function useLeaderboard(limit = 20, page = 1): UseLeaderboardResult {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`/api/leaderboard?limit=${limit}&page=${page}`);
+      const response = await fetch(leaderboardUrl(limit, page, mode));
       if (!response.ok) {
         throw new Error(`Failed to fetch leaderboard: ${response.statusText}`);
       }
@@ -56,7 +66,7 @@ export function useLeaderboard(limit = 20, page = 1): UseLeaderboardResult {
   useEffect(() => {
     fetchLeaderboard();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [limit, page]);
+  }, [limit, page, mode]);
 
   return {
     data,
@@ -67,9 +77,9 @@ export function useLeaderboard(limit = 20, page = 1): UseLeaderboardResult {
 }
 
 // Helper function to get user's rank in leaderboard
-export async function getUserRank(userAddress: string): Promise<number | null> {
+export async function getUserRank(userAddress: string, mode?: GameModeId): Promise<number | null> {
   try {
-    const response = await fetch(`/api/leaderboard?limit=1000`); // Get many entries to find user rank
+    const response = await fetch(leaderboardUrl(1000, 1, mode)); // Get many entries to find user rank
     if (!response.ok) return null;
 
     const data: LeaderboardData = await response.json();
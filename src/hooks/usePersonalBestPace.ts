@@ -0,0 +1,54 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PaceCurve } from '@/lib/pace';
+import type { GameModeId } from '@/lib/game-modes';
+
+export interface UsePersonalBestPaceResult {
+  data: PaceCurve | null; // Null until the wallet has a verified run in the mode
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Fetch the score curve of a wallet's best verified run in a mode, used as the ghost pace
+ * (nothing is fetched without an address)
+ */
+export function usePersonalBestPace(address: string | null | undefined, mode: GameModeId): UsePersonalBestPaceResult {
+  const [data, setData] = useState<PaceCurve | null>(null);
+  const [loading, setLoading] = useState(!!address);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPace = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/players/${encodeURIComponent(address)}/pace?mode=${encodeURIComponent(mode)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch personal best pace: ${response.statusText}`);
+      }
+
+      const paceData: { curve: PaceCurve | null } = await response.json();
+      setData(paceData.curve);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Personal best pace fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [address, mode]);
+
+  useEffect(() => {
+    fetchPace();
+  }, [fetchPace]);
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: fetchPace,
+  };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ArchivedRun, PlayerSummary, ScoreTrendPoint } from '@/lib/player-stats';
+
+export interface PlayerProfileData {
+  address: string;
+  lifetime: PlayerSummary;
+  recentRuns: ArchivedRun[];
+  trend: ScoreTrendPoint[];
+}
+
+export interface UsePlayerProfileResult {
+  data: PlayerProfileData | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Fetch a wallet's lifetime stats, recent runs and score trend (nothing is fetched without an address)
+ */
+export function usePlayerProfile(address?: string | null): UsePlayerProfileResult {
+  const [data, setData] = useState<PlayerProfileData | null>(null);
+  const [loading, setLoading] = useState(!!address);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    if (!address) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/players/${encodeURIComponent(address)}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch player profile: ${response.statusText}`);
+      }
+
+      const profileData: PlayerProfileData = await response.json();
+      setData(profileData);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Player profile fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: fetchProfile,
+  };
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ArchivedRun } from '@/lib/player-stats';
+import type { ReplayInput } from '@/lib/replay-playback';
+
+export interface ReplayData {
+  replay: ReplayInput;
+  run: ArchivedRun | null;
+}
+
+export interface UseReplayResult {
+  data: ReplayData | null;
+  loading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/**
+ * Fetch an archived run's replay inputs (nothing is fetched without a session id)
+ */
+export function useReplay(sessionId?: string | null): UseReplayResult {
+  const [data, setData] = useState<ReplayData | null>(null);
+  const [loading, setLoading] = useState(!!sessionId);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReplay = useCallback(async () => {
+    if (!sessionId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/replays/${encodeURIComponent(sessionId)}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Replay not found (it may have expired)' : `Failed to fetch replay: ${response.statusText}`);
+      }
+
+      const replayData: ReplayData = await response.json();
+      setData(replayData);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(errorMessage);
+      console.error('Replay fetch error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    fetchReplay();
+  }, [fetchReplay]);
+
+  return {
+    data,
+    loading,
+    error,
+    refetch: fetchReplay,
+  };
+}
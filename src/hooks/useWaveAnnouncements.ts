@@ -0,0 +1,56 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { GameSession } from '@/lib/game-state';
+import { WAVE_EVENTS } from '@/lib/wave-events';
+import { playSound } from '@/lib/audio-manager';
+
+export interface WaveAnnouncement {
+  key: string; // Changes per announcement so the toast restarts its timer
+  message: string;
+  type: 'warning' | 'success' | 'info';
+}
+
+export interface UseWaveAnnouncementsResult {
+  announcement: WaveAnnouncement | null;
+  dismiss: () => void;
+}
+
+/**
+ * Announce wave events as a run plays: a toast and audio cue when a wave
+ * starts, and another when it ends with or without its survival bonus
+ */
+export function useWaveAnnouncements(session: GameSession | null): UseWaveAnnouncementsResult {
+  const [announcement, setAnnouncement] = useState<WaveAnnouncement | null>(null);
+  const seenRef = useRef({ sessionId: '', startTick: -1, finished: 0 });
+
+  useEffect(() => {
+    if (!session?.waves) return;
+
+    const { active, history } = session.waves;
+    const seen = seenRef.current;
+    if (seen.sessionId !== session.id) {
+      // Don't replay announcements for waves that finished before we started watching
+      seenRef.current = { sessionId: session.id, startTick: -1, finished: history.length };
+      return;
+    }
+
+    if (history.length > seen.finished) {
+      const record = history[history.length - 1];
+      const name = WAVE_EVENTS[record.id].name;
+      seen.finished = history.length;
+      setAnnouncement(record.survived
+        ? { key: `${record.id}-${record.endTick}`, message: `${name} survived! +${record.bonus}`, type: 'success' }
+        : { key: `${record.id}-${record.endTick}`, message: `${name} is over`, type: 'info' });
+      if (record.survived) playSound.waveSurvived();
+    }
+
+    if (active && active.startTick !== seen.startTick) {
+      seen.startTick = active.startTick;
+      setAnnouncement({ key: `${active.id}-${active.startTick}`, message: WAVE_EVENTS[active.id].announcement, type: 'warning' });
+      playSound.waveStart(active.id);
+    }
+  }, [session]);
+
+  const dismiss = useCallback(() => setAnnouncement(null), []);
+
+  return { announcement, dismiss };
+}
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the achievement engine
+ */
+
+import {
+  ACHIEVEMENTS,
+  AchievementRun,
+  createAchievementProgress,
+  describeUnlocks,
+  evaluateAchievements,
+  updateAchievementProgress,
+} from '../achievements';
+import { CARD_DEFINITIONS } from '../cards';
+import { createInitialGameState } from '../game-logic';
+import { ReplayStats } from '../replay-verification';
+
+const BASE_STATS: ReplayStats = {
+  totalTaps: 10,
+  logos: 10,
+  glitches: 0,
+  gifts: 0,
+  bombs: 0,
+  misses: 0,
+  activations: 0,
+  cardsPlayed: {},
+  maxCombo: 2,
+  longestStreak: 10,
+};
+
+function makeRun(overrides: Partial<AchievementRun> = {}, stats: Partial<ReplayStats> = {}): AchievementRun {
+  return {
+    sessionId: 'session-1',
+    mode: 'classic',
+    daily: false,
+    score: 100,
+    stats: { ...BASE_STATS, ...stats },
+    finalState: { ...createInitialGameState(0), lives: 0 },
+    waves: [],
+    ...overrides,
+  };
+}
+
+// Ids unlocked by a single run from a fresh wallet
+function unlockedBy(run: AchievementRun): string[] {
+  const progress = updateAchievementProgress(createAchievementProgress(), run);
+  return evaluateAchievements(run, progress, []).map(achievement => achievement.id);
+}
+
+describe('Achievements', () => {
+  it('should have unique ids', () => {
+    const ids = ACHIEVEMENTS.map(achievement => achievement.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should judge streaks and bomb-free full runs from verified stats', () => {
+    expect(unlockedBy(makeRun())).toEqual(['first-run']);
+    expect(unlockedBy(makeRun({}, { longestStreak: 50 }))).toContain('streak-50');
+
+    // A run that lost every life is not a full run
+    const survived = { ...createInitialGameState(0), lives: 2, timeLeft: 0 };
+    expect(unlockedBy(makeRun({ finalState: survived }))).toContain('no-bombs');
+    expect(unlockedBy(makeRun({ finalState: survived }, { bombs: 1 }))).not.toContain('no-bombs');
+    expect(unlockedBy(makeRun())).not.toContain('no-bombs');
+
+    // Nor is one that stopped with time still on the clock
+    const cutShort = { ...createInitialGameState(0), lives: 3, timeLeft: 45 };
+    expect(unlockedBy(makeRun({ finalState: cutShort }))).not.toContain('no-bombs');
+  });
+
+  it('should track cards played across runs', () => {
+    const [first, ...rest] = CARD_DEFINITIONS.map(card => card.id);
+    let progress = updateAchievementProgress(createAchievementProgress(), makeRun({}, { cardsPlayed: { [first]: 2 } }));
+    const lastRun = makeRun({}, { cardsPlayed: Object.fromEntries(rest.map(id => [id, 1])) });
+
+    expect(evaluateAchievements(lastRun, progress, []).map(achievement => achievement.id)).not.toContain('full-deck');
+    progress = updateAchievementProgress(progress, lastRun);
+    expect(progress.runs).toBe(2);
+    expect(evaluateAchievements(lastRun, progress, []).map(achievement => achievement.id)).toContain('full-deck');
+  });
+
+  it('should not unlock an achievement twice', () => {
+    const run = makeRun({ daily: true });
+    const progress = updateAchievementProgress(createAchievementProgress(), run);
+
+    expect(evaluateAchievements(run, progress, ['first-run', 'daily-run'])).toEqual([]);
+  });
+
+  it('should describe stored unlocks and skip retired ids', () => {
+    const unlocks = [
+      { id: 'streak-50', sessionId: 's', unlockedAt: 1 },
+      { id: 'retired', sessionId: 's', unlockedAt: 2 },
+    ];
+
+    expect(describeUnlocks(unlocks)).toEqual([expect.objectContaining({ id: 'streak-50', name: 'Unbroken', unlockedAt: 1 })]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the anti-cheat validation pipeline
+ */
+
+import {
+  ValidationPipeline,
+  ValidationRule,
+  actionValidationPipeline,
+  assessRisk,
+  isBatchRejecting,
+} from '../anti-cheat';
+
+const SESSION_START = 1_700_000_000_000;
+
+describe('ValidationPipeline', () => {
+  const pass: ValidationRule = { id: 'pass', validate: () => ({ isValid: true, severity: 'low' }) };
+  const fail: ValidationRule = { id: 'fail', validate: () => ({ isValid: false, reason: 'nope', severity: 'high' }) };
+  const skip: ValidationRule = { id: 'skip', validate: () => null };
+
+  it('should reject duplicate rule ids', () => {
+    const pipeline = new ValidationPipeline().register(pass);
+
+    expect(() => pipeline.register(pass)).toThrow('pass');
+  });
+
+  it('should stop at the first failing rule', () => {
+    const after = { id: 'after', validate: jest.fn(() => ({ isValid: true, severity: 'low' as const })) };
+    const pipeline = new ValidationPipeline().register(pass).register(skip).register(fail).register(after);
+
+    const results = pipeline.run(
+      { timestamp: SESSION_START, position: { x: 0, y: 0 }, type: 'miss' },
+      { sessionStartTime: SESSION_START }
+    );
+
+    expect(results).toHaveLength(2);
+    expect(results[1].reason).toBe('nope');
+    expect(after.validate).not.toHaveBeenCalled();
+  });
+
+  it('should flag taps that arrive too quickly after the previous one', () => {
+    const results = actionValidationPipeline.run(
+      { timestamp: SESSION_START + 1010, tick: 60, position: { x: 400, y: 300 }, type: 'miss' },
+      { sessionStartTime: SESSION_START, previousAction: { timestamp: SESSION_START + 1000, tick: 59 } }
+    );
+
+    const risk = assessRisk(results);
+    expect(risk.shouldReject).toBe(true);
+    expect(risk.reasons[0]).toContain('Tap too fast');
+  });
+
+  it('should only reject whole batches for target mismatches', () => {
+    const tooFast = actionValidationPipeline.run(
+      { timestamp: SESSION_START + 1010, tick: 60, position: { x: 400, y: 300 }, type: 'miss' },
+      { sessionStartTime: SESSION_START, previousAction: { timestamp: SESSION_START + 1000, tick: 59 } }
+    );
+    const wrongTarget = { isValid: false, reason: 'Target logo-1 is a bomb, not a logo', severity: 'high' as const, ruleId: 'target-trajectory' };
+
+    expect(tooFast[0].ruleId).toBe('tap-timing');
+    expect(tooFast.some(isBatchRejecting)).toBe(false);
+    expect(isBatchRejecting(wrongTarget)).toBe(true);
+    expect(isBatchRejecting({ ...wrongTarget, isValid: true })).toBe(false);
+  });
+
+  it('should accept a plausible tap', () => {
+    const results = actionValidationPipeline.run(
+      { timestamp: SESSION_START + 2000, tick: 110, position: { x: 400, y: 300 }, type: 'miss' },
+      { sessionStartTime: SESSION_START, previousAction: { timestamp: SESSION_START + 1000, tick: 59 } }
+    );
+
+    expect(results.every(result => result.isValid)).toBe(true);
+  });
+
+  it('should not count reported pauses against the session time limit', () => {
+    const action = { timestamp: SESSION_START + 150_000, tick: 6000, position: { x: 400, y: 300 }, type: 'miss' as const };
+    const failure = (pauses?: Array<{ start: number; end?: number }>) => actionValidationPipeline
+      .run(action, { sessionStartTime: SESSION_START, pauses })
+      .find(result => !result.isValid);
+
+    expect(failure()?.reason).toContain('maximum game duration');
+    expect(failure([{ start: SESSION_START + 10_000, end: SESSION_START + 50_000 }])).toBeUndefined();
+  });
+});
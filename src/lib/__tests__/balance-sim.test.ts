@@ -0,0 +1,54 @@
+/**
+ * Unit tests for the headless balance simulator
+ */
+
+import { BOT_STRATEGIES, runBotGame, summarizeRuns, distribution } from '../balance-sim';
+import { gameObjectPool } from '../object-pool';
+
+describe('Balance Simulator', () => {
+  it('should play identical runs for the same seed and bot', () => {
+    const first = runBotGame(42, BOT_STRATEGIES.human);
+    const second = runBotGame(42, BOT_STRATEGIES.human);
+
+    expect(second).toEqual(first);
+  });
+
+  it('should never let the perfect bot tap a hazard', () => {
+    const run = runBotGame(7, BOT_STRATEGIES.perfect);
+
+    expect(run.taps.bomb).toBe(0);
+    expect(run.taps.glitch).toBe(0);
+    expect(run.taps.logo).toBeGreaterThan(0);
+    expect(run.deathCause).toBe('time');
+  });
+
+  it('should return spawned objects to the pool', () => {
+    runBotGame(3, BOT_STRATEGIES.random);
+    const sizeAfterOneRun = Object.values(gameObjectPool.getPoolStats()).reduce((sum, pool) => sum + pool.total, 0);
+
+    runBotGame(4, BOT_STRATEGIES.random);
+    runBotGame(5, BOT_STRATEGIES.random);
+    const sizeAfterMore = Object.values(gameObjectPool.getPoolStats()).reduce((sum, pool) => sum + pool.total, 0);
+
+    expect(sizeAfterMore).toBe(sizeAfterOneRun);
+  });
+
+  it('should aggregate deaths per difficulty level and card impact', () => {
+    const base = { taps: { logo: 0, glitch: 0, gift: 0, bomb: 0, miss: 0 }, levelReached: 1 };
+    const report = summarizeRuns('test', [
+      { ...base, seed: 1, score: 100, deathCause: 'lives', elapsedMs: 40_000, cards: { 'slow-motion': 1 } },
+      { ...base, seed: 2, score: 300, deathCause: 'time', elapsedMs: 120_000, levelReached: 3, cards: {} },
+    ]);
+
+    expect(report.deathCauses).toEqual({ time: 1, lives: 1 });
+    expect(report.levels[1]).toEqual({ level: 1, runsReached: 2, deaths: 1, meanTimeToDeathMs: 40_000 });
+    expect(report.levels).toHaveLength(4);
+    expect(report.cards).toEqual([{ card: 'slow-motion', runsCollected: 1, meanScoreWith: 100, meanScoreWithout: 300 }]);
+  });
+
+  it('should compute distribution percentiles', () => {
+    const dist = distribution([5, 1, 3, 2, 4]);
+
+    expect(dist).toMatchObject({ min: 1, max: 5, mean: 3, median: 3 });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the magic card registry
+ */
+
+import { CARD_DEFINITIONS, CARD_INVENTORY_SLOTS, getCardDefinition, getCardName, isStorableCard, pickCard } from '../cards';
+import { createInitialGameState, createMagicCardEffect, applyTapResult, processTap, activateInventoryCard, activateCardEffect } from '../game-logic';
+import { enforceCardDuration } from '../anti-cheat';
+import { createSimulationState, stepSimulation, applySimulationTap, applySimulationActivation, msToTicks, DEFAULT_SIMULATION_CONFIG } from '../simulation';
+import { TrajectoryTracker } from '../trajectory';
+import { ReplayTap, verifyTapReplay } from '../replay-verification';
+
+describe('Card Registry', () => {
+  it('should have unique ids and positive weights', () => {
+    const ids = CARD_DEFINITIONS.map(card => card.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(CARD_DEFINITIONS.every(card => card.weight > 0)).toBe(true);
+  });
+
+  it('should pick cards in proportion to their weight', () => {
+    expect(pickCard(0).id).toBe(CARD_DEFINITIONS[0].id);
+    expect(pickCard(0.999999).id).toBe(CARD_DEFINITIONS[CARD_DEFINITIONS.length - 1].id);
+    expect(pickCard(1.5 / CARD_DEFINITIONS.length).id).toBe(CARD_DEFINITIONS[1].id);
+  });
+
+  it('should build effects from the registry entry', () => {
+    CARD_DEFINITIONS.forEach(card => {
+      const effect = createMagicCardEffect(card.id, 1000);
+
+      expect(effect).toMatchObject({ type: card.id, duration: card.duration, startTime: 1000 });
+      expect(effect.value).toBe(card.value);
+      expect(enforceCardDuration(card.id, 0, card.duration)).toBe(true);
+    });
+  });
+
+  it('should fall back to time-freeze for unknown cards', () => {
+    expect(createMagicCardEffect('not-a-card').type).toBe('time-freeze');
+    expect(getCardDefinition('not-a-card')).toBeUndefined();
+    expect(getCardName('not-a-card')).toBe('not-a-card');
+  });
+
+  it('should activate cards through their apply hook', () => {
+    const state = createInitialGameState(0);
+    const extended = applyTapResult(state, processTap(state, 'gift', 'extra-time'));
+    const frozen = applyTapResult(state, processTap(state, 'gift', 'time-freeze'));
+
+    expect(extended.timeLeft).toBe(state.timeLeft + getCardDefinition('extra-time')!.value!);
+    expect(extended.activeEffects).toHaveLength(0);
+    expect(frozen.activeEffects.map(effect => effect.type)).toEqual(['time-freeze']);
+  });
+});
+
+describe('Card Hooks', () => {
+  it('should shrink objects for the shrink ray and restore them when it runs out', () => {
+    const state = createSimulationState(11);
+    for (let i = 0; i < 120; i++) stepSimulation(state);
+    const sizes = new Map(state.objects.map(obj => [obj.id, { ...obj.size }]));
+    expect(sizes.size).toBeGreaterThan(0);
+
+    const effect = createMagicCardEffect('shrink-ray', state.gameState.elapsedTime);
+    state.gameState = activateCardEffect(state.gameState, effect);
+    stepSimulation(state);
+    state.objects.forEach(obj => {
+      const before = sizes.get(obj.id);
+      if (before) expect(obj.size).toEqual({ x: before.x * 0.5, y: before.y * 0.5 });
+      expect(obj.hitbox).toMatchObject({ width: obj.size.x, height: obj.size.y }); // Taps check the shrunk box at once
+    });
+
+    for (let i = 0; i < msToTicks(effect.duration); i++) stepSimulation(state);
+    expect(state.gameState.activeEffects.some(e => e.type === 'shrink-ray')).toBe(false);
+    const survivors = state.objects.filter(obj => sizes.has(obj.id));
+    expect(survivors.length).toBeGreaterThan(0);
+    survivors.forEach(obj => expect(obj.size).toEqual(sizes.get(obj.id)));
+    state.objects.forEach(obj => {
+      expect(obj.unscaledSize).toBeUndefined();
+      expect(obj.hitbox).toMatchObject({ width: obj.size.x, height: obj.size.y });
+      expect(obj.size.x).toBeGreaterThanOrEqual(DEFAULT_SIMULATION_CONFIG.objectSize.x * 0.7);
+    });
+  });
+});
+
+describe('Card Inventory', () => {
+  const collect = (cardType: string) => (state: ReturnType<typeof createInitialGameState>) =>
+    applyTapResult(state, processTap(state, 'gift', cardType));
+
+  it('should hold helpful cards until the slots are full', () => {
+    let state = createInitialGameState(0, 'classic', true);
+    for (let i = 0; i < CARD_INVENTORY_SLOTS; i++) state = collect('slow-motion')(state);
+
+    expect(state.inventory).toHaveLength(CARD_INVENTORY_SLOTS);
+    expect(state.activeEffects).toHaveLength(0);
+
+    // Full inventory, chaotic cards and runs without the inventory play at once
+    expect(collect('time-freeze')(state).activeEffects.map(effect => effect.type)).toEqual(['time-freeze']);
+    expect(collect('bomb-trap')(createInitialGameState(0, 'classic', true)).inventory).toEqual([]);
+    expect(isStorableCard('bomb-trap')).toBe(false);
+    expect(collect('slow-motion')(createInitialGameState(0)).inventory).toBeUndefined();
+  });
+
+  it('should only play cards that are held', () => {
+    const state = collect('time-freeze')(createInitialGameState(0, 'classic', true));
+    const played = activateInventoryCard({ ...state, elapsedTime: 4000 }, 'time-freeze')!;
+
+    expect(played.state.inventory).toEqual([]);
+    expect(played.state.activeEffects).toEqual([expect.objectContaining({ type: 'time-freeze', startTime: 4000 })]);
+    expect(activateInventoryCard(played.state, 'time-freeze')).toBeNull();
+    expect(activateInventoryCard(createInitialGameState(0), 'time-freeze')).toBeNull();
+  });
+
+  it('should verify activations only after the card was collected', () => {
+    // Tap the first helpful gift, then play it a second later
+    const state = createSimulationState(7, undefined, 'classic', true);
+    const taps: ReplayTap[] = [];
+    while (!state.gameState.inventory!.length) {
+      const gift = state.objects.find(obj => obj.type === 'gift' && obj.position.y > 0 && isStorableCard(obj.cardType!));
+      if (gift) {
+        const outcome = applySimulationTap(state, gift.position);
+        taps.push({ timestamp: Math.round(outcome.tick * 1000 / 60), tick: outcome.tick, position: { ...gift.position }, targetId: outcome.targetId, result: outcome.result });
+      }
+      stepSimulation(state);
+    }
+    const cardType = state.gameState.inventory![0];
+    for (let i = 0; i < 60; i++) stepSimulation(state);
+    const activation = { timestamp: Math.round(state.tick * 1000 / 60), tick: state.tick, position: { x: 0, y: 0 }, targetId: cardType, result: 'activate' as const };
+    expect(applySimulationActivation(state, cardType)).not.toBeNull();
+
+    const replay = verifyTapReplay(7, [...taps, activation], { sessionStartTime: 0, cardInventory: true });
+    expect(replay.isValid).toBe(true);
+    expect(replay.stats.activations).toBe(1);
+    expect(replay.stats.cardsPlayed[cardType]).toBe(1); // Counted when played, not when stored
+    expect(replay.score).toBe(state.gameState.score);
+
+    const forged = verifyTapReplay(7, [activation], { sessionStartTime: 0, cardInventory: true });
+    expect(forged.isValid).toBe(false);
+    expect(forged.verdicts[0].reason).toContain('never collected');
+
+    const tracker = new TrajectoryTracker(7, undefined, 'classic', true);
+    expect(tracker.validateAction({ ...activation, type: 'activate' })).toMatchObject({ isValid: false, severity: 'high' });
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for daily challenge seeding and attempts
+ */
+
+import {
+  DAILY_CHALLENGE_CONFIG,
+  deriveDailySeed,
+  getAttemptsLeft,
+  getDailyKey,
+  getPreviousDailyKey,
+  getSimulationSeed,
+  isDailyKey,
+} from '../daily-challenge';
+import { deriveSessionSeed } from '../rng';
+import { createSimulationState, stepSimulation } from '../simulation';
+
+describe('Daily Challenge', () => {
+  it('should key days by UTC date', () => {
+    expect(getDailyKey(Date.UTC(2025, 0, 31, 23, 59))).toBe('2025-01-31');
+    expect(getDailyKey(Date.UTC(2025, 1, 1, 0, 0))).toBe('2025-02-01');
+    expect(getPreviousDailyKey('2025-03-01')).toBe('2025-02-28');
+  });
+
+  it('should only accept real calendar days', () => {
+    expect(isDailyKey('2025-02-28')).toBe(true);
+    expect(isDailyKey('2025-02-30')).toBe(false);
+    expect(isDailyKey('today')).toBe(false);
+  });
+
+  it('should derive one positive seed per day and secret', () => {
+    const seed = deriveDailySeed('2025-05-01', 'secret');
+
+    expect(seed).toBe(deriveDailySeed('2025-05-01', 'secret'));
+    expect(seed).toBeGreaterThan(0);
+    expect(seed).toBeLessThanOrEqual(0x7fffffff);
+    expect(deriveDailySeed('2025-05-02', 'secret')).not.toBe(seed);
+    expect(deriveDailySeed('2025-05-01', 'other')).not.toBe(seed);
+  });
+
+  it('should give every daily session the same spawn stream', () => {
+    const seed = deriveDailySeed('2025-05-01', 'secret');
+    const a = createSimulationState(getSimulationSeed('0xaaa_1', seed, '2025-05-01'));
+    const b = createSimulationState(getSimulationSeed('0xbbb_2', seed, '2025-05-01'));
+
+    for (let i = 0; i < 600; i++) {
+      stepSimulation(a);
+      stepSimulation(b);
+    }
+
+    expect(a.objects.map(obj => obj.id)).toEqual(b.objects.map(obj => obj.id));
+    expect(a.objects.map(obj => obj.position)).toEqual(b.objects.map(obj => obj.position));
+  });
+
+  it('should keep per-session seeds for regular sessions', () => {
+    expect(getSimulationSeed('0xaaa_1', 42)).toBe(deriveSessionSeed('0xaaa_1', 42));
+    expect(getSimulationSeed('0xaaa_1', 42)).not.toBe(getSimulationSeed('0xbbb_2', 42));
+  });
+
+  it('should count down ranked attempts', () => {
+    expect(getAttemptsLeft(0)).toBe(DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS);
+    expect(getAttemptsLeft(1)).toBe(DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS - 1);
+    expect(getAttemptsLeft(DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS + 2)).toBe(0);
+  });
+});
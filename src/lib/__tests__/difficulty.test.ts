@@ -0,0 +1,112 @@
+/**
+ * Unit tests for difficulty curves and the adaptive director
+ */
+
+import {
+  ADAPTIVE_DIRECTOR_CONFIG,
+  DIFFICULTY_CURVES,
+  applyHazardBias,
+  createDirectorState,
+  createTableCurve,
+  decideDifficulty,
+  getDifficultyCurve,
+  recordDirectorTap,
+} from '../difficulty';
+import { GAME_MODES } from '../game-modes';
+import { createSimulationState, stepSimulation, applySimulationTap, snapshotSimulation, restoreSimulation, simulate } from '../simulation';
+import { ReplayTap, verifyTapReplay } from '../replay-verification';
+
+describe('Difficulty', () => {
+  it('should keep the classic step curve numbers', () => {
+    const level1 = DIFFICULTY_CURVES.step.evaluate(45);
+
+    expect(level1.level).toBe(1);
+    expect(level1.fallSpeed).toBeCloseTo(130);
+    expect(level1.spawnRate).toBeCloseTo(1.8);
+  });
+
+  it('should ramp smooth curves continuously', () => {
+    ['linear', 'exponential'].forEach(id => {
+      const curve = getDifficultyCurve(id);
+      expect(curve.evaluate(10).fallSpeed).toBeGreaterThan(curve.evaluate(5).fallSpeed);
+      expect(curve.evaluate(30).fallSpeed).toBeCloseTo(DIFFICULTY_CURVES.step.evaluate(30).fallSpeed);
+    });
+  });
+
+  it('should hold data-table rows until the next one', () => {
+    const curve = createTableCurve([
+      { at: 20, fallSpeed: 150, spawnRate: 2 },
+      { at: 0, fallSpeed: 100, spawnRate: 1 },
+    ]);
+
+    expect(curve.evaluate(19)).toEqual({ level: 0, fallSpeed: 100, spawnRate: 1 });
+    expect(curve.evaluate(500)).toEqual({ level: 1, fallSpeed: 150, spawnRate: 2 });
+    expect(getDifficultyCurve('unknown').id).toBe('step');
+  });
+
+  it('should ramp up for accurate players and ease off after lost lives', () => {
+    let director = createDirectorState(3);
+    for (let i = 0; i < 10; i++) director = recordDirectorTap(director, 'logo');
+
+    director = decideDifficulty(director, 300, 3);
+    expect(director.log[0]).toMatchObject({ action: 'raise', accuracy: 1, spawnRateMultiplier: 1.1, hazardBias: 10 });
+
+    director = decideDifficulty(director, 600, 2);
+    expect(director.log[1]).toMatchObject({ action: 'ease', livesLost: 1, spawnRateMultiplier: 1, hazardBias: 0 });
+  });
+
+  it('should hold while too few taps are in the window', () => {
+    const director = decideDifficulty(recordDirectorTap(createDirectorState(3), 'bomb'), 300, 3);
+
+    expect(director.log[0]).toMatchObject({ action: 'hold', accuracy: null, spawnRateMultiplier: 1 });
+  });
+
+  it('should clamp the director to its limits', () => {
+    let director = createDirectorState(5);
+    for (let i = 0; i < 10; i++) director = recordDirectorTap(director, 'miss');
+    for (let i = 0; i < 20; i++) {
+      director = decideDifficulty(director, i, 5);
+    }
+
+    expect(director.spawnRateMultiplier).toBe(ADAPTIVE_DIRECTOR_CONFIG.MIN_SPAWN_MULTIPLIER);
+    expect(director.hazardBias).toBe(ADAPTIVE_DIRECTOR_CONFIG.MIN_HAZARD_BIAS);
+  });
+
+  it('should scale only hazard weights', () => {
+    const table = applyHazardBias(GAME_MODES.classic.spawnTable, 20);
+
+    expect(table.logo / table.glitch).toBeCloseTo(55 / 30);
+    expect(table.gift / table.bomb).toBeCloseTo(5 / 18);
+  });
+
+  it('should only direct adaptive modes', () => {
+    expect(createSimulationState(1, undefined, 'classic').director).toBeNull();
+    expect(createSimulationState(1, undefined, 'endless').director).not.toBeNull();
+  });
+
+  it('should reproduce director decisions in replay and across snapshots', () => {
+    // Tap the oldest logo or gift on screen, so the director sees real hits
+    const state = createSimulationState(99, undefined, 'endless');
+    const taps: ReplayTap[] = [];
+    while (state.tick < 1800) {
+      const target = state.objects.find(obj => obj.type === 'logo' || obj.type === 'gift');
+      if (state.tick % 20 === 0 && target) {
+        const position = { x: target.position.x + target.size.x / 2, y: target.position.y + target.size.y / 2 };
+        const outcome = applySimulationTap(state, position);
+        taps.push({ timestamp: Math.round(outcome.tick * 1000 / 60), tick: outcome.tick, position, targetId: outcome.targetId, result: outcome.result });
+      }
+      stepSimulation(state);
+    }
+    const log = state.director!.log;
+    expect(log.length).toBe(5);
+    expect(log.some(decision => decision.action !== 'hold')).toBe(true);
+
+    const replay = verifyTapReplay(99, taps, { sessionStartTime: 0, mode: 'endless' });
+    expect(replay.isValid).toBe(true);
+    expect(replay.directorLog).toEqual(log.filter(decision => decision.tick <= taps[taps.length - 1].tick));
+
+    const resumed = restoreSimulation(JSON.parse(JSON.stringify(snapshotSimulation(state))));
+    const straight = simulate(99, taps, 1800, undefined, 'endless').state;
+    expect(resumed.director).toEqual(straight.director);
+  });
+});
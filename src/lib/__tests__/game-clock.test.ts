@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the pause-aware game clock
+ */
+
+import { GameClock } from '../game-clock';
+import { GameStateManager } from '../game-state';
+import { DEFAULT_SIMULATION_CONFIG } from '../simulation';
+
+describe('GameClock', () => {
+  let now: number;
+  let clock: GameClock;
+
+  beforeEach(() => {
+    now = 10_000;
+    clock = new GameClock(() => now);
+  });
+
+  it('should exclude paused time from game time', () => {
+    clock.start();
+    now += 5000;
+    clock.pause();
+    now += 20_000;
+    expect(clock.getGameTime()).toBe(5000);
+
+    clock.resume();
+    now += 1000;
+    expect(clock.getGameTime()).toBe(6000);
+    expect(clock.getPausedTime()).toBe(20_000);
+    expect(clock.getPauseIntervals()).toEqual([{ start: 15_000, end: 35_000 }]);
+  });
+
+  it('should notify listeners once per pause and resume', () => {
+    const listener = jest.fn();
+    clock.onPauseChange(listener);
+    clock.start();
+
+    expect(clock.pause()).toBe(true);
+    expect(clock.pause()).toBe(false);
+    clock.resume();
+
+    expect(listener.mock.calls).toEqual([[true, 10_000], [false, 10_000]]);
+  });
+
+  it('should keep the manager paused through the resume countdown', () => {
+    const manager = new GameStateManager(DEFAULT_SIMULATION_CONFIG, clock);
+    const session = manager.initializeSession('session-clock', 1);
+    session.state = 'COUNTDOWN';
+    manager.startGame();
+
+    manager.pauseGame();
+    manager.resumeGame();
+
+    expect(session.state).toBe('COUNTDOWN');
+    expect(clock.isPaused()).toBe(true);
+
+    manager.pauseGame();
+    expect(session.state).toBe('PAUSED');
+    manager.cleanup();
+  });
+});
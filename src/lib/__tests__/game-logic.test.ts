@@ -304,11 +304,21 @@ describe('Game Logic', () => {
 
     it('should update difficulty based on elapsed time', () => {
       const state = createInitialGameState();
-      state.gameStartTime = Date.now() - 35000; // 35 seconds ago
+      state.elapsedTime = 35000; // 35 seconds of game time
       
       const updatedState = updateGameState(state, 1000);
       
+      expect(updatedState.elapsedTime).toBe(36000);
       expect(updatedState.difficulty.level).toBe(1);
     });
+
+    it('should not depend on wall-clock time', () => {
+      const state = createInitialGameState();
+      state.gameStartTime = Date.now() - 35000; // Wall-clock start is metadata only
+      
+      const updatedState = updateGameState(state, 1000);
+      
+      expect(updatedState.difficulty.level).toBe(0);
+    });
   });
 });
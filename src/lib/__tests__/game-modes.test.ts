@@ -0,0 +1,105 @@
+/**
+ * Unit tests for game mode rulesets
+ */
+
+import { GAME_MODES, SESSION_ALLOWANCE_MS, getGameMode, getSessionTimeLimit, isGameModeId, isModeOver } from '../game-modes';
+import { createInitialGameState, isGameOver } from '../game-logic';
+import { CARD_REGISTRY } from '../cards';
+import { GameRNG } from '../rng';
+import { createSimulationState, stepSimulation, isSimulationOver, msToTicks } from '../simulation';
+import { verifyTapReplay } from '../replay-verification';
+
+describe('Game Modes', () => {
+  it('should only exclude registered cards', () => {
+    Object.values(GAME_MODES).forEach(mode => {
+      mode.excludedCards.forEach(cardId => expect(CARD_REGISTRY[cardId]).toBeDefined());
+    });
+  });
+
+  it('should fall back to Classic for unknown modes', () => {
+    expect(isGameModeId('zen')).toBe(true);
+    expect(isGameModeId('hardcore')).toBe(false);
+    expect(getGameMode('hardcore').id).toBe('classic');
+    expect(getGameMode(undefined).id).toBe('classic');
+  });
+
+  it('should start runs with the mode lives and clock', () => {
+    const endless = createInitialGameState(0, 'endless');
+    const timeAttack = createInitialGameState(0, 'time-attack');
+
+    expect(endless).toMatchObject({ mode: 'endless', lives: 3, timeLeft: 0 });
+    expect(timeAttack).toMatchObject({ mode: 'time-attack', lives: 5, timeLeft: 60 });
+  });
+
+  it('should end runs by the mode end condition', () => {
+    const outOfTime = { timeLeft: 0, lives: 2, elapsedTime: 60000 };
+    const outOfLives = { timeLeft: 30, lives: 0, elapsedTime: 60000 };
+
+    expect(isModeOver(GAME_MODES.classic, outOfTime)).toBe(true);
+    expect(isModeOver(GAME_MODES.classic, outOfLives)).toBe(true);
+    expect(isModeOver(GAME_MODES.endless, outOfTime)).toBe(false);
+    expect(isModeOver(GAME_MODES.endless, outOfLives)).toBe(true);
+    expect(isModeOver(GAME_MODES.zen, outOfLives)).toBe(false);
+    expect(isGameOver({ ...createInitialGameState(0, 'zen'), lives: 0 })).toBe(false);
+  });
+
+  it('should end untimed runs at the mode session limit', () => {
+    const endless = createInitialGameState(0, 'endless');
+    const limit = GAME_MODES.endless.maxSessionMs;
+
+    expect(isGameOver({ ...endless, elapsedTime: limit - 1 })).toBe(false);
+    expect(isGameOver({ ...endless, elapsedTime: limit })).toBe(true);
+    expect(isGameOver({ ...createInitialGameState(0, 'classic'), timeLeft: 30, elapsedTime: limit })).toBe(false);
+  });
+
+  it('should draw spawns from the mode spawn table', () => {
+    const rng = new GameRNG(7);
+    const types = Array.from({ length: 500 }, () => rng.objectType(GAME_MODES.zen.spawnTable));
+
+    expect(types).not.toContain('bomb');
+    expect(types).toContain('logo');
+  });
+
+  it('should never drop excluded cards', () => {
+    const rng = new GameRNG(11);
+    const cards = Array.from({ length: 500 }, () => rng.magicCard(GAME_MODES.zen.excludedCards));
+
+    expect(cards).not.toContain('bomb-trap');
+    expect(cards).not.toContain('extra-time');
+  });
+
+  it('should keep endless runs going past the classic duration', () => {
+    const state = createSimulationState(42, undefined, 'endless');
+
+    while (state.tick < msToTicks(150000) && !isSimulationOver(state)) {
+      stepSimulation(state);
+    }
+
+    expect(isSimulationOver(state)).toBe(false);
+    expect(state.gameState.elapsedTime).toBeGreaterThan(120000);
+  });
+
+  it('should enforce the mode session limit during replay', () => {
+    // Wall-clock time runs ahead of game time by the start-up allowance at most
+    const tap = { timestamp: 130000, tick: msToTicks(90000), position: { x: 0, y: 0 }, result: 'miss' as const };
+
+    const classic = verifyTapReplay(1, [tap], { sessionStartTime: 0, mode: 'classic' });
+    const timeAttack = verifyTapReplay(1, [tap], { sessionStartTime: 0, mode: 'time-attack' });
+
+    expect(classic.verdicts[0].valid).toBe(true);
+    expect(timeAttack.verdicts[0].valid).toBe(false);
+    expect(timeAttack.verdicts[0].reason).toMatch(/maximum game duration/);
+  });
+
+  it('should allow for the on-chain start and countdown before the clock runs', () => {
+    // Last moment of a Time Attack run whose start took 20s to approve, plus the countdown
+    const startDelay = 23000;
+    const tap = { timestamp: startDelay + 59900, tick: msToTicks(59900), position: { x: 0, y: 0 }, result: 'miss' as const };
+
+    const replay = verifyTapReplay(1, [tap], { sessionStartTime: 0, mode: 'time-attack' });
+
+    expect(replay.verdicts[0].valid).toBe(true);
+    expect(getSessionTimeLimit(GAME_MODES['time-attack'])).toBe(60000 + SESSION_ALLOWANCE_MS.START);
+    expect(getSessionTimeLimit(GAME_MODES.classic)).toBe(120000 + SESSION_ALLOWANCE_MS.EXTRA_TIME + SESSION_ALLOWANCE_MS.START);
+  });
+});
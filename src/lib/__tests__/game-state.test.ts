@@ -0,0 +1,146 @@
+/**
+ * Unit tests for the client game state manager
+ * Testing desync rebasing and resume-after-reload snapshots
+ */
+
+import { GameStateManager } from '../game-state';
+import { createSimulationState, stepSimulation, snapshotSimulation, DEFAULT_SIMULATION_CONFIG } from '../simulation';
+import { toCanonicalState } from '../state-codec';
+import { deriveSessionSeed } from '../rng';
+
+const SESSION_ID = 'session-rebase';
+const SEED = 1234;
+
+function runningManager(ticks: number) {
+  const manager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+  const session = manager.initializeSession(SESSION_ID, SEED);
+  session.state = 'RUNNING';
+  for (let i = 0; i < ticks; i++) {
+    stepSimulation(session);
+  }
+  return { manager, session };
+}
+
+describe('GameStateManager', () => {
+  describe('Rebase', () => {
+    it('should rebase onto the server snapshot and replay pending taps', () => {
+      const { manager, session } = runningManager(240);
+
+      // Server is at tick 120 with a different score
+      const server = createSimulationState(deriveSessionSeed(SESSION_ID, SEED));
+      for (let i = 0; i < 120; i++) {
+        stepSimulation(server);
+      }
+      server.gameState = { ...server.gameState, score: 500 };
+      const serverState = toCanonicalState(server.gameState, 4, 110);
+
+      const replayed = manager.rebase(snapshotSimulation(server), serverState, [
+        { timestamp: 1000, tick: 180, position: { x: 5, y: 595 } },
+      ]);
+
+      expect(replayed).toHaveLength(1);
+      expect(replayed![0].tap.tick).toBe(180);
+      expect(replayed![0].state).toEqual(session.canonicalState);
+      expect(session.tick).toBe(240);
+      expect(session.actionCount).toBe(5);
+      expect(session.canonicalState.actionCount).toBe(5);
+      expect(session.canonicalState.score).toBe(session.gameState.score);
+    });
+
+    it('should adopt the server state when nothing is pending', () => {
+      const { manager, session } = runningManager(60);
+      const server = createSimulationState(deriveSessionSeed(SESSION_ID, SEED));
+      const serverState = toCanonicalState(server.gameState, 0, 0);
+
+      expect(manager.rebase(snapshotSimulation(server), serverState, [])).toEqual([]);
+      expect(session.canonicalState).toEqual(serverState);
+      expect(session.tick).toBe(60);
+    });
+
+    it('should rebase a finished game onto the server state and keep it finished', () => {
+      const { manager, session } = runningManager(240);
+      session.state = 'FINISHED';
+      const server = createSimulationState(deriveSessionSeed(SESSION_ID, SEED));
+      for (let i = 0; i < 120; i++) {
+        stepSimulation(server);
+      }
+      server.gameState = { ...server.gameState, score: 500 };
+
+      expect(manager.rebase(snapshotSimulation(server), toCanonicalState(server.gameState, 4, 110), [])).toEqual([]);
+      expect(session.state).toBe('FINISHED');
+      expect(session.tick).toBe(240);
+      expect(session.gameState.score).toBeGreaterThanOrEqual(500);
+    });
+
+    it('should not rebase when no game is running', () => {
+      const manager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+      const server = createSimulationState(1);
+
+      expect(manager.rebase(snapshotSimulation(server), toCanonicalState(server.gameState, 0, 0), [])).toBeNull();
+    });
+  });
+
+  describe('Snapshot and Restore', () => {
+    it('should restore a running session paused and fast-forwarded by the time away', () => {
+      const { manager, session } = runningManager(600);
+      const snapshot = JSON.parse(JSON.stringify(manager.snapshotSession(10_000)));
+
+      const restoredManager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+      const restored = restoredManager.restoreSession(snapshot, 12_000);
+      restoredManager.cleanup();
+
+      expect(restored.id).toBe(session.id);
+      expect(restored.state).toBe('PAUSED');
+      expect(restored.tick).toBe(600 + 120);
+      expect(restored.gameState.elapsedTime).toBeCloseTo(session.gameState.elapsedTime + 2000);
+    });
+
+    it('should restore a paused session without playing out the time away', () => {
+      const { manager, session } = runningManager(600);
+      session.state = 'PAUSED';
+      const snapshot = JSON.parse(JSON.stringify(manager.snapshotSession(10_000)));
+
+      // The server does not count an open pause either
+      const restoredManager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+      const restored = restoredManager.restoreSession(snapshot, 250_000);
+      restoredManager.cleanup();
+
+      expect(restored.state).toBe('PAUSED');
+      expect(restored.tick).toBe(600);
+      expect(restored.gameState.elapsedTime).toBeCloseTo(session.gameState.elapsedTime);
+      expect(restored.gameState.timeLeft).toBeCloseTo(session.gameState.timeLeft);
+    });
+
+    it('should report the pause a restored run comes back in', () => {
+      const { manager } = runningManager(600);
+      const snapshot = manager.snapshotSession(10_000)!;
+
+      // The play page forwards these to the server so the pause is not timed against the session
+      const restoredManager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+      const listener = jest.fn();
+      restoredManager.getClock().onPauseChange(listener);
+      restoredManager.restoreSession(snapshot, 12_000);
+      restoredManager.cleanup();
+
+      expect(listener).toHaveBeenCalledWith(true, expect.any(Number));
+    });
+
+    it('should finish the run when the time away exceeds the time left', () => {
+      const { manager } = runningManager(60);
+      const snapshot = manager.snapshotSession(0)!;
+
+      const restoredManager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+      const restored = restoredManager.restoreSession(snapshot, 200_000);
+
+      expect(restored.state).toBe('FINISHED');
+      expect(restored.gameState.timeLeft).toBeLessThanOrEqual(0);
+    });
+
+    it('should not snapshot a session that has not started', () => {
+      const manager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+      manager.initializeSession(SESSION_ID, SEED);
+
+      expect(manager.snapshotSession()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for ghost pace curves
+ */
+
+import { PACE_CONFIG, PaceCurve, buildPaceCurve, getPaceDelta, getPaceScore, isPersonalBestPace } from '../pace';
+import { buildReplayTimeline, ReplayInput, seekReplay } from '../replay-playback';
+import { createSimulationState, stepSimulation, applySimulationTap, isSimulationOver } from '../simulation';
+import type { ReplayTap } from '../replay-verification';
+
+const SEED = 77;
+
+// Play a time-attack run, tapping the first object on screen every 45 ticks
+function recordRun(): ReplayInput {
+  const state = createSimulationState(SEED, undefined, 'time-attack');
+  const taps: ReplayTap[] = [];
+
+  while (!isSimulationOver(state)) {
+    if (state.tick > 0 && state.tick % 45 === 0 && state.objects.length > 0) {
+      const position = { ...state.objects[0].position };
+      const outcome = applySimulationTap(state, position);
+      taps.push({ timestamp: state.tick, tick: outcome.tick, position, targetId: outcome.targetId, result: outcome.result });
+    }
+    stepSimulation(state);
+  }
+
+  return { sessionId: 'pace-session', seed: SEED, mode: 'time-attack', taps };
+}
+
+const CURVE: PaceCurve = {
+  sessionId: 'best',
+  mode: 'classic',
+  score: 500,
+  endTick: 150,
+  intervalTicks: 60,
+  samples: [0, 100, 400, 500], // Ticks 0, 60, 120 and the end at 150
+};
+
+describe('Ghost Pace', () => {
+  it('should sample the replayed score once per interval, ending on the final score', () => {
+    const input = recordRun();
+    const curve = buildPaceCurve(input);
+    const timeline = buildReplayTimeline(input);
+
+    expect(curve.endTick).toBe(timeline.endTick);
+    expect(curve.samples).toHaveLength(Math.ceil(curve.endTick / PACE_CONFIG.SAMPLE_INTERVAL_TICKS) + 1);
+    expect(curve.samples[10]).toBe(seekReplay(timeline, 10 * PACE_CONFIG.SAMPLE_INTERVAL_TICKS).gameState.score);
+    expect(curve.samples.at(-1)).toBe(curve.score);
+    expect(curve.score).toBeGreaterThan(0);
+  });
+
+  it('should interpolate between samples and hold the final score after the end', () => {
+    expect(getPaceScore(CURVE, 0)).toBe(0);
+    expect(getPaceScore(CURVE, 30)).toBe(50);
+    expect(getPaceScore(CURVE, 60)).toBe(100);
+    expect(getPaceScore(CURVE, 135)).toBe(450); // Last, shorter interval
+    expect(getPaceScore(CURVE, 150)).toBe(500);
+    expect(getPaceScore(CURVE, 9000)).toBe(500);
+  });
+
+  it('should measure the live score against the curve', () => {
+    expect(getPaceDelta(CURVE, 60, 130)).toBe(30);
+    expect(getPaceDelta(CURVE, 120, 250)).toBe(-150);
+    expect(isPersonalBestPace({ ...CURVE, score: 501 }, CURVE)).toBe(true);
+    expect(isPersonalBestPace({ ...CURVE, score: 500 }, CURVE)).toBe(false);
+    expect(isPersonalBestPace(CURVE, null)).toBe(true);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the spawn manager and object behaviours
+ */
+
+import {
+  GameObject,
+  ObjectBehaviour,
+  SpawnConfig,
+  SpawnManager,
+  createGameObject,
+  getLaneCenters,
+  predictObjectPosition,
+  strikeObject,
+  swingOffset,
+  updateGameObject,
+} from '../physics';
+import { GAME_MODES, getSpawnTable } from '../game-modes';
+import { GameRNG } from '../rng';
+import { createSimulationState, stepSimulation, applySimulationTap, msToTicks } from '../simulation';
+import { ReplayTap, verifyTapReplay } from '../replay-verification';
+
+const BASE_CONFIG: SpawnConfig = {
+  screenWidth: 800,
+  screenHeight: 600,
+  objectSize: { x: 64, y: 64 },
+  fallSpeed: 100,
+  spawnRate: 1.5,
+};
+
+// Spawn one batch per call by always passing the spawn delay
+function spawnBatches(manager: SpawnManager, batches: number, liveObjects: GameObject[] = [], spawnRate = 1): GameObject[] {
+  const spawned: GameObject[] = [];
+  for (let i = 1; i <= batches; i++) {
+    spawned.push(...manager.update(i * 10000, { spawnRate, timeFrozen: false }, liveObjects).map(obj => ({ ...obj, position: { ...obj.position } })));
+  }
+  return spawned;
+}
+
+describe('Spawn Manager', () => {
+  it('should pick spawn odds by difficulty level', () => {
+    const classic = GAME_MODES.classic;
+
+    expect(getSpawnTable(classic, 0)).toBe(classic.spawnTable);
+    expect(getSpawnTable(classic, 1)).toBe(classic.levelSpawnTables[0]);
+    expect(getSpawnTable(classic, 99)).toBe(classic.levelSpawnTables[classic.levelSpawnTables.length - 1]);
+  });
+
+  it('should never go longer than the pity timer without a gift', () => {
+    const manager = new SpawnManager(new GameRNG(5), { ...BASE_CONFIG, mode: 'classic' });
+    const types = spawnBatches(manager, 600).map(obj => obj.type);
+
+    let drought = 0;
+    types.forEach(type => {
+      drought = type === 'gift' ? 0 : drought + 1;
+      expect(drought).toBeLessThanOrEqual(GAME_MODES.classic.giftPity);
+    });
+  });
+
+  it('should carry the pity timer through snapshots', () => {
+    const original = new SpawnManager(new GameRNG(8), { ...BASE_CONFIG });
+    spawnBatches(original, 17);
+
+    const rng = new GameRNG(0);
+    const restored = new SpawnManager(rng, { ...BASE_CONFIG });
+    restored.restoreSnapshot(original.getSnapshot());
+    expect(restored.getSnapshot()).toEqual(original.getSnapshot());
+  });
+
+  it('should keep swarm batches from overlapping', () => {
+    const manager = new SpawnManager(new GameRNG(21), { ...BASE_CONFIG });
+
+    for (let i = 1; i <= 50; i++) {
+      const batch = manager.update(i * 10000, { spawnRate: 3, timeFrozen: false });
+      for (let a = 0; a < batch.length; a++) {
+        for (let b = a + 1; b < batch.length; b++) {
+          expect(Math.abs(batch[a].position.x - batch[b].position.x)).toBeGreaterThanOrEqual(64);
+        }
+      }
+    }
+  });
+
+  it('should snap to free lanes in lane modes', () => {
+    const lanes = getLaneCenters(800, 64, GAME_MODES['time-attack'].lanes);
+    const manager = new SpawnManager(new GameRNG(3), { ...BASE_CONFIG, mode: 'time-attack' });
+    const blocker = { ...spawnBatches(manager, 1)[0], isActive: true };
+
+    const next = spawnBatches(manager, 30, [blocker]);
+    next.forEach(obj => {
+      expect(lanes).toContain(obj.position.x);
+      expect(obj.position.x).not.toBe(blocker.position.x);
+    });
+  });
+
+  it('should spawn identically from the same seed', () => {
+    const a = spawnBatches(new SpawnManager(new GameRNG(77), { ...BASE_CONFIG, level: 2 }), 100, [], 3);
+    const b = spawnBatches(new SpawnManager(new GameRNG(77), { ...BASE_CONFIG, level: 2 }), 100, [], 3);
+
+    expect(a.map(obj => [obj.id, obj.position.x])).toEqual(b.map(obj => [obj.id, obj.position.x]));
+  });
+});
+
+describe('Object Behaviours', () => {
+  const swing = (motion: ObjectBehaviour['motion'], extra: Partial<ObjectBehaviour> = {}): ObjectBehaviour =>
+    ({ motion, amplitude: 50, period: 1000, armour: 1, splits: false, ...extra });
+
+  it('should swing within the amplitude and start centred', () => {
+    (['sine', 'zigzag'] as const).forEach(motion => {
+      expect(swingOffset(swing(motion), 0)).toBe(0);
+      expect(swingOffset(swing(motion), 250)).toBeCloseTo(50);
+      expect(swingOffset(swing(motion), 750)).toBeCloseTo(-50);
+      for (let age = 0; age < 2000; age += 37) {
+        expect(Math.abs(swingOffset(swing(motion), age))).toBeLessThanOrEqual(50);
+      }
+    });
+  });
+
+  it('should drift and swing along the predicted path', () => {
+    const obj = { ...createGameObject('logo_1', 'logo', { x: 400, y: 0 }, { x: 64, y: 64 }, 100, 0), behaviour: swing('sine'), anchorX: 400, age: 0 };
+    obj.velocity.x = 20;
+
+    let moved: GameObject = obj;
+    for (let i = 0; i < 60; i++) moved = updateGameObject(moved, 1000 / 60);
+
+    expect(moved.anchorX).toBeCloseTo(420);
+    expect(moved.position.x).toBeCloseTo(420 + swingOffset(obj.behaviour, 1000));
+    expect(predictObjectPosition(obj, 1000).x).toBeCloseTo(moved.position.x);
+    expect(predictObjectPosition(obj, 1000).y).toBeCloseTo(moved.position.y);
+  });
+
+  it('should take several taps to break armour', () => {
+    const obj = { ...createGameObject('logo_2', 'logo', { x: 100, y: 100 }, { x: 64, y: 64 }, 100, 0), behaviour: swing('none', { armour: 3 }), hp: 3 };
+
+    expect(strikeObject(obj, 0)).toEqual([]);
+    expect(obj).toMatchObject({ hp: 2, isActive: true });
+    strikeObject(obj, 0);
+    strikeObject(obj, 0);
+    expect(obj.isActive).toBe(false);
+  });
+
+  it('should split into two smaller halves flying apart', () => {
+    const obj = { ...createGameObject('logo_3', 'logo', { x: 100, y: 100 }, { x: 64, y: 64 }, 100, 0), behaviour: swing('none', { splits: true }) };
+    const halves = strikeObject(obj, 5000);
+
+    expect(obj.isActive).toBe(false);
+    expect(halves.map(half => half.id)).toEqual(['logo_3a', 'logo_3b']);
+    expect(halves[0].size.x).toBeLessThan(64);
+    expect(halves[0].velocity.x).toBeLessThan(0);
+    expect(halves[1].velocity.x).toBeGreaterThan(0);
+    expect(halves.every(half => !half.behaviour?.splits && half.spawnTime === 5000)).toBe(true);
+  });
+
+  it('should verify replays through armour hits and splits', () => {
+    // Chase logos past level 1 so behaviours are in play
+    const state = createSimulationState(31);
+    const taps: ReplayTap[] = [];
+    let struck = false;
+    while (state.tick < msToTicks(70000) && state.gameState.lives > 0) {
+      const target = state.objects.find(obj => obj.isActive && obj.type === 'logo' && obj.position.y > 0);
+      if (state.tick % 15 === 0 && target) {
+        struck = struck || target.hp !== undefined || !!target.behaviour?.splits;
+        const outcome = applySimulationTap(state, target.position);
+        taps.push({ timestamp: Math.round(outcome.tick * 1000 / 60), tick: outcome.tick, position: { ...target.position }, targetId: outcome.targetId, result: outcome.result });
+      }
+      stepSimulation(state);
+    }
+
+    const replay = verifyTapReplay(31, taps, { sessionStartTime: 0 });
+    expect(struck).toBe(true);
+    expect(replay.isValid).toBe(true);
+    expect(replay.score).toBe(state.gameState.score);
+  });
+});
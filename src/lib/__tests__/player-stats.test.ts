@@ -0,0 +1,85 @@
+/**
+ * Unit tests for player profile stats
+ */
+
+import {
+  ArchivedRun,
+  addRunToTotals,
+  createPlayerTotals,
+  getFavouriteCard,
+  getScoreTrend,
+  summarizePlayer,
+} from '../player-stats';
+import { ReplayStats } from '../replay-verification';
+
+const BASE_STATS: ReplayStats = {
+  totalTaps: 10,
+  logos: 6,
+  glitches: 2,
+  gifts: 2,
+  bombs: 0,
+  misses: 0,
+  activations: 0,
+  cardsPlayed: {},
+  maxCombo: 2,
+  longestStreak: 6,
+};
+
+function makeRun(overrides: Partial<ArchivedRun> = {}, stats: Partial<ReplayStats> = {}): ArchivedRun {
+  return {
+    sessionId: 'session-1',
+    address: '0x0000000000000000000000000000000000000001',
+    mode: 'classic',
+    score: 100,
+    isValid: true,
+    startTime: 0,
+    finishedAt: 1000,
+    durationMs: 60000,
+    stats: { ...BASE_STATS, ...stats },
+    ...overrides,
+  };
+}
+
+describe('Player Stats', () => {
+  it('should fold verified runs into lifetime stats', () => {
+    const totals = [
+      makeRun({ score: 300, finishedAt: 2000 }, { cardsPlayed: { 'time-freeze': 1 } }),
+      makeRun({ score: 100, finishedAt: 1000 }, { activations: 2, totalTaps: 12, cardsPlayed: { 'slow-motion': 2 } }),
+    ].reduce(addRunToTotals, createPlayerTotals());
+
+    expect(summarizePlayer(totals)).toEqual({
+      runs: 2,
+      bestScore: 300,
+      averageScore: 200,
+      accuracy: 0.8, // Activations are not board taps
+      favouriteCard: 'slow-motion',
+      playtimeMs: 120000,
+      firstPlayedAt: 1000,
+      lastPlayedAt: 2000,
+    });
+  });
+
+  it('should leave totals unchanged for unverified runs', () => {
+    const totals = createPlayerTotals();
+    expect(addRunToTotals(totals, makeRun({ isValid: false, score: 9999 }))).toBe(totals);
+    expect(summarizePlayer(totals)).toMatchObject({ runs: 0, averageScore: 0, accuracy: 0, favouriteCard: null });
+  });
+
+  it('should pick the most played card', () => {
+    expect(getFavouriteCard({})).toBeNull();
+    expect(getFavouriteCard({ 'time-freeze': 0 })).toBeNull();
+    expect(getFavouriteCard({ 'time-freeze': 2, 'extra-time': 3, 'slow-motion': 3 })).toBe('extra-time');
+  });
+
+  it('should chart verified scores oldest first, optionally per mode', () => {
+    const runs = [
+      makeRun({ sessionId: 'c', finishedAt: 3000, score: 30 }),
+      makeRun({ sessionId: 'b', finishedAt: 2000, score: 20, isValid: false }),
+      makeRun({ sessionId: 'a', finishedAt: 1000, score: 10, mode: 'zen' }),
+    ];
+
+    expect(getScoreTrend(runs).map(point => point.sessionId)).toEqual(['a', 'c']);
+    expect(getScoreTrend(runs, 'zen')).toEqual([{ sessionId: 'a', mode: 'zen', score: 10, finishedAt: 1000 }]);
+    expect(runs[0].sessionId).toBe('c'); // Input order is left alone
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for the replay file format
+ */
+
+import {
+  REPLAY_FORMAT_VERSION,
+  ReplayFile,
+  createReplayFile,
+  decodeReplay,
+  encodeReplayBase64,
+  encodeReplayBinary,
+  encodeReplayJson,
+} from '../replay-format';
+import { GAME_RULES_VERSION, SIMULATION_TICK_MS } from '../simulation';
+import { buildReplayTimeline } from '../replay-playback';
+
+const FILE: ReplayFile = createReplayFile({
+  sessionId: 'session-42-abc',
+  seed: -123456789,
+  mode: 'classic',
+  cardInventory: true,
+  taps: [
+    { timestamp: 100, tick: 6, position: { x: 412.3456789, y: 98.125 }, targetId: 'logo_1', result: 'logo' },
+    { timestamp: 200, tick: 12, position: { x: 0, y: 0 }, targetId: 'extra-time', result: 'activate' },
+    { timestamp: 5000, tick: 300, position: { x: 12, y: 590 }, result: 'miss' },
+  ],
+  endTick: 420,
+});
+
+// Decoding keeps inputs only: timestamps come from ticks and tap targets are dropped
+function inputsOf(file: ReplayFile) {
+  return file.taps.map(tap => ({ tick: tap.tick, position: tap.position, result: tap.result, card: tap.result === 'activate' ? tap.targetId : undefined }));
+}
+
+describe('Replay Format', () => {
+  it('should round-trip through JSON and base64', () => {
+    for (const encoded of [encodeReplayJson(FILE), encodeReplayBase64(FILE)]) {
+      const decoded = decodeReplay(encoded);
+      expect(decoded).toMatchObject({
+        sessionId: FILE.sessionId,
+        seed: FILE.seed,
+        mode: 'classic',
+        cardInventory: true,
+        rulesVersion: GAME_RULES_VERSION,
+        viewport: { width: 800, height: 600 },
+        endTick: 420,
+      });
+      expect(inputsOf(decoded)).toEqual(inputsOf(FILE));
+      expect(decoded.taps[2].timestamp).toBe(Math.round(300 * SIMULATION_TICK_MS));
+    }
+
+    // Runs still in progress have no end tick yet
+    const open = { ...FILE, endTick: undefined };
+    for (const encoded of [encodeReplayJson(open), encodeReplayBase64(open)]) {
+      expect(decodeReplay(encoded).endTick).toBeUndefined();
+    }
+  });
+
+  it('should delta-encode ticks and keep binary compact', () => {
+    const json = JSON.parse(encodeReplayJson(FILE));
+    expect(json.version).toBe(REPLAY_FORMAT_VERSION);
+    expect(json.taps.map((tap: unknown[]) => tap[0])).toEqual([6, 6, 288]);
+    expect(json.taps[1]).toEqual([6, 'activate', 'extra-time']);
+
+    // Header (4 + 1 + 2 + 1 + 4 + 4 + 8 + 15 + 1) + taps (18 + 3 + 19) + end tick (2)
+    expect(encodeReplayBinary(FILE)).toHaveLength(40 + 40 + 2);
+  });
+
+  it('should refuse a replay recorded under other rules and say why', () => {
+    const other = encodeReplayBase64({ ...FILE, rulesVersion: GAME_RULES_VERSION + 1 });
+    expect(() => decodeReplay(other)).toThrow(`game rules v${GAME_RULES_VERSION + 1}, but this build runs v${GAME_RULES_VERSION}`);
+
+    const json = encodeReplayJson({ ...FILE, rulesVersion: 0 });
+    expect(() => decodeReplay(json)).toThrow('would not play back the way it happened');
+  });
+
+  it('should reject data that is not a replay', () => {
+    expect(() => decodeReplay('{"hello":1}')).toThrow('Not a MonadRush replay file');
+    expect(() => decodeReplay('not base64!')).toThrow('neither JSON nor valid base64');
+    expect(() => decodeReplay(encodeReplayBase64(FILE).slice(0, 40))).toThrow('truncated');
+    expect(() => decodeReplay(JSON.stringify({ ...JSON.parse(encodeReplayJson(FILE)), version: 99 }))).toThrow('format v99 is not supported');
+  });
+
+  it('should reject malformed values in replay JSON', () => {
+    const json = JSON.parse(encodeReplayJson(FILE));
+    const withTaps = (taps: unknown[]) => JSON.stringify({ ...json, taps });
+
+    expect(() => decodeReplay(withTaps([...json.taps, 'tap']))).toThrow(`Replay tap ${json.taps.length + 1} is not a tap entry`);
+    expect(() => decodeReplay(withTaps([[-1, 'logo', 10, 10]]))).toThrow('Replay tap 1 has an invalid tick delta');
+    expect(() => decodeReplay(withTaps([[1.5, 'logo', 10, 10]]))).toThrow('Replay tap 1 has an invalid tick delta');
+    expect(() => decodeReplay(withTaps([['3', 'logo', 10, 10]]))).toThrow('Replay tap 1 has an invalid tick delta');
+    expect(() => decodeReplay(withTaps([[3, 'logo', '10', 10]]))).toThrow('Replay tap 1 has an invalid position');
+    expect(() => decodeReplay(withTaps([[3, 'logo', 10]]))).toThrow('Replay tap 1 has an invalid position');
+    expect(() => decodeReplay(withTaps([[3, 'activate', 'no-such-card']]))).toThrow('Replay plays an unknown card');
+    expect(() => decodeReplay(JSON.stringify({ ...json, seed: 'abc' }))).toThrow('Replay seed is not a number');
+    expect(() => decodeReplay(encodeReplayJson(FILE).replace(`"seed":${FILE.seed}`, '"seed":1e999'))).toThrow('Replay seed is not a number');
+    expect(() => decodeReplay(JSON.stringify({ ...json, viewport: { width: 360 } }))).toThrow('Replay viewport is missing or not a number');
+    expect(() => decodeReplay(JSON.stringify({ ...json, endTick: -5 }))).toThrow('Replay end tick is not a valid tick');
+  });
+
+  it('should play back the same run after a round trip', () => {
+    const decoded = decodeReplay(encodeReplayBase64(FILE));
+    expect(buildReplayTimeline(decoded).endTick).toBe(buildReplayTimeline(FILE).endTick);
+    expect(buildReplayTimeline(decoded).keyframes.at(-1)).toEqual(buildReplayTimeline(FILE).keyframes.at(-1));
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for replay playback
+ */
+
+import { PLAYBACK_CONFIG, ReplayInput, buildReplayTimeline, seekReplay, stepReplay } from '../replay-playback';
+import { DEFAULT_SIMULATION_CONFIG, createSimulationState, stepSimulation, applySimulationTap, isSimulationOver } from '../simulation';
+import { GameStateManager } from '../game-state';
+import type { ReplayTap } from '../replay-verification';
+
+const SEED = 77;
+
+// Play a time-attack run, tapping the first object on screen every 45 ticks
+function recordRun(): ReplayInput {
+  const state = createSimulationState(SEED, undefined, 'time-attack');
+  const taps: ReplayTap[] = [];
+
+  while (!isSimulationOver(state)) {
+    if (state.tick > 0 && state.tick % 45 === 0 && state.objects.length > 0) {
+      const position = { ...state.objects[0].position };
+      const outcome = applySimulationTap(state, position);
+      taps.push({ timestamp: state.tick, tick: outcome.tick, position, targetId: outcome.targetId, result: outcome.result });
+    }
+    stepSimulation(state);
+  }
+
+  return { sessionId: 'replay-session', seed: SEED, mode: 'time-attack', taps };
+}
+
+describe('Replay Playback', () => {
+  const input = recordRun();
+  const timeline = buildReplayTimeline(input);
+
+  it('should end the timeline where the run ended, with a keyframe per interval', () => {
+    const played = createSimulationState(SEED, undefined, 'time-attack');
+    while (!isSimulationOver(played)) stepReplay(played, timeline);
+
+    expect(input.taps.length).toBeGreaterThan(10);
+    expect(timeline.endTick).toBe(played.tick);
+    expect(timeline.keyframes).toHaveLength(Math.ceil(timeline.endTick / PLAYBACK_CONFIG.KEYFRAME_INTERVAL_TICKS));
+  });
+
+  it('should seek to the same state as playing straight through', () => {
+    const played = createSimulationState(SEED, undefined, 'time-attack');
+    while (played.tick < 1000) stepReplay(played, timeline);
+
+    const seeked = seekReplay(timeline, 1000);
+    expect(seeked.tick).toBe(1000);
+    expect(seeked.gameState).toEqual(played.gameState);
+    expect(seeked.objects.map(obj => obj.id)).toEqual(played.objects.map(obj => obj.id));
+
+    // Back before the first keyframe boundary, and clamped to the run
+    const early = createSimulationState(SEED, undefined, 'time-attack');
+    while (early.tick < 10) stepReplay(early, timeline);
+    expect(seekReplay(timeline, 10).gameState).toEqual(early.gameState);
+    expect(seekReplay(timeline, timeline.endTick + 500).tick).toBe(timeline.endTick);
+  });
+
+  it('should drive a GameStateManager without taking input', () => {
+    const manager = new GameStateManager(DEFAULT_SIMULATION_CONFIG);
+    const session = manager.loadReplay(input);
+
+    expect(session.state).toBe('PAUSED');
+    expect(session.playback).toEqual({ speed: 1, endTick: timeline.endTick });
+
+    manager.playReplay();
+    expect(session.state).toBe('RUNNING');
+    expect(manager.handleTap({ x: 400, y: 300 })).toBe(false);
+
+    manager.seekPlayback(timeline.endTick);
+    expect(session.tapHistory).toEqual(input.taps);
+    expect(session.gameState.score).toBe(seekReplay(timeline, timeline.endTick).gameState.score);
+
+    manager.setPlaybackSpeed(2);
+    expect(session.playback?.speed).toBe(2);
+    manager.cleanup();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for server-side replay verification
+ * Testing that scores come from the seeded replay, not the client's claims
+ */
+
+import { verifyTapReplay, ReplayTap } from '../replay-verification';
+import { createSimulationState, stepSimulation, applySimulationTap, isSimulationOver, SIMULATION_TICK_MS } from '../simulation';
+
+const SEED = 98765;
+const SESSION_START = 1_700_000_000_000;
+const MIN_TAP_TICKS = 6;
+
+/**
+ * Play an honest run that taps the first object of each spawn wave
+ */
+function recordHonestTaps(tapCount: number): ReplayTap[] {
+  const state = createSimulationState(SEED);
+  const taps: ReplayTap[] = [];
+  let lastTapTick = -Infinity;
+
+  while (taps.length < tapCount && state.tick < 6000) {
+    stepSimulation(state);
+    const target = state.objects.find(obj => obj.isActive && obj.position.y > 0);
+    // Keep taps a human-plausible distance apart
+    if (!target || state.tick - lastTapTick < MIN_TAP_TICKS) continue;
+
+    const outcome = applySimulationTap(state, { ...target.position });
+    lastTapTick = outcome.tick;
+    taps.push({
+      timestamp: SESSION_START + 3000 + Math.ceil(outcome.tick * SIMULATION_TICK_MS),
+      tick: outcome.tick,
+      position: outcome.position,
+      targetId: outcome.targetId,
+      result: outcome.result,
+    });
+  }
+
+  return taps;
+}
+
+describe('Replay Verification', () => {
+  it('should accept an honest run and reproduce its score', () => {
+    const taps = recordHonestTaps(5);
+    const replay = verifyTapReplay(SEED, taps, { sessionStartTime: SESSION_START });
+
+    expect(replay.isValid).toBe(true);
+    expect(replay.verdicts).toHaveLength(taps.length);
+    expect(replay.verdicts.every(verdict => verdict.valid)).toBe(true);
+    expect(replay.stats.totalTaps).toBe(taps.length);
+  });
+
+  it('should reject a tap that claims a logo where there was none', () => {
+    const taps: ReplayTap[] = [
+      { timestamp: SESSION_START + 4000, tick: 60, position: { x: 5, y: 595 }, result: 'logo' },
+    ];
+
+    const replay = verifyTapReplay(SEED, taps, { sessionStartTime: SESSION_START });
+
+    expect(replay.isValid).toBe(false);
+    expect(replay.score).toBe(0);
+    expect(replay.verdicts[0].actual).toBe('miss');
+    expect(replay.verdicts[0].reason).toContain('Claimed logo');
+  });
+
+  it('should reject taps whose tick runs ahead of wall-clock time', () => {
+    const taps: ReplayTap[] = [
+      { timestamp: SESSION_START + 1000, tick: 600, position: { x: 400, y: 300 }, result: 'miss' },
+    ];
+
+    const replay = verifyTapReplay(SEED, taps, { sessionStartTime: SESSION_START });
+
+    expect(replay.verdicts[0].valid).toBe(false);
+    expect(replay.verdicts[0].actual).toBeNull();
+  });
+
+  it('should reject taps outside the session window', () => {
+    const taps: ReplayTap[] = [
+      { timestamp: SESSION_START - 10, tick: 0, position: { x: 400, y: 300 }, result: 'miss' },
+    ];
+
+    const replay = verifyTapReplay(SEED, taps, { sessionStartTime: SESSION_START });
+
+    expect(replay.verdicts[0].valid).toBe(false);
+    expect(replay.verdicts[0].reason).toContain('timestamp');
+  });
+
+  it('should report failed checks for risk assessment', () => {
+    const taps: ReplayTap[] = [
+      { timestamp: SESSION_START + 4000, tick: 60, position: { x: 5, y: 595 }, result: 'logo' },
+    ];
+
+    const replay = verifyTapReplay(SEED, taps, { sessionStartTime: SESSION_START });
+
+    expect(replay.validationResults.some(result => !result.isValid && result.severity === 'high')).toBe(true);
+  });
+
+  it('should keep scoring after the last tap up to the client\'s final tick', () => {
+    (['classic', 'zen'] as const).forEach(mode => {
+      // A run with no taps still earns wave survival bonuses before time runs out
+      const client = createSimulationState(12345, undefined, mode);
+      while (!isSimulationOver(client)) {
+        stepSimulation(client);
+      }
+
+      const replay = verifyTapReplay(12345, [], { sessionStartTime: SESSION_START, mode, endTick: client.tick });
+
+      expect(client.gameState.score).toBeGreaterThan(0);
+      expect(replay.score).toBe(client.gameState.score);
+      expect(replay.endTick).toBe(client.tick);
+      expect(replay.finalState.elapsedTime).toBe(client.gameState.elapsedTime);
+      expect(replay.waves).toEqual(client.waves.history);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for the client SessionAPI action buffering
+ * Testing that unacknowledged actions survive failed requests
+ */
+
+import { SessionAPI } from '../session';
+import { createMemoryActionStore } from '../action-store';
+
+const SESSION_ID = 'session-buffer';
+
+function jsonResponse(body: unknown, status = 200) {
+  return Promise.resolve({ status, json: () => Promise.resolve(body) });
+}
+
+function tap(tick: number) {
+  return { timestamp: 1000 + tick * 20, tick, position: { x: 400, y: 300 }, type: 'miss' as const };
+}
+
+// flushActions returns the in-flight request when one is already running
+function waitForFlush(api: SessionAPI) {
+  return (api as unknown as { flushActions(): Promise<unknown> }).flushActions();
+}
+
+describe('SessionAPI', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock as unknown as typeof fetch;
+    fetchMock.mockImplementationOnce(() => jsonResponse({ success: true, sessionId: SESSION_ID, seed: 1 }));
+  });
+
+  async function startedApi() {
+    const store = createMemoryActionStore();
+    const api = new SessionAPI(store);
+    api.setAuthToken('token');
+    await api.startSession();
+    return { api, store };
+  }
+
+  it('should keep and persist actions when a batch fails', async () => {
+    const { api, store } = await startedApi();
+    fetchMock.mockImplementationOnce(() => Promise.reject(new Error('Network down')));
+
+    for (let i = 0; i < 20; i++) {
+      api.recordAction(tap(i * 6));
+    }
+    await waitForFlush(api);
+
+    expect(api.getPendingActionCount()).toBe(20);
+    const persisted = store.load(SESSION_ID)!;
+    expect(persisted.inFlightCount).toBe(20);
+    expect(persisted.queue.map(entry => entry.action.sequence)).toEqual(
+      Array.from({ length: 20 }, (_, i) => i + 1)
+    );
+
+    api.clearAuth();
+  });
+
+  it('should drop actions once the server acknowledges their sequence', async () => {
+    const { api } = await startedApi();
+    fetchMock.mockImplementationOnce(() => jsonResponse({
+      success: true,
+      validated: 20,
+      rejected: 0,
+      stateHash: 'head',
+      acknowledgedSequence: 20,
+    }));
+
+    for (let i = 0; i < 21; i++) {
+      api.recordAction(tap(i * 6));
+    }
+    await waitForFlush(api);
+
+    const sent = JSON.parse(fetchMock.mock.calls[1][1].body);
+    expect(sent.actions).toHaveLength(20);
+    expect(api.getPendingActionCount()).toBe(1);
+
+    api.clearAuth();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Unit tests for the deterministic simulation core
+ * Testing reproducibility from seed + inputs and tick-based timing
+ */
+
+import {
+  simulate,
+  createSimulationState,
+  stepSimulation,
+  applySimulationTap,
+  snapshotSimulation,
+  restoreSimulation,
+  msToTicks,
+  SIMULATION_TICK_MS,
+  SimulationInput,
+} from '../simulation';
+import { createGameObject } from '../physics';
+
+describe('Simulation', () => {
+  describe('Determinism', () => {
+    it('should produce identical runs for the same seed and inputs', () => {
+      const inputs: SimulationInput[] = [
+        { tick: 60, position: { x: 400, y: 100 } },
+        { tick: 120, position: { x: 200, y: 300 } },
+        { tick: 300, position: { x: 650, y: 450 } },
+      ];
+
+      const run1 = simulate(12345, inputs, 1200);
+      const run2 = simulate(12345, inputs, 1200);
+
+      expect(run1.state.gameState).toEqual(run2.state.gameState);
+      expect(run1.state.objects).toEqual(run2.state.objects);
+      expect(run1.taps).toEqual(run2.taps);
+      expect(run1.state.rng.getState()).toBe(run2.state.rng.getState());
+    });
+
+    it('should produce different spawn streams for different seeds', () => {
+      const run1 = simulate(12345, [], 600);
+      const run2 = simulate(54321, [], 600);
+
+      const positions1 = run1.state.objects.map(obj => obj.position.x);
+      const positions2 = run2.state.objects.map(obj => obj.position.x);
+
+      expect(positions1).not.toEqual(positions2);
+    });
+
+    it('should assign stable object IDs', () => {
+      const run = simulate(777, [], 600);
+
+      run.state.objects.forEach(obj => {
+        expect(obj.id).toMatch(/^(logo|glitch|gift|bomb)_\d+$/);
+      });
+    });
+  });
+
+  describe('Timing', () => {
+    it('should advance game time by one tick per step', () => {
+      const state = createSimulationState(42);
+
+      for (let i = 0; i < 60; i++) {
+        stepSimulation(state);
+      }
+
+      expect(state.tick).toBe(60);
+      expect(state.gameState.elapsedTime).toBeCloseTo(60 * SIMULATION_TICK_MS);
+      expect(state.gameState.timeLeft).toBeCloseTo(119);
+    });
+
+    it('should convert durations to whole ticks', () => {
+      expect(msToTicks(1000)).toBe(60);
+      expect(msToTicks(SIMULATION_TICK_MS * 3)).toBe(3);
+    });
+  });
+
+  describe('Tap Inputs', () => {
+    it('should hit an object at its current position', () => {
+      const state = createSimulationState(2024);
+
+      while (state.objects.length === 0) {
+        stepSimulation(state);
+      }
+
+      const target = state.objects[0];
+      const outcome = applySimulationTap(state, { ...target.position });
+
+      expect(outcome.result).toBe(target.type);
+      expect(outcome.targetId).toBe(target.id);
+      expect(outcome.tick).toBe(state.tick);
+    });
+
+    it('should record a miss when nothing is at the tap position', () => {
+      const state = createSimulationState(2024);
+      const outcome = applySimulationTap(state, { x: 10, y: 590 });
+
+      expect(outcome.result).toBe('miss');
+      expect(outcome.targetId).toBeUndefined();
+    });
+  });
+
+  describe('Snapshots', () => {
+    it('should continue identically after a JSON round trip', () => {
+      const original = createSimulationState(31337);
+      for (let i = 0; i < 300; i++) {
+        stepSimulation(original);
+      }
+
+      const snapshot = JSON.parse(JSON.stringify(snapshotSimulation(original)));
+      const restored = restoreSimulation(snapshot);
+
+      for (let i = 0; i < 300; i++) {
+        stepSimulation(original);
+        stepSimulation(restored);
+      }
+
+      expect(restored.tick).toBe(original.tick);
+      expect(restored.gameState).toEqual(original.gameState);
+      expect(restored.objects).toEqual(original.objects);
+      expect(restored.rng.getState()).toBe(original.rng.getState());
+    });
+  });
+
+  describe('Card Effects', () => {
+    const size = { x: 64, y: 64 };
+
+    it('should purge live glitches and award the bonus when glitch-purge is collected', () => {
+      const state = createSimulationState(2024);
+      state.objects = [
+        createGameObject('gift_0', 'gift', { x: 100, y: 300 }, size, 100, 0, 'glitch-purge'),
+        createGameObject('glitch_1', 'glitch', { x: 300, y: 300 }, size, 100, 0),
+        createGameObject('glitch_2', 'glitch', { x: 500, y: 300 }, size, 100, 0),
+        createGameObject('logo_3', 'logo', { x: 700, y: 300 }, size, 100, 0),
+      ];
+
+      applySimulationTap(state, { x: 100, y: 300 });
+
+      expect(state.objects.map(obj => obj.id)).toEqual(['gift_0', 'logo_3']);
+      expect(state.gameState.score).toBe(10);
+    });
+
+    it('should spend the golden-monad charge on the next logo', () => {
+      const state = createSimulationState(2024);
+      state.objects = [
+        createGameObject('gift_0', 'gift', { x: 100, y: 300 }, size, 100, 0, 'golden-monad'),
+        createGameObject('logo_1', 'logo', { x: 300, y: 300 }, size, 100, 0),
+        createGameObject('logo_2', 'logo', { x: 500, y: 300 }, size, 100, 0),
+      ];
+
+      applySimulationTap(state, { x: 100, y: 300 });
+      expect(state.gameState.activeEffects.map(effect => effect.type)).toEqual(['golden-monad']);
+
+      const golden = applySimulationTap(state, { x: 300, y: 300 });
+      const plain = applySimulationTap(state, { x: 500, y: 300 });
+
+      expect(golden.points).toBe(30);
+      expect(plain.points).toBe(10);
+      expect(state.gameState.activeEffects).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Unit tests for canonical state encoding and the state hash chain
+ */
+
+import { createInitialGameState } from '../game-logic';
+import {
+  toCanonicalState,
+  encodeCanonicalState,
+  sha256Hex,
+  genesisStateHash,
+  chainStateHash,
+} from '../state-codec';
+
+describe('State Codec', () => {
+  it('should encode equal states identically regardless of float noise', () => {
+    const a = { ...createInitialGameState(0), score: 120, combo: 1.3 };
+    const b = { ...createInitialGameState(999), score: 120.0000001, combo: 1.1 + 0.2, timeLeft: 42 };
+
+    expect(encodeCanonicalState(toCanonicalState(a, 3, 90)))
+      .toBe(encodeCanonicalState(toCanonicalState(b, 3, 90)));
+  });
+
+  it('should compute standard SHA-256 digests', async () => {
+    await expect(sha256Hex('abc')).resolves
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('should chain hashes so every link commits to the history', async () => {
+    const state = toCanonicalState(createInitialGameState(0), 1, 30);
+    const genesis = await genesisStateHash('session-1');
+
+    const link = await chainStateHash(genesis, state);
+
+    expect(link).toBe(await chainStateHash(genesis, state));
+    expect(link).not.toBe(await chainStateHash(await genesisStateHash('session-2'), state));
+    expect(link).not.toBe(await chainStateHash(genesis, { ...state, score: state.score + 10 }));
+  });
+});
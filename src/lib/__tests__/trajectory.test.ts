@@ -0,0 +1,127 @@
+/**
+ * Unit tests for trajectory-based target validation
+ */
+
+import { TrajectoryTracker } from '../trajectory';
+import { createSimulationState, stepSimulation } from '../simulation';
+import { findTappedObjects } from '../physics';
+
+const SEED = 4242;
+
+/**
+ * Find the first object the seed spawns and the tick it is visible at
+ */
+function firstVisibleObject() {
+  const state = createSimulationState(SEED);
+  while (!state.objects.some(obj => obj.position.y > 0)) {
+    stepSimulation(state);
+  }
+  const target = state.objects.find(obj => obj.position.y > 0)!;
+  return { tick: state.tick, target };
+}
+
+/**
+ * Find an object partly covered by a higher-priority one, so a tap on its
+ * centre hits the other object
+ */
+function firstCoveredObject() {
+  const state = createSimulationState(SEED);
+  for (;;) {
+    stepSimulation(state);
+    const covered = state.objects.find(obj =>
+      obj.isActive && obj.position.y > 0 && findTappedObjects(state.objects, obj.position)[0]?.id !== obj.id
+    );
+    if (covered) {
+      return { tick: state.tick, target: covered, hit: findTappedObjects(state.objects, covered.position)[0] };
+    }
+  }
+}
+
+describe('TrajectoryTracker', () => {
+  it('should accept a tap on the claimed target at its predicted position', () => {
+    const { tick, target } = firstVisibleObject();
+    const tracker = new TrajectoryTracker(SEED);
+
+    const result = tracker.validateAction({
+      tick,
+      position: { ...target.position },
+      type: target.type,
+      targetId: target.id,
+    });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should flag a target that had not spawned yet as high severity', () => {
+    const tracker = new TrajectoryTracker(SEED);
+
+    const result = tracker.validateAction({
+      tick: 1,
+      position: { x: 400, y: 300 },
+      type: 'logo',
+      targetId: 'logo_99',
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.severity).toBe('high');
+  });
+
+  it('should flag a tap far from the target trajectory', () => {
+    const { tick, target } = firstVisibleObject();
+    const tracker = new TrajectoryTracker(SEED);
+
+    const result = tracker.validateAction({
+      tick,
+      position: { x: (target.position.x + 400) % 800, y: target.position.y + 300 },
+      type: target.type,
+      targetId: target.id,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.severity).toBe('medium');
+  });
+
+  it('should reject ticks that go backwards', () => {
+    const tracker = new TrajectoryTracker(SEED);
+    tracker.advanceTo(100);
+
+    const result = tracker.validateAction({ tick: 50, position: { x: 0, y: 0 }, type: 'miss' });
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it('should resume from a snapshot with the same spawn records', () => {
+    const { tick, target } = firstVisibleObject();
+    const tracker = new TrajectoryTracker(SEED);
+    tracker.advanceTo(tick);
+
+    const restored = TrajectoryTracker.restore(JSON.parse(JSON.stringify(tracker.snapshot())));
+    const action = { tick, position: { ...target.position }, type: target.type, targetId: target.id };
+
+    expect(restored.validateAction(action).isValid).toBe(true);
+    expect(tracker.validateAction(action).isValid).toBe(true);
+    expect(restored.getGameState()).toEqual(tracker.getGameState());
+  });
+
+  it('should reject a second tap on the same target', () => {
+    const { tick, target } = firstVisibleObject();
+    const tracker = new TrajectoryTracker(SEED);
+    const action = { tick, position: { ...target.position }, type: target.type, targetId: target.id };
+
+    expect(tracker.validateAction(action).isValid).toBe(true);
+    const repeat = tracker.validateAction(action);
+
+    expect(repeat.isValid).toBe(false);
+    expect(repeat.severity).toBe('high');
+  });
+
+  it('should report what an accepted tap actually hit where objects overlap', () => {
+    const { tick, target, hit } = firstCoveredObject();
+    const tracker = new TrajectoryTracker(SEED);
+
+    const result = tracker.validateAction({ tick, position: { ...target.position }, type: target.type, targetId: target.id });
+
+    expect(result.isValid).toBe(true);
+    expect(tracker.getLastApplied()).toEqual({ type: hit.type, targetId: hit.id });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for scripted wave events
+ */
+
+import { WAVE_CONFIG, WAVE_EVENTS, advanceWaves, createWaveState, getLevelWave, getWaveBonus } from '../wave-events';
+import { GAME_MODES } from '../game-modes';
+import { createSimulationState, stepSimulation, applySimulationTap, msToTicks } from '../simulation';
+import { verifyTapReplay } from '../replay-verification';
+
+const ALL = GAME_MODES.classic.waveEvents;
+const never = () => 1;
+
+describe('Wave Events', () => {
+  it('should script a wave per difficulty level', () => {
+    expect(getLevelWave(0, ALL)).toBeNull();
+    expect(getLevelWave(1, ALL)).toBe('glitch-storm');
+    expect(getLevelWave(2, ALL)).toBe('bomb-rain');
+    expect(getLevelWave(4, ALL)).toBe('glitch-storm');
+    expect(getLevelWave(2, GAME_MODES.zen.waveEvents)).toBeNull();
+  });
+
+  it('should start on level-up and pay the bonus when survived', () => {
+    let { waves } = advanceWaves(createWaveState(), 1800, 1, 5, ALL, never);
+    expect(waves.active).toMatchObject({ id: 'glitch-storm', startTick: 1800, livesAtStart: 5 });
+
+    const endTick = waves.active!.endTick;
+    ({ waves } = advanceWaves(waves, endTick - 1, 1, 5, ALL, never));
+    expect(waves.active).not.toBeNull();
+
+    const update = advanceWaves(waves, endTick, 1, 5, ALL, never);
+    expect(update.finished).toMatchObject({ id: 'glitch-storm', survived: true, bonus: WAVE_EVENTS['glitch-storm'].survivalBonus });
+    expect(update.waves.active).toBeNull();
+    expect(getWaveBonus(update.waves.history)).toBe(250);
+  });
+
+  it('should withhold the bonus after a lost life', () => {
+    const { waves } = advanceWaves(createWaveState(), 1800, 1, 5, ALL, never);
+    const update = advanceWaves(waves, waves.active!.endTick, 1, 4, ALL, never);
+
+    expect(update.finished).toMatchObject({ survived: false, bonus: 0 });
+  });
+
+  it('should queue level-up waves through the cooldown', () => {
+    let { waves } = advanceWaves(createWaveState(), 1800, 1, 5, ALL, never);
+    const endTick = waves.active!.endTick;
+    ({ waves } = advanceWaves(waves, endTick, 2, 5, ALL, never));
+
+    expect(waves.active).toBeNull();
+    expect(waves.queued).toBe('bomb-rain');
+
+    ({ waves } = advanceWaves(waves, endTick + WAVE_CONFIG.COOLDOWN_TICKS, 2, 5, ALL, never));
+    expect(waves.active?.id).toBe('bomb-rain');
+  });
+
+  it('should only roll surprise waves on roll ticks', () => {
+    const rolls: number[] = [];
+    const roll = () => { rolls.push(0); return 0; };
+
+    advanceWaves(createWaveState(), WAVE_CONFIG.ROLL_INTERVAL_TICKS - 1, 0, 5, ALL, roll);
+    expect(rolls).toHaveLength(0);
+
+    const { waves } = advanceWaves(createWaveState(), WAVE_CONFIG.ROLL_INTERVAL_TICKS, 0, 5, ALL, roll);
+    expect(waves.active?.id).toBe(ALL[0]);
+  });
+
+  it('should override the spawn table while a wave runs', () => {
+    const state = createSimulationState(12, undefined, 'zen');
+    while (!state.waves.active) stepSimulation(state);
+    const wave = WAVE_EVENTS[state.waves.active.id];
+
+    const seen = new Set(state.objects.map(obj => obj.id));
+    const spawned = new Map<string, string>();
+    while (state.waves.active) {
+      stepSimulation(state);
+      state.objects.filter(obj => !seen.has(obj.id)).forEach(obj => spawned.set(obj.id, obj.type));
+    }
+
+    expect(spawned.size).toBeGreaterThan(0);
+    spawned.forEach(type => expect(wave.spawnTable[type as keyof typeof wave.spawnTable]).toBeGreaterThan(0));
+    expect(state.waves.history[0]).toMatchObject({ id: wave.id, survived: true });
+  });
+
+  it('should reproduce waves and their bonuses in replay', () => {
+    const state = createSimulationState(4);
+    while (state.tick < msToTicks(65000)) stepSimulation(state);
+
+    const position = { x: 400, y: 300 };
+    const outcome = applySimulationTap(state, position);
+    const tap = { timestamp: 65000, tick: outcome.tick, position, targetId: outcome.targetId, result: outcome.result };
+    const replay = verifyTapReplay(4, [tap], { sessionStartTime: 0 });
+
+    expect(state.waves.history.length).toBeGreaterThan(1);
+    expect(replay.isValid).toBe(true);
+    expect(replay.waves).toEqual(state.waves.history);
+    expect(replay.score).toBe(state.gameState.score);
+    expect(state.gameState.score).toBeGreaterThanOrEqual(getWaveBonus(state.waves.history));
+  });
+});
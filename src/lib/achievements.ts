@@ -0,0 +1,176 @@
+/**
+ * Achievement engine for MonadRush
+ * Rule definitions evaluated against the server's verified replay of a run
+ * (never client-reported stats), plus progress that carries across runs.
+ */
+
+import type { GameState } from './game-logic';
+import type { ReplayStats } from './replay-verification';
+import type { WaveRecord } from './wave-events';
+import { GameModeId, getGameMode } from './game-modes';
+import { CARD_DEFINITIONS } from './cards';
+
+// A verified run, as the finish route hands it to the engine
+export interface AchievementRun {
+  sessionId: string;
+  mode: GameModeId;
+  daily: boolean;
+  score: number;
+  stats: ReplayStats;
+  finalState: GameState;
+  waves: WaveRecord[];
+}
+
+// Per-wallet totals across all verified runs
+export interface AchievementProgress {
+  runs: number;
+  cardsPlayed: string[]; // Card ids played at least once, sorted
+}
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  // `progress` already includes the run being evaluated
+  isUnlocked(run: AchievementRun, progress: AchievementProgress): boolean;
+}
+
+// Display fields of a definition, safe to send to clients
+export type AchievementInfo = Omit<AchievementDefinition, 'isUnlocked'>;
+
+export interface AchievementUnlock {
+  id: string;
+  sessionId: string; // Run that unlocked it
+  unlockedAt: number;
+}
+
+export type UnlockedAchievement = AchievementInfo & AchievementUnlock;
+
+export const ACHIEVEMENT_CONFIG = {
+  STREAK_TARGET: 50,
+  SCORE_TARGET: 5000,
+  WAVES_TARGET: 3, // Survived in a single run
+} as const;
+
+/**
+ * Whether a run lasted until its clock ran out (timed modes only, lives left)
+ */
+export function isFullRun(run: AchievementRun): boolean {
+  return getGameMode(run.mode).duration !== null && run.finalState.timeLeft <= 0 && run.finalState.lives > 0;
+}
+
+export const ACHIEVEMENTS: readonly AchievementDefinition[] = [
+  {
+    id: 'first-run',
+    name: 'Verified',
+    description: 'Finish a server-verified run',
+    icon: '✅',
+    isUnlocked: (_, progress) => progress.runs >= 1,
+  },
+  {
+    id: 'streak-50',
+    name: 'Unbroken',
+    description: `Reach a ${ACHIEVEMENT_CONFIG.STREAK_TARGET}-tap streak`,
+    icon: '⚡',
+    isUnlocked: run => run.stats.longestStreak >= ACHIEVEMENT_CONFIG.STREAK_TARGET,
+  },
+  {
+    id: 'max-combo',
+    name: 'Overdrive',
+    description: 'Reach the 5.0x combo cap',
+    icon: '🔥',
+    isUnlocked: run => run.stats.maxCombo >= 5,
+  },
+  {
+    id: 'no-bombs',
+    name: 'Bomb Squad',
+    description: 'Play a full timed run without tapping a bomb',
+    icon: '💣',
+    isUnlocked: run => isFullRun(run) && run.stats.bombs === 0,
+  },
+  {
+    id: 'score-5000',
+    name: 'High Roller',
+    description: `Score ${ACHIEVEMENT_CONFIG.SCORE_TARGET.toLocaleString('en-US')} points in one run`,
+    icon: '🎯',
+    isUnlocked: run => run.score >= ACHIEVEMENT_CONFIG.SCORE_TARGET,
+  },
+  {
+    id: 'wave-survivor',
+    name: 'Storm Chaser',
+    description: `Survive ${ACHIEVEMENT_CONFIG.WAVES_TARGET} wave events in one run`,
+    icon: '🌊',
+    isUnlocked: run => run.waves.filter(wave => wave.survived).length >= ACHIEVEMENT_CONFIG.WAVES_TARGET,
+  },
+  {
+    id: 'full-deck',
+    name: 'Full Deck',
+    description: `Use all ${CARD_DEFINITIONS.length} magic cards`,
+    icon: '🃏',
+    isUnlocked: (_, progress) => CARD_DEFINITIONS.every(card => progress.cardsPlayed.includes(card.id)),
+  },
+  {
+    id: 'daily-run',
+    name: 'Daily Grinder',
+    description: 'Finish a daily challenge run',
+    icon: '🗓️',
+    isUnlocked: run => run.daily,
+  },
+];
+
+/**
+ * Look up an achievement by id
+ */
+export function getAchievement(id: string): AchievementDefinition | undefined {
+  return ACHIEVEMENTS.find(achievement => achievement.id === id);
+}
+
+/**
+ * Display fields of a definition
+ */
+export function toAchievementInfo({ id, name, description, icon }: AchievementDefinition): AchievementInfo {
+  return { id, name, description, icon };
+}
+
+/**
+ * Attach display fields to stored unlocks, dropping ids no longer defined
+ */
+export function describeUnlocks(unlocks: AchievementUnlock[]): UnlockedAchievement[] {
+  return unlocks.flatMap(unlock => {
+    const achievement = getAchievement(unlock.id);
+    return achievement ? [{ ...toAchievementInfo(achievement), ...unlock }] : [];
+  });
+}
+
+/**
+ * No runs recorded yet
+ */
+export function createAchievementProgress(): AchievementProgress {
+  return { runs: 0, cardsPlayed: [] };
+}
+
+/**
+ * Fold a verified run into a wallet's progress
+ */
+export function updateAchievementProgress(progress: AchievementProgress, run: AchievementRun): AchievementProgress {
+  const played = Object.keys(run.stats.cardsPlayed).filter(id => run.stats.cardsPlayed[id] > 0);
+  return {
+    runs: progress.runs + 1,
+    cardsPlayed: Array.from(new Set([...progress.cardsPlayed, ...played])).sort(),
+  };
+}
+
+/**
+ * Achievements this run unlocks that were not unlocked before
+ */
+export function evaluateAchievements(
+  run: AchievementRun,
+  progress: AchievementProgress,
+  unlockedIds: readonly string[],
+  definitions: readonly AchievementDefinition[] = ACHIEVEMENTS
+): AchievementDefinition[] {
+  return definitions.filter(achievement =>
+    !unlockedIds.includes(achievement.id) && achievement.isUnlocked(run, progress)
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Durable storage for buffered session actions
+ * Keeps unsent taps in localStorage so a dropped request or a reload never loses them
+ */
+
+import type { CanonicalGameState } from './state-codec';
+import type { TapAction } from './session';
+
+// An action waiting for server acknowledgement
+export interface QueuedAction {
+  action: TapAction;
+  state: CanonicalGameState | null; // Canonical state right after the action
+}
+
+export interface PersistedActionQueue {
+  sessionId: string;
+  nextSequence: number; // Sequence number for the next recorded action
+  stateHash: string | null; // Last server-confirmed hash chain head
+  inFlightCount: number; // Leading queue entries sent but not yet acknowledged
+  queue: QueuedAction[];
+}
+
+export interface ActionStore {
+  load(sessionId: string): PersistedActionQueue | null;
+  save(data: PersistedActionQueue): void;
+  clear(sessionId: string): void;
+}
+
+const STORAGE_PREFIX = 'monadrush:actions:';
+
+/**
+ * In-memory store, used where localStorage is unavailable (SSR, private mode)
+ */
+export function createMemoryActionStore(): ActionStore {
+  const queues = new Map<string, PersistedActionQueue>();
+
+  return {
+    load: sessionId => {
+      const data = queues.get(sessionId);
+      return data ? JSON.parse(JSON.stringify(data)) : null;
+    },
+    save: data => {
+      queues.set(data.sessionId, JSON.parse(JSON.stringify(data)));
+    },
+    clear: sessionId => {
+      queues.delete(sessionId);
+    },
+  };
+}
+
+/**
+ * localStorage-backed store; falls back to memory when storage is unavailable
+ */
+export function createActionStore(): ActionStore {
+  let storage: Storage;
+  try {
+    storage = window.localStorage;
+    storage.getItem(STORAGE_PREFIX); // Throws when storage is blocked
+  } catch {
+    return createMemoryActionStore();
+  }
+
+  return {
+    load: sessionId => {
+      try {
+        const raw = storage.getItem(STORAGE_PREFIX + sessionId);
+        return raw ? JSON.parse(raw) as PersistedActionQueue : null;
+      } catch (error) {
+        console.warn('Failed to load buffered actions:', error);
+        return null;
+      }
+    },
+    save: data => {
+      try {
+        storage.setItem(STORAGE_PREFIX + data.sessionId, JSON.stringify(data));
+      } catch (error) {
+        console.warn('Failed to persist buffered actions:', error);
+      }
+    },
+    clear: sessionId => {
+      storage.removeItem(STORAGE_PREFIX + sessionId);
+    },
+  };
+}
@@ -3,8 +3,11 @@
  * Server-side enforcement of game rules and constraints
  */
 
-import crypto from 'crypto';
 import { GameState } from './game-logic';
+import { SIMULATION_TICK_MS } from './simulation';
+import type { TrajectoryTracker } from './trajectory';
+import { PauseInterval, getPausedTime } from './game-clock';
+import { getCardDefinition } from './cards';
 
 // Anti-cheat constants
 export const ANTI_CHEAT_CONFIG = {
@@ -20,12 +23,19 @@ export const ANTI_CHEAT_CONFIG = {
     maxY: 600,
   },
   STATE_HASH_TOLERANCE: 10, // Allowed score difference for state hash validation
+  TICK_TIMING_TOLERANCE: 250, // Milliseconds game time may run ahead of wall time
+  ACTION_RATE_WINDOW: 1000, // Window for action rate checks in milliseconds
+  MAX_PAUSE_DURATION: 120000, // Total paused time credited to a session in milliseconds
+  MAX_PAUSES: 20, // Maximum pause intervals recorded per session
 } as const;
 
+export type RiskLevel = 'low' | 'medium' | 'high';
+
 export interface ValidationResult {
   isValid: boolean;
   reason?: string;
-  severity: 'low' | 'medium' | 'high';
+  severity: RiskLevel;
+  ruleId?: string; // Rule that produced the result, when run through a pipeline
 }
 
 /**
@@ -105,12 +115,12 @@ export function validateGameState(gameState: GameState): ValidationResult {
  */
 export function validateActionRate(
   actions: Array<{ timestamp: number }>,
-  timeWindow: number = 1000
+  timeWindow: number = ANTI_CHEAT_CONFIG.ACTION_RATE_WINDOW,
+  now: number = Date.now()
 ): ValidationResult {
   if (actions.length === 0) return { isValid: true, severity: 'low' };
   
   // Count actions in the last time window
-  const now = Date.now();
   const recentActions = actions.filter(action => 
     now - action.timestamp <= timeWindow
   );
@@ -129,15 +139,24 @@ export function validateActionRate(
 }
 
 /**
- * Validate session timing constraints
+ * Paused time credited to a session up to a moment, capped at MAX_PAUSE_DURATION
+ */
+export function getSessionPausedTime(pauses: PauseInterval[] | undefined, until: number): number {
+  return Math.min(getPausedTime(pauses ?? [], until), ANTI_CHEAT_CONFIG.MAX_PAUSE_DURATION);
+}
+
+/**
+ * Validate session timing constraints; paused time does not count towards the duration
  */
 export function validateSessionTiming(
   actionTimestamp: number,
-  sessionStartTime: number
+  sessionStartTime: number,
+  pausedTime: number = 0,
+  maxDuration: number = ANTI_CHEAT_CONFIG.MAX_GAME_DURATION
 ): ValidationResult {
-  const sessionDuration = actionTimestamp - sessionStartTime;
+  const sessionDuration = actionTimestamp - sessionStartTime - pausedTime;
   
-  if (sessionDuration < 0) {
+  if (actionTimestamp < sessionStartTime) {
     return {
       isValid: false,
       reason: `Action timestamp before session start`,
@@ -145,7 +164,7 @@ export function validateSessionTiming(
     };
   }
   
-  if (sessionDuration > ANTI_CHEAT_CONFIG.MAX_GAME_DURATION) {
+  if (sessionDuration > maxDuration) {
     return {
       isValid: false,
       reason: `Action after maximum game duration: ${sessionDuration}ms`,
@@ -157,22 +176,41 @@ export function validateSessionTiming(
 }
 
 /**
- * Generate deterministic state hash for verification
+ * Validate an action's simulation tick against wall-clock time and ordering
  */
-export function generateStateHash(gameState: GameState, actionCount: number): string {
-  const stateData = {
-    score: Math.round(gameState.score), // Round to avoid floating point differences
-    lives: gameState.lives,
-    combo: Math.round(gameState.combo * 100) / 100, // Round to 2 decimal places
-    streak: gameState.streak,
-    actionCount,
-  };
-  
-  return crypto
-    .createHash('sha256')
-    .update(JSON.stringify(stateData))
-    .digest('hex')
-    .substring(0, 16); // First 16 characters for brevity
+export function validateTickTiming(
+  tick: number,
+  actionTimestamp: number,
+  sessionStartTime: number,
+  previousTick?: number
+): ValidationResult {
+  if (!Number.isInteger(tick) || tick < 0) {
+    return {
+      isValid: false,
+      reason: `Invalid tick: ${tick}`,
+      severity: 'high'
+    };
+  }
+
+  // Game time can never run ahead of wall time since the session started
+  const wallElapsed = actionTimestamp - sessionStartTime;
+  if (tick * SIMULATION_TICK_MS > wallElapsed + ANTI_CHEAT_CONFIG.TICK_TIMING_TOLERANCE) {
+    return {
+      isValid: false,
+      reason: `Tick ${tick} is ahead of wall-clock time (${wallElapsed}ms elapsed)`,
+      severity: 'high'
+    };
+  }
+
+  if (previousTick !== undefined && tick < previousTick) {
+    return {
+      isValid: false,
+      reason: `Tick out of order: ${tick} after ${previousTick}`,
+      severity: 'high'
+    };
+  }
+
+  return { isValid: true, severity: 'low' };
 }
 
 /**
@@ -198,38 +236,169 @@ export function validateStateHash(
   return { isValid: true, severity: 'low' };
 }
 
+/**
+ * Action shape every validation rule receives
+ */
+export interface ValidatedAction {
+  timestamp: number;
+  tick?: number;
+  position: { x: number; y: number };
+  type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+  targetId?: string; // Card id for 'activate'
+}
+
+/**
+ * Session context shared by all rules for a single action
+ */
+export interface ValidationContext {
+  sessionStartTime: number;
+  previousAction?: { timestamp: number; tick?: number }; // Last accepted action
+  recentActions?: Array<{ timestamp: number }>;
+  gameState?: GameState;
+  trajectory?: TrajectoryTracker;
+  pauses?: PauseInterval[]; // Server-recorded pause intervals
+  maxDuration?: number; // Session time limit of the game mode (ms)
+}
+
+/**
+ * A single anti-cheat rule. Returns null when it does not apply.
+ */
+export interface ValidationRule {
+  id: string;
+  validate(action: ValidatedAction, context: ValidationContext): ValidationResult | null;
+}
+
+/**
+ * Ordered set of validation rules run against every action
+ */
+export class ValidationPipeline {
+  private rules: ValidationRule[] = [];
+
+  /**
+   * Register a rule (each rule id may only be registered once)
+   */
+  register(rule: ValidationRule): this {
+    if (this.rules.some(existing => existing.id === rule.id)) {
+      throw new Error(`Validation rule already registered: ${rule.id}`);
+    }
+    this.rules.push(rule);
+    return this;
+  }
+
+  /**
+   * Run rules in registration order, stopping at the first failure.
+   * Stateful rules (trajectory) only see actions every earlier rule accepted.
+   */
+  run(action: ValidatedAction, context: ValidationContext): ValidationResult[] {
+    const results: ValidationResult[] = [];
+
+    for (const rule of this.rules) {
+      const result = rule.validate(action, context);
+      if (!result) continue;
+
+      results.push({ ...result, ruleId: rule.id });
+      if (!result.isValid) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Get registered rule ids in order
+   */
+  getRuleIds(): string[] {
+    return this.rules.map(rule => rule.id);
+  }
+}
+
+/**
+ * Built-in rules, in the order they run
+ */
+export const ANTI_CHEAT_RULES: ValidationRule[] = [
+  {
+    id: 'tap-timing',
+    validate: (action, context) => context.previousAction
+      ? validateTapTiming(action.timestamp, context.previousAction.timestamp)
+      : null,
+  },
+  {
+    id: 'position-bounds',
+    validate: (action) => validateTapPosition(action.position),
+  },
+  {
+    id: 'session-timing',
+    validate: (action, context) => validateSessionTiming(
+      action.timestamp,
+      context.sessionStartTime,
+      getSessionPausedTime(context.pauses, action.timestamp),
+      context.maxDuration
+    ),
+  },
+  {
+    id: 'tick-timing',
+    validate: (action, context) => action.tick === undefined
+      ? null
+      : validateTickTiming(action.tick, action.timestamp, context.sessionStartTime, context.previousAction?.tick),
+  },
+  {
+    id: 'action-rate',
+    validate: (action, context) => validateActionRate(
+      [...(context.recentActions ?? []), action],
+      ANTI_CHEAT_CONFIG.ACTION_RATE_WINDOW,
+      action.timestamp
+    ),
+  },
+  {
+    id: 'game-state',
+    validate: (action, context) => context.gameState ? validateGameState(context.gameState) : null,
+  },
+  {
+    id: 'target-trajectory',
+    validate: (action, context) => context.trajectory ? context.trajectory.validateAction(action) : null,
+  },
+];
+
+// Rules whose failures mean a claimed target never matched the server simulation
+// (an honest client that has desynced, or a forged tap); they reject a whole batch
+export const BATCH_REJECTING_RULES: readonly string[] = ['target-trajectory'];
+
+/**
+ * Whether a result should reject the whole batch it arrived in, rather than just its action
+ */
+export function isBatchRejecting(result: ValidationResult): boolean {
+  return !result.isValid && result.ruleId !== undefined && BATCH_REJECTING_RULES.includes(result.ruleId);
+}
+
+/**
+ * Create a pipeline with the given rules registered
+ */
+export function createValidationPipeline(rules: ValidationRule[] = ANTI_CHEAT_RULES): ValidationPipeline {
+  const pipeline = new ValidationPipeline();
+  rules.forEach(rule => pipeline.register(rule));
+  return pipeline;
+}
+
+// Shared pipeline used by every route that accepts player actions
+export const actionValidationPipeline = createValidationPipeline();
+
 /**
  * Comprehensive action validation
  */
 export function validateAction(
-  action: {
-    timestamp: number;
-    position: { x: number; y: number };
-    type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
-  },
+  action: ValidatedAction,
   context: {
     lastActionTimestamp: number;
     sessionStartTime: number;
     gameState: GameState;
   }
 ): ValidationResult {
-  // Validate timing
-  const timingResult = validateTapTiming(action.timestamp, context.lastActionTimestamp);
-  if (!timingResult.isValid) return timingResult;
-  
-  // Validate position
-  const positionResult = validateTapPosition(action.position);
-  if (!positionResult.isValid) return positionResult;
-  
-  // Validate session timing
-  const sessionResult = validateSessionTiming(action.timestamp, context.sessionStartTime);
-  if (!sessionResult.isValid) return sessionResult;
-  
-  // Validate game state
-  const stateResult = validateGameState(context.gameState);
-  if (!stateResult.isValid) return stateResult;
-  
-  return { isValid: true, severity: 'low' };
+  const results = actionValidationPipeline.run(action, {
+    sessionStartTime: context.sessionStartTime,
+    previousAction: { timestamp: context.lastActionTimestamp },
+    gameState: context.gameState,
+  });
+
+  return results.find(result => !result.isValid) ?? { isValid: true, severity: 'low' };
 }
 
 /**
@@ -241,19 +410,7 @@ export function enforceCardDuration(
   activationTime: number,
   currentTime: number
 ): boolean {
-  const durations: Record<string, number> = {
-    'time-freeze': 5000,
-    'slow-motion': 7000,
-    'golden-monad': 0, // Instant effect
-    'extra-time': 0, // Instant effect
-    'logo-highlight': 5000,
-    'bomb-trap': 0, // Instant effect
-    'shrink-ray': 4000,
-    'monad-swarm': 3000,
-    'glitch-purge': 0, // Instant effect
-  };
-  
-  const maxDuration = durations[cardType] || 0;
+  const maxDuration = getCardDefinition(cardType)?.duration ?? 0;
   return (currentTime - activationTime) <= maxDuration + 100; // 100ms tolerance
 }
 
@@ -261,7 +418,7 @@ export function enforceCardDuration(
  * Risk assessment based on validation results
  */
 export function assessRisk(validationResults: ValidationResult[]): {
-  riskLevel: 'low' | 'medium' | 'high';
+  riskLevel: RiskLevel;
   shouldReject: boolean;
   reasons: string[];
 } {
@@ -269,7 +426,7 @@ export function assessRisk(validationResults: ValidationResult[]): {
   const highSeverity = failedValidations.filter(result => result.severity === 'high');
   const mediumSeverity = failedValidations.filter(result => result.severity === 'medium');
   
-  let riskLevel: 'low' | 'medium' | 'high' = 'low';
+  let riskLevel: RiskLevel = 'low';
   let shouldReject = false;
   
   if (highSeverity.length > 0) {
@@ -289,3 +446,11 @@ export function assessRisk(validationResults: ValidationResult[]): {
     reasons: failedValidations.map(result => result.reason || 'Unknown validation error'),
   };
 }
+
+/**
+ * Return the more severe of two risk levels
+ */
+export function maxRiskLevel(a: RiskLevel, b: RiskLevel): RiskLevel {
+  const order: Record<RiskLevel, number> = { low: 0, medium: 1, high: 2 };
+  return order[a] >= order[b] ? a : b;
+}
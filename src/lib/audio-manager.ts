@@ -4,6 +4,7 @@
  */
 
 import { Howl, Howler } from 'howler';
+import type { WaveEventId } from './wave-events';
 
 interface SoundEffect {
   id: string;
@@ -422,6 +423,16 @@ export const playSound = {
   powerUp: () => audioManager.play('power_up'),
   gameStart: () => audioManager.play('game_start'),
   gameOver: () => audioManager.play('game_over'),
+  waveStart: (waveId: WaveEventId) => {
+    // Each wave gets its own two-note alarm built from the existing cues
+    const cues: Record<WaveEventId, string[]> = {
+      'glitch-storm': ['time_warning', 'glitch_hit'],
+      'bomb-rain': ['time_warning', 'bomb_explode'],
+      'golden-rush': ['power_up', 'gift_open'],
+    };
+    audioManager.playSequence(cues[waveId], 200);
+  },
+  waveSurvived: () => audioManager.playSequence(['combo_milestone', 'power_up'], 150),
 };
 
 // Convenience functions for music control
@@ -0,0 +1,346 @@
+/**
+ * Headless balance simulator for MonadRush
+ * Plays the deterministic simulation with scripted bots over many seeds and
+ * aggregates score, death and card statistics for tuning GAME_CONFIG and spawn odds
+ */
+
+import { GameState } from './game-logic';
+import { GameObject, Vector2 } from './physics';
+import { GameRNG } from './rng';
+import {
+  SIMULATION_TICK_MS,
+  SimulationConfig,
+  DEFAULT_SIMULATION_CONFIG,
+  createSimulationState,
+  applySimulationTap,
+  stepSimulation,
+  isSimulationOver,
+  msToTicks,
+} from './simulation';
+import { ANTI_CHEAT_CONFIG } from './anti-cheat';
+import { DEFAULT_GAME_MODE, GameModeId } from './game-modes';
+
+// What a bot can see at the start of a tick
+export interface BotView {
+  tick: number;
+  timeMs: number; // Game time of this tick
+  gameState: GameState;
+  objects: readonly GameObject[];
+}
+
+/**
+ * A scripted player. Returns where to tap this tick, or null to wait.
+ */
+export interface BotStrategy {
+  name: string;
+  nextTap(view: BotView): Vector2 | null;
+}
+
+// Bots get their own RNG so their choices never disturb the spawn stream
+export type BotFactory = (rng: GameRNG) => BotStrategy;
+
+export type DeathCause = 'time' | 'lives';
+
+export interface RunResult {
+  seed: number;
+  score: number;
+  deathCause: DeathCause;
+  elapsedMs: number; // Game time when the run ended
+  levelReached: number;
+  taps: Record<'logo' | 'glitch' | 'gift' | 'bomb' | 'miss', number>;
+  cards: Record<string, number>; // Magic cards collected by type
+}
+
+export interface Distribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  stdDev: number;
+}
+
+export interface LevelStats {
+  level: number;
+  runsReached: number;
+  deaths: number; // Runs that lost their last life at this level
+  meanTimeToDeathMs: number | null;
+}
+
+export interface CardImpact {
+  card: string;
+  runsCollected: number;
+  meanScoreWith: number | null;
+  meanScoreWithout: number | null;
+}
+
+export interface BalanceReport {
+  strategy: string;
+  runs: number;
+  score: Distribution;
+  survivalMs: Distribution;
+  deathCauses: Record<DeathCause, number>;
+  levels: LevelStats[];
+  cards: CardImpact[];
+}
+
+export interface BalanceOptions {
+  runs: number;
+  seedStart?: number;
+  config?: SimulationConfig;
+  mode?: GameModeId;
+}
+
+// Bots respect the same tap spacing the server enforces
+const MIN_TAP_TICKS = Math.ceil(ANTI_CHEAT_CONFIG.MIN_TAP_INTERVAL / SIMULATION_TICK_MS);
+
+// Upper bound on a run (extra-time cards can extend it past GAME_DURATION)
+const MAX_RUN_TICKS = msToTicks(10 * 60 * 1000);
+
+/**
+ * Visible, tappable objects ordered from the lowest on screen
+ */
+function visibleObjects(view: BotView, types: GameObject['type'][]): GameObject[] {
+  return view.objects
+    .filter(obj => obj.isActive && obj.position.y >= 0 && types.includes(obj.type))
+    .sort((a, b) => b.position.y - a.position.y);
+}
+
+/**
+ * Taps every gift and logo the moment it is on screen, never a hazard
+ */
+export function createPerfectBot(): BotStrategy {
+  return {
+    name: 'perfect',
+    nextTap: view => {
+      const [target] = [...visibleObjects(view, ['gift']), ...visibleObjects(view, ['logo'])];
+      return target ? { ...target.position } : null;
+    },
+  };
+}
+
+export interface HumanBotOptions {
+  reactionMs: number; // Mean delay before an object is noticed
+  reactionJitterMs: number;
+  aimErrorPx: number; // Max tap offset from the object's centre
+  mistakeRate: number; // Chance a noticed hazard is tapped as if it were a logo
+  minTapIntervalMs: number;
+}
+
+export const DEFAULT_HUMAN_BOT: HumanBotOptions = {
+  reactionMs: 300,
+  reactionJitterMs: 100,
+  aimErrorPx: 14,
+  mistakeRate: 0.05,
+  minTapIntervalMs: 200,
+};
+
+/**
+ * Reacts after a human-like delay, aims imprecisely and sometimes taps hazards
+ */
+export function createHumanBot(rng: GameRNG, options: HumanBotOptions = DEFAULT_HUMAN_BOT): BotStrategy {
+  const noticedAt = new Map<string, number>(); // Object id -> time it can be reacted to
+  const mistaken = new Set<string>(); // Hazards this bot has mistaken for logos
+  let lastTapMs = -Infinity;
+
+  return {
+    name: 'human',
+    nextTap: view => {
+      const visible = visibleObjects(view, ['gift', 'logo', 'glitch', 'bomb']);
+      const visibleIds = new Set(visible.map(obj => obj.id));
+      noticedAt.forEach((_, id) => {
+        if (!visibleIds.has(id)) noticedAt.delete(id);
+      });
+
+      visible.forEach(obj => {
+        if (noticedAt.has(obj.id)) return;
+        const jitter = (rng.nextFloat() * 2 - 1) * options.reactionJitterMs;
+        noticedAt.set(obj.id, view.timeMs + Math.max(0, options.reactionMs + jitter));
+        if ((obj.type === 'glitch' || obj.type === 'bomb') && rng.nextFloat() < options.mistakeRate) {
+          mistaken.add(obj.id);
+        }
+      });
+
+      if (view.timeMs - lastTapMs < options.minTapIntervalMs) return null;
+
+      const target = visible.find(obj =>
+        noticedAt.get(obj.id)! <= view.timeMs &&
+        (obj.type === 'gift' || obj.type === 'logo' || mistaken.has(obj.id))
+      );
+      if (!target) return null;
+
+      lastTapMs = view.timeMs;
+      return {
+        x: target.position.x + (rng.nextFloat() * 2 - 1) * options.aimErrorPx,
+        y: target.position.y + (rng.nextFloat() * 2 - 1) * options.aimErrorPx,
+      };
+    },
+  };
+}
+
+/**
+ * Taps random screen positions at a roughly fixed rate
+ */
+export function createRandomBot(
+  rng: GameRNG,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG,
+  intervalMs: number = 400
+): BotStrategy {
+  let nextTapMs = 0;
+
+  return {
+    name: 'random',
+    nextTap: view => {
+      if (view.timeMs < nextTapMs) return null;
+
+      nextTapMs = view.timeMs + intervalMs * (0.5 + rng.nextFloat());
+      return {
+        x: rng.nextFloat() * config.screenWidth,
+        y: rng.nextFloat() * config.screenHeight,
+      };
+    },
+  };
+}
+
+export const BOT_STRATEGIES: Record<string, BotFactory> = {
+  perfect: () => createPerfectBot(),
+  human: rng => createHumanBot(rng),
+  random: rng => createRandomBot(rng),
+};
+
+/**
+ * Play one full run with a bot
+ */
+export function runBotGame(
+  seed: number,
+  createBot: BotFactory,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG,
+  mode: GameModeId = DEFAULT_GAME_MODE
+): RunResult {
+  const state = createSimulationState(seed, config, mode);
+  const bot = createBot(new GameRNG(seed ^ 0x5bd1e995));
+  const taps: RunResult['taps'] = { logo: 0, glitch: 0, gift: 0, bomb: 0, miss: 0 };
+  const cards: Record<string, number> = {};
+  let lastTapTick = -MIN_TAP_TICKS;
+
+  while (!isSimulationOver(state) && state.tick < MAX_RUN_TICKS) {
+    if (state.tick - lastTapTick >= MIN_TAP_TICKS) {
+      const position = bot.nextTap({
+        tick: state.tick,
+        timeMs: state.gameState.elapsedTime,
+        gameState: state.gameState,
+        objects: state.objects,
+      });
+
+      if (position) {
+        const outcome = applySimulationTap(state, position, config);
+        taps[outcome.result]++;
+        if (outcome.cardType) {
+          cards[outcome.cardType] = (cards[outcome.cardType] ?? 0) + 1;
+        }
+        lastTapTick = state.tick;
+        if (isSimulationOver(state)) break;
+      }
+    }
+
+    stepSimulation(state, config);
+  }
+
+  return {
+    seed,
+    score: state.gameState.score,
+    deathCause: state.gameState.lives <= 0 ? 'lives' : 'time',
+    elapsedMs: state.gameState.elapsedTime,
+    levelReached: state.gameState.difficulty.level,
+    taps,
+    cards,
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Summarize a list of values
+ */
+export function distribution(values: number[]): Distribution {
+  if (values.length === 0) {
+    return { min: 0, max: 0, mean: 0, median: 0, p10: 0, p90: 0, stdDev: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  const average = mean(sorted);
+
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: average,
+    median: percentile(0.5),
+    p10: percentile(0.1),
+    p90: percentile(0.9),
+    stdDev: Math.sqrt(mean(sorted.map(value => (value - average) ** 2))),
+  };
+}
+
+/**
+ * Aggregate run results into a balance report
+ */
+export function summarizeRuns(strategy: string, results: RunResult[]): BalanceReport {
+  const maxLevel = results.reduce((max, run) => Math.max(max, run.levelReached), 0);
+
+  const levels: LevelStats[] = Array.from({ length: maxLevel + 1 }, (_, level) => {
+    const deaths = results.filter(run => run.deathCause === 'lives' && run.levelReached === level);
+    return {
+      level,
+      runsReached: results.filter(run => run.levelReached >= level).length,
+      deaths: deaths.length,
+      meanTimeToDeathMs: deaths.length > 0 ? mean(deaths.map(run => run.elapsedMs)) : null,
+    };
+  });
+
+  const cardTypes = Array.from(new Set(results.flatMap(run => Object.keys(run.cards)))).sort();
+  const cards: CardImpact[] = cardTypes.map(card => {
+    const withCard = results.filter(run => run.cards[card]);
+    const withoutCard = results.filter(run => !run.cards[card]);
+    return {
+      card,
+      runsCollected: withCard.length,
+      meanScoreWith: withCard.length > 0 ? mean(withCard.map(run => run.score)) : null,
+      meanScoreWithout: withoutCard.length > 0 ? mean(withoutCard.map(run => run.score)) : null,
+    };
+  });
+
+  return {
+    strategy,
+    runs: results.length,
+    score: distribution(results.map(run => run.score)),
+    survivalMs: distribution(results.map(run => run.elapsedMs)),
+    deathCauses: {
+      time: results.filter(run => run.deathCause === 'time').length,
+      lives: results.filter(run => run.deathCause === 'lives').length,
+    },
+    levels,
+    cards,
+  };
+}
+
+/**
+ * Run a strategy over consecutive seeds and report the aggregate
+ */
+export function runBalanceSimulation(
+  strategy: string,
+  createBot: BotFactory,
+  options: BalanceOptions
+): BalanceReport {
+  const seedStart = options.seedStart ?? 1;
+  const results: RunResult[] = [];
+
+  for (let i = 0; i < options.runs; i++) {
+    results.push(runBotGame(seedStart + i, createBot, options.config, options.mode));
+  }
+
+  return summarizeRuns(strategy, results);
+}
@@ -0,0 +1,211 @@
+/**
+ * Magic card registry for MonadRush
+ * Single source of truth for every card: spawn weight, duration, presentation
+ * and what it does to the game state. Shared by client simulation and server replay.
+ */
+
+import type { ActiveEffect, GameState, TapResult } from './game-logic';
+import { GameObject, Vector2, applySizeModifier, createAABB, purgeGlitches } from './physics';
+
+export type CardCategory = 'helpful' | 'chaotic' | 'wild';
+
+// Live simulation state a card hook may change
+export interface CardContext {
+  gameState: GameState;
+  objects: GameObject[];
+  objectSize: Vector2; // Unscaled object size
+}
+
+export type CardHook = (context: CardContext, effect: ActiveEffect) => CardContext;
+
+export interface CardDefinition {
+  id: string;
+  name: string; // Display name
+  description: string;
+  category: CardCategory;
+  color: string; // Tailwind text colour class
+  weight: number; // Relative chance of a gift box holding this card
+  duration: number; // Effect duration in ms (0 = instant)
+  charges?: number; // Uses before the effect is consumed (kept until used)
+  consumedBy?: Array<TapResult['type']>; // Tap results that spend one charge
+  value?: number; // Card-specific magnitude
+  apply?: (state: GameState, effect: ActiveEffect) => GameState; // On activation
+  expire?: (state: GameState, effect: ActiveEffect) => GameState; // When the duration runs out
+  onActivate?: CardHook; // Acts on the live objects when the card is collected
+  onTick?: CardHook; // Runs every simulation tick while the effect is active
+  onExpire?: CardHook; // Acts on the live objects when the duration runs out
+}
+
+/**
+ * Default activation: start the effect, replacing a running one of the same type
+ */
+export function addActiveEffect(state: GameState, effect: ActiveEffect): GameState {
+  if (effect.duration <= 0 && !effect.charges) return state;
+
+  return {
+    ...state,
+    activeEffects: [...state.activeEffects.filter(e => e.type !== effect.type), effect],
+  };
+}
+
+// Order matters: weighted picks walk this list, so append new cards at the end
+export const CARD_DEFINITIONS: readonly CardDefinition[] = [
+  {
+    id: 'time-freeze',
+    name: 'Time Freeze',
+    description: 'Stops all falling objects for 5 seconds (timer continues)',
+    category: 'helpful',
+    color: 'text-electric-cyan',
+    weight: 1,
+    duration: 5000,
+  },
+  {
+    id: 'slow-motion',
+    name: 'Slow Motion',
+    description: 'Halves falling speed for 7 seconds',
+    category: 'helpful',
+    color: 'text-purple-accent',
+    weight: 1,
+    duration: 7000,
+    value: 0.5,
+  },
+  {
+    id: 'golden-monad',
+    name: 'Golden Monad',
+    description: 'The next Monad Logo tapped is worth triple points',
+    category: 'helpful',
+    color: 'text-yellow-400',
+    weight: 1,
+    duration: 0,
+    charges: 1,
+    consumedBy: ['logo'],
+  },
+  {
+    id: 'extra-time',
+    name: 'Extra Time',
+    description: 'Adds +10 seconds to the countdown timer',
+    category: 'helpful',
+    color: 'text-success-lime',
+    weight: 1,
+    duration: 0,
+    value: 10,
+    apply: (state, effect) => ({ ...state, timeLeft: state.timeLeft + (effect.value ?? 0) }),
+  },
+  {
+    id: 'logo-highlight',
+    name: 'Logo Highlight',
+    description: 'Real Monad logos glow/pulse for 5s; glitches stay normal',
+    category: 'helpful',
+    color: 'text-electric-cyan',
+    weight: 1,
+    duration: 5000,
+  },
+  {
+    id: 'bomb-trap',
+    name: 'Bomb Trap',
+    description: 'If tapped: -20 points penalty',
+    category: 'chaotic',
+    color: 'text-danger',
+    weight: 1,
+    duration: 0,
+    value: -20,
+    apply: (state, effect) => ({ ...state, score: Math.max(0, state.score + (effect.value ?? 0)) }),
+  },
+  {
+    id: 'shrink-ray',
+    name: 'Shrink Ray',
+    description: 'For 4 seconds, all falling objects become tiny, testing precision',
+    category: 'chaotic',
+    color: 'text-purple-accent',
+    weight: 1,
+    duration: 4000,
+    value: 0.5,
+    // Shrinks each object once, keeping the size it grows back to
+    onTick: (context, effect) => ({
+      ...context,
+      objects: context.objects.map(obj => obj.unscaledSize
+        ? obj
+        : { ...applySizeModifier(obj, effect.value ?? 1), unscaledSize: { ...obj.size } }),
+    }),
+    onExpire: context => ({
+      ...context,
+      objects: context.objects.map(obj => obj.unscaledSize
+        ? { ...obj, size: obj.unscaledSize, hitbox: createAABB(obj.position, obj.unscaledSize), unscaledSize: undefined }
+        : obj),
+    }),
+  },
+  {
+    id: 'monad-swarm',
+    name: 'Monad Swarm',
+    description: 'Spawns a dense wave of Monad Logos for 3 seconds - huge scoring opportunity!',
+    category: 'wild',
+    color: 'text-success-lime',
+    weight: 1,
+    duration: 3000,
+  },
+  {
+    id: 'glitch-purge',
+    name: 'Glitch Purge',
+    description: 'Instantly destroys all visible Glitches, awarding +5 bonus points each',
+    category: 'wild',
+    color: 'text-electric-cyan',
+    weight: 1,
+    duration: 0,
+    value: 5,
+    onActivate: (context, effect) => {
+      const { remainingObjects, glitchCount } = purgeGlitches(context.objects);
+      return {
+        ...context,
+        objects: remainingObjects,
+        gameState: { ...context.gameState, score: context.gameState.score + glitchCount * (effect.value ?? 0) },
+      };
+    },
+  },
+];
+
+export const CARD_REGISTRY: Readonly<Record<string, CardDefinition>> = Object.fromEntries(
+  CARD_DEFINITIONS.map(card => [card.id, card])
+);
+
+// Played when a gift holds an unknown card id
+export const FALLBACK_CARD_ID = 'time-freeze';
+
+/**
+ * Look up a card by id
+ */
+export function getCardDefinition(cardId: string): CardDefinition | undefined {
+  return CARD_REGISTRY[cardId];
+}
+
+/**
+ * Display name for a card id (falls back to the id itself)
+ */
+export function getCardName(cardId: string): string {
+  return getCardDefinition(cardId)?.name ?? cardId;
+}
+
+// Slots in the optional card inventory; a gift collected with every slot full plays at once
+export const CARD_INVENTORY_SLOTS = 3;
+
+/**
+ * Whether a card goes into the inventory instead of playing on pickup (helpful cards only)
+ */
+export function isStorableCard(cardId: string): boolean {
+  return getCardDefinition(cardId)?.category === 'helpful';
+}
+
+/**
+ * Pick a card by weight from a uniform roll in [0, 1), optionally skipping excluded cards
+ */
+export function pickCard(roll: number, excluded: readonly string[] = []): CardDefinition {
+  const pool = CARD_DEFINITIONS.filter(card => !excluded.includes(card.id));
+  const totalWeight = pool.reduce((sum, card) => sum + card.weight, 0);
+  let target = roll * totalWeight;
+
+  for (const card of pool) {
+    if (target < card.weight) return card;
+    target -= card.weight;
+  }
+
+  return pool[pool.length - 1] ?? getCardDefinition(FALLBACK_CARD_ID)!;
+}
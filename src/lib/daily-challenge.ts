@@ -0,0 +1,71 @@
+/**
+ * Daily challenge rules for MonadRush
+ * Every player gets the same server-derived seed for the UTC day and a
+ * limited number of ranked attempts at it
+ */
+
+import { deriveSessionSeed } from './rng';
+import type { GameModeId } from './game-modes';
+
+export const DAILY_CHALLENGE_CONFIG = {
+  MODE: 'classic' as GameModeId, // Ruleset every daily run is played under
+  MAX_ATTEMPTS: 3, // Ranked attempts per player per UTC day
+  ARCHIVE_TOP: 10, // Entries kept when a finished day is archived
+  ARCHIVE_DAYS: 30, // Past days listed in the archive
+  LEADERBOARD_TTL: 8 * 24 * 60 * 60, // Seconds a day's live leaderboard is kept in KV
+} as const;
+
+// A player's result for a day, reported when a daily run finishes
+export interface DailyStanding {
+  day: string;
+  rank: number | null; // Null until the player has a verified run that day
+  bestScore: number | null;
+  attemptsLeft: number;
+}
+
+// Server-only secret so upcoming days' seeds cannot be computed in advance
+const DAILY_SEED_SECRET = process.env.DAILY_SEED_SECRET ?? '';
+
+/**
+ * UTC day key (YYYY-MM-DD) for a moment
+ */
+export function getDailyKey(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+/**
+ * Day key of the UTC day before a given one
+ */
+export function getPreviousDailyKey(day: string): string {
+  return getDailyKey(Date.parse(`${day}T00:00:00Z`) - 1);
+}
+
+/**
+ * Check that a value is a YYYY-MM-DD day key
+ */
+export function isDailyKey(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && getDailyKey(Date.parse(`${value}T00:00:00Z`)) === value;
+}
+
+/**
+ * Shared seed for a day's challenge (32-bit positive integer, like session seeds)
+ */
+export function deriveDailySeed(day: string, secret: string = DAILY_SEED_SECRET): number {
+  const seed = deriveSessionSeed(`daily:${day}:${secret}`, 0x9e3779b9) & 0x7fffffff;
+  return seed === 0 ? 1 : seed;
+}
+
+/**
+ * Ranked attempts a player has left after using some
+ */
+export function getAttemptsLeft(attemptsUsed: number): number {
+  return Math.max(0, DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS - attemptsUsed);
+}
+
+/**
+ * Simulation seed for a session. Daily runs use the shared seed as-is so every
+ * player faces the same spawn stream; other sessions mix in their id.
+ */
+export function getSimulationSeed(sessionId: string, seed: number, daily?: string): number {
+  return daily ? seed : deriveSessionSeed(sessionId, seed);
+}
@@ -0,0 +1,264 @@
+/**
+ * Difficulty curves and the adaptive difficulty director for MonadRush
+ * Curves map elapsed time to fall speed and spawn rate; the director nudges
+ * spawn rate and hazard mix from how the player is doing. Both are pure and
+ * tick-driven so the server replay reproduces every decision exactly.
+ */
+
+import type { GameState } from './game-logic';
+import type { SpawnTable } from './game-modes';
+
+export type DifficultyCurveId = 'step' | 'linear' | 'exponential' | 'plateau';
+
+export interface DifficultyCurve {
+  id: DifficultyCurveId;
+  evaluate(elapsedSeconds: number): GameState['difficulty'];
+}
+
+// One row of a data-table curve: values hold from `at` seconds until the next row
+export interface DifficultyTableRow {
+  at: number;
+  fallSpeed: number;
+  spawnRate: number;
+}
+
+export const DIFFICULTY_BASE = {
+  FALL_SPEED: 100, // pixels per second
+  SPAWN_RATE: 1.5, // objects per second
+  RAMP_INTERVAL: 30, // seconds per difficulty level
+  SPEED_INCREASE_FACTOR: 1.3, // per level
+  SPAWN_INCREASE_FACTOR: 1.2, // per level
+} as const;
+
+/**
+ * Fixed steps: speed and spawn rate jump by a factor every ramp interval
+ */
+export function createStepCurve(
+  interval: number = DIFFICULTY_BASE.RAMP_INTERVAL,
+  speedFactor: number = DIFFICULTY_BASE.SPEED_INCREASE_FACTOR,
+  spawnFactor: number = DIFFICULTY_BASE.SPAWN_INCREASE_FACTOR
+): DifficultyCurve {
+  return {
+    id: 'step',
+    evaluate(elapsedSeconds) {
+      const level = Math.floor(elapsedSeconds / interval);
+      return {
+        level,
+        fallSpeed: DIFFICULTY_BASE.FALL_SPEED * Math.pow(speedFactor, level),
+        spawnRate: DIFFICULTY_BASE.SPAWN_RATE * Math.pow(spawnFactor, level),
+      };
+    },
+  };
+}
+
+/**
+ * Smooth linear ramp; slopes are fractions of the base value gained per second
+ */
+export function createLinearCurve(
+  speedSlope: number = 0.01,
+  spawnSlope: number = 0.2 / 30,
+  interval: number = DIFFICULTY_BASE.RAMP_INTERVAL
+): DifficultyCurve {
+  return {
+    id: 'linear',
+    evaluate(elapsedSeconds) {
+      return {
+        level: Math.floor(elapsedSeconds / interval),
+        fallSpeed: DIFFICULTY_BASE.FALL_SPEED * (1 + speedSlope * elapsedSeconds),
+        spawnRate: DIFFICULTY_BASE.SPAWN_RATE * (1 + spawnSlope * elapsedSeconds),
+      };
+    },
+  };
+}
+
+/**
+ * Continuous version of the step curve: the same factors, compounded every instant
+ */
+export function createExponentialCurve(
+  interval: number = DIFFICULTY_BASE.RAMP_INTERVAL,
+  speedFactor: number = DIFFICULTY_BASE.SPEED_INCREASE_FACTOR,
+  spawnFactor: number = DIFFICULTY_BASE.SPAWN_INCREASE_FACTOR
+): DifficultyCurve {
+  return {
+    id: 'exponential',
+    evaluate(elapsedSeconds) {
+      const progress = elapsedSeconds / interval;
+      return {
+        level: Math.floor(progress),
+        fallSpeed: DIFFICULTY_BASE.FALL_SPEED * Math.pow(speedFactor, progress),
+        spawnRate: DIFFICULTY_BASE.SPAWN_RATE * Math.pow(spawnFactor, progress),
+      };
+    },
+  };
+}
+
+/**
+ * Designer-tuned table; the level is the index of the row in effect
+ */
+export function createTableCurve(rows: DifficultyTableRow[], id: DifficultyCurveId = 'plateau'): DifficultyCurve {
+  if (rows.length === 0) {
+    throw new Error('Difficulty table needs at least one row');
+  }
+  const sorted = [...rows].sort((a, b) => a.at - b.at);
+
+  return {
+    id,
+    evaluate(elapsedSeconds) {
+      let level = 0;
+      while (level + 1 < sorted.length && sorted[level + 1].at <= elapsedSeconds) {
+        level++;
+      }
+      return { level, fallSpeed: sorted[level].fallSpeed, spawnRate: sorted[level].spawnRate };
+    },
+  };
+}
+
+export const DIFFICULTY_CURVES: Readonly<Record<DifficultyCurveId, DifficultyCurve>> = {
+  step: createStepCurve(),
+  linear: createLinearCurve(),
+  exponential: createExponentialCurve(),
+  // Ramps gently for a minute and a half, then holds
+  plateau: createTableCurve([
+    { at: 0, fallSpeed: 100, spawnRate: 1.5 },
+    { at: 30, fallSpeed: 115, spawnRate: 1.65 },
+    { at: 60, fallSpeed: 130, spawnRate: 1.8 },
+    { at: 90, fallSpeed: 140, spawnRate: 1.9 },
+  ]),
+};
+
+export const DEFAULT_DIFFICULTY_CURVE: DifficultyCurveId = 'step';
+
+/**
+ * Look up a curve, falling back to the step curve
+ */
+export function getDifficultyCurve(id?: string): DifficultyCurve {
+  return id && Object.prototype.hasOwnProperty.call(DIFFICULTY_CURVES, id)
+    ? DIFFICULTY_CURVES[id as DifficultyCurveId]
+    : DIFFICULTY_CURVES[DEFAULT_DIFFICULTY_CURVE];
+}
+
+export const ADAPTIVE_DIRECTOR_CONFIG = {
+  DECISION_INTERVAL_TICKS: 300, // 5 seconds at 60 ticks per second
+  ACCURACY_WINDOW: 20, // Most recent taps accuracy is measured over
+  MIN_TAPS: 5, // Fewer taps than this in the window only eases off on lost lives
+  RAISE_ACCURACY: 0.85, // At or above (with no lives lost): ramp up
+  EASE_ACCURACY: 0.6, // Below this, or any life lost: ease off
+  SPAWN_STEP: 0.1,
+  MIN_SPAWN_MULTIPLIER: 0.7,
+  MAX_SPAWN_MULTIPLIER: 1.5,
+  HAZARD_STEP: 10, // Percent added to glitch and bomb weights per step
+  MIN_HAZARD_BIAS: -40,
+  MAX_HAZARD_BIAS: 40,
+} as const;
+
+export type DirectorAction = 'raise' | 'ease' | 'hold';
+
+// One logged director decision; the replayed log must match the client's exactly
+export interface DirectorDecision {
+  tick: number;
+  action: DirectorAction;
+  accuracy: number | null; // Over the rolling window, null when too few taps
+  livesLost: number; // Since the previous decision
+  spawnRateMultiplier: number;
+  hazardBias: number; // Percent
+}
+
+// JSON-safe director state, carried in simulation snapshots
+export interface DirectorState {
+  recentHits: boolean[]; // Rolling window of tap outcomes (true = logo or gift)
+  livesAtLastDecision: number;
+  spawnRateMultiplier: number;
+  hazardBias: number;
+  log: DirectorDecision[];
+}
+
+/**
+ * Fresh director for a run starting with the given lives
+ */
+export function createDirectorState(lives: number): DirectorState {
+  return {
+    recentHits: [],
+    livesAtLastDecision: lives,
+    spawnRateMultiplier: 1,
+    hazardBias: 0,
+    log: [],
+  };
+}
+
+/**
+ * Copy a director state (for snapshots)
+ */
+export function cloneDirectorState(director: DirectorState): DirectorState {
+  return {
+    ...director,
+    recentHits: [...director.recentHits],
+    log: director.log.map(decision => ({ ...decision })),
+  };
+}
+
+/**
+ * Add a tap outcome to the rolling accuracy window
+ */
+export function recordDirectorTap(director: DirectorState, result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss'): DirectorState {
+  const recentHits = [...director.recentHits, result === 'logo' || result === 'gift']
+    .slice(-ADAPTIVE_DIRECTOR_CONFIG.ACCURACY_WINDOW);
+  return { ...director, recentHits };
+}
+
+/**
+ * Whether the director makes a decision on this tick
+ */
+export function isDecisionTick(tick: number): boolean {
+  return tick > 0 && tick % ADAPTIVE_DIRECTOR_CONFIG.DECISION_INTERVAL_TICKS === 0;
+}
+
+/**
+ * Decide whether to ramp up, ease off or hold, and log the decision
+ */
+export function decideDifficulty(director: DirectorState, tick: number, lives: number): DirectorState {
+  const config = ADAPTIVE_DIRECTOR_CONFIG;
+  const livesLost = Math.max(0, director.livesAtLastDecision - lives);
+  const hits = director.recentHits.filter(Boolean).length;
+  const accuracy = director.recentHits.length >= config.MIN_TAPS
+    ? Math.round((hits / director.recentHits.length) * 100) / 100
+    : null;
+
+  let action: DirectorAction = 'hold';
+  if (livesLost > 0 || (accuracy !== null && accuracy < config.EASE_ACCURACY)) {
+    action = 'ease';
+  } else if (accuracy !== null && accuracy >= config.RAISE_ACCURACY) {
+    action = 'raise';
+  }
+
+  const direction = action === 'raise' ? 1 : action === 'ease' ? -1 : 0;
+  // Work in whole percent so logged values never carry float noise
+  const spawnPercent = Math.round(director.spawnRateMultiplier * 100) + direction * Math.round(config.SPAWN_STEP * 100);
+  const spawnRateMultiplier = clamp(spawnPercent / 100, config.MIN_SPAWN_MULTIPLIER, config.MAX_SPAWN_MULTIPLIER);
+  const hazardBias = clamp(director.hazardBias + direction * config.HAZARD_STEP, config.MIN_HAZARD_BIAS, config.MAX_HAZARD_BIAS);
+
+  return {
+    ...director,
+    livesAtLastDecision: lives,
+    spawnRateMultiplier,
+    hazardBias,
+    log: [...director.log, { tick, action, accuracy, livesLost, spawnRateMultiplier, hazardBias }],
+  };
+}
+
+/**
+ * Spawn table with glitch and bomb weights scaled by a hazard bias (percent)
+ */
+export function applyHazardBias(table: SpawnTable, hazardBias: number): SpawnTable {
+  if (hazardBias === 0) return table;
+
+  return {
+    logo: table.logo * 100,
+    glitch: table.glitch * (100 + hazardBias),
+    gift: table.gift * 100,
+    bomb: table.bomb * (100 + hazardBias),
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
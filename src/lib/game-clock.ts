@@ -0,0 +1,109 @@
+/**
+ * Pause-aware game clock for MonadRush
+ * Tracks game time separately from wall time; the time source can be injected for tests
+ */
+
+export type TimeSource = () => number;
+
+// A span of wall time during which the game was paused
+export interface PauseInterval {
+  start: number;
+  end?: number; // Open while the game is still paused
+}
+
+/**
+ * Sum the paused time in a list of intervals up to a wall-clock moment
+ */
+export function getPausedTime(pauses: PauseInterval[], until: number): number {
+  return pauses.reduce((total, pause) => {
+    const end = Math.min(pause.end ?? until, until);
+    return total + Math.max(0, end - pause.start);
+  }, 0);
+}
+
+/**
+ * Game clock: wall time minus every pause since the game started
+ */
+export class GameClock {
+  private source: TimeSource;
+  private startedAt: number | null = null;
+  private pauses: PauseInterval[] = [];
+  private listeners = new Set<(paused: boolean, at: number) => void>();
+
+  constructor(source: TimeSource = () => Date.now()) {
+    this.source = source;
+  }
+
+  /**
+   * Current wall-clock time
+   */
+  now(): number {
+    return this.source();
+  }
+
+  /**
+   * Start counting game time (from now by default), forgetting earlier pauses
+   */
+  start(startedAt: number = this.now()): void {
+    this.startedAt = startedAt;
+    this.pauses = [];
+  }
+
+  /**
+   * Pause game time. Returns false if not started or already paused.
+   */
+  pause(): boolean {
+    if (this.startedAt === null || this.isPaused()) return false;
+
+    const at = this.now();
+    this.pauses.push({ start: at });
+    this.listeners.forEach(listener => listener(true, at));
+    return true;
+  }
+
+  /**
+   * Resume game time. Returns false if not paused.
+   */
+  resume(): boolean {
+    if (!this.isPaused()) return false;
+
+    const at = this.now();
+    this.pauses[this.pauses.length - 1].end = at;
+    this.listeners.forEach(listener => listener(false, at));
+    return true;
+  }
+
+  isPaused(): boolean {
+    const last = this.pauses[this.pauses.length - 1];
+    return !!last && last.end === undefined;
+  }
+
+  /**
+   * Game time (ms) since start, excluding pauses
+   */
+  getGameTime(at: number = this.now()): number {
+    if (this.startedAt === null) return 0;
+    return at - this.startedAt - getPausedTime(this.pauses, at);
+  }
+
+  /**
+   * Total paused time (ms) since start
+   */
+  getPausedTime(at: number = this.now()): number {
+    return getPausedTime(this.pauses, at);
+  }
+
+  getPauseIntervals(): PauseInterval[] {
+    return this.pauses.map(pause => ({ ...pause }));
+  }
+
+  /**
+   * Subscribe to pause/resume; returns an unsubscribe function
+   */
+  onPauseChange(listener: (paused: boolean, at: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -3,25 +3,33 @@
  * All scoring, combo, and difficulty calculations
  */
 
+import { CARD_INVENTORY_SLOTS, FALLBACK_CARD_ID, addActiveEffect, getCardDefinition, isStorableCard } from './cards';
+import { DEFAULT_GAME_MODE, GAME_MODES, GameModeId, getGameMode, isModeOver } from './game-modes';
+import { DIFFICULTY_BASE, DifficultyCurve, getDifficultyCurve } from './difficulty';
+
 export interface GameState {
+  mode: GameModeId; // Ruleset this run is played under
   score: number;
   lives: number;
-  timeLeft: number; // seconds
+  timeLeft: number; // seconds (stays 0 in untimed modes)
   combo: number; // multiplier (1.0 to 5.0)
   streak: number; // consecutive correct taps
   gameStartTime: number;
+  elapsedTime: number; // simulated game time in ms
   difficulty: {
     level: number;
     fallSpeed: number;
     spawnRate: number; // objects per second
   };
   activeEffects: ActiveEffect[];
+  inventory?: string[]; // Held card ids, oldest first; only present in card inventory runs
 }
 
 export interface ActiveEffect {
   type: string;
   duration: number; // remaining time in ms
   value?: number;
+  charges?: number; // Remaining uses for charge-based cards
   startTime: number;
 }
 
@@ -32,34 +40,43 @@ export interface TapResult {
   newStreak: number;
   livesLost: number;
   effect?: ActiveEffect;
+  storedCard?: string; // Card put into the inventory instead of played
 }
 
 // Game constants
 export const GAME_CONFIG = {
-  INITIAL_LIVES: 5,
-  GAME_DURATION: 120, // seconds
+  INITIAL_LIVES: GAME_MODES.classic.lives,
+  GAME_DURATION: GAME_MODES.classic.duration!, // seconds
   BASE_POINTS: 10,
   MAX_COMBO: 5.0,
   COMBO_INCREMENT: 0.5,
   STREAK_FOR_COMBO: 5,
-  DIFFICULTY_RAMP_INTERVAL: 30, // seconds
-  BASE_FALL_SPEED: 100, // pixels per second
-  BASE_SPAWN_RATE: 1.5, // objects per second
-  SPEED_INCREASE_FACTOR: 1.3,
-  SPAWN_INCREASE_FACTOR: 1.2,
+  DIFFICULTY_RAMP_INTERVAL: DIFFICULTY_BASE.RAMP_INTERVAL, // seconds
+  BASE_FALL_SPEED: DIFFICULTY_BASE.FALL_SPEED, // pixels per second
+  BASE_SPAWN_RATE: DIFFICULTY_BASE.SPAWN_RATE, // objects per second
+  SPEED_INCREASE_FACTOR: DIFFICULTY_BASE.SPEED_INCREASE_FACTOR,
+  SPAWN_INCREASE_FACTOR: DIFFICULTY_BASE.SPAWN_INCREASE_FACTOR,
 } as const;
 
 /**
- * Initialize new game state
+ * Initialize new game state under a game mode's ruleset
  */
-export function createInitialGameState(): GameState {
-  return {
+export function createInitialGameState(
+  startTime: number = Date.now(),
+  modeId: GameModeId = DEFAULT_GAME_MODE,
+  cardInventory: boolean = false
+): GameState {
+  const mode = getGameMode(modeId);
+
+  const state: GameState = {
+    mode: mode.id,
     score: 0,
-    lives: GAME_CONFIG.INITIAL_LIVES,
-    timeLeft: GAME_CONFIG.GAME_DURATION,
+    lives: mode.lives,
+    timeLeft: mode.duration ?? 0,
     combo: 1.0,
     streak: 0,
-    gameStartTime: Date.now(),
+    gameStartTime: startTime,
+    elapsedTime: 0,
     difficulty: {
       level: 0,
       fallSpeed: GAME_CONFIG.BASE_FALL_SPEED,
@@ -67,6 +84,9 @@ export function createInitialGameState(): GameState {
     },
     activeEffects: [],
   };
+
+  if (cardInventory) state.inventory = [];
+  return state;
 }
 
 /**
@@ -122,7 +142,20 @@ export function processTap(
     }
 
     case 'gift': {
-      const effect = createMagicCardEffect(giftCardType || 'time-freeze');
+      const effect = createMagicCardEffect(giftCardType || 'time-freeze', state.elapsedTime);
+
+      // Inventory runs keep helpful cards for later while there is a free slot
+      if (state.inventory && state.inventory.length < CARD_INVENTORY_SLOTS && isStorableCard(effect.type)) {
+        return {
+          type: 'gift',
+          points: 0,
+          newCombo: state.combo,
+          newStreak: state.streak,
+          livesLost: 0,
+          storedCard: effect.type,
+        };
+      }
+
       return {
         type: 'gift',
         points: 0,
@@ -156,68 +189,54 @@ export function processTap(
 }
 
 /**
- * Create magic card effect
+ * Create magic card effect from the card registry (unknown cards fall back to time-freeze)
+ * @param now Game time (ms) at which the card was activated
  */
-export function createMagicCardEffect(cardType: string): ActiveEffect {
-  const now = Date.now();
-  
-  switch (cardType) {
-    case 'time-freeze':
-      return { type: 'time-freeze', duration: 5000, startTime: now };
-    
-    case 'slow-motion':
-      return { type: 'slow-motion', duration: 7000, value: 0.5, startTime: now };
-    
-    case 'golden-monad':
-      return { type: 'golden-monad', duration: 0, startTime: now }; // One-time use
-    
-    case 'extra-time':
-      return { type: 'extra-time', duration: 0, value: 10, startTime: now }; // Instant
-    
-    case 'logo-highlight':
-      return { type: 'logo-highlight', duration: 5000, startTime: now };
-    
-    case 'bomb-trap':
-      return { type: 'bomb-trap', duration: 0, value: -20, startTime: now }; // Instant penalty
-    
-    case 'shrink-ray':
-      return { type: 'shrink-ray', duration: 4000, value: 0.5, startTime: now };
-    
-    case 'monad-swarm':
-      return { type: 'monad-swarm', duration: 3000, startTime: now };
-    
-    case 'glitch-purge':
-      return { type: 'glitch-purge', duration: 0, value: 5, startTime: now }; // Instant bonus per glitch
-    
-    default:
-      return { type: 'time-freeze', duration: 5000, startTime: now };
-  }
+export function createMagicCardEffect(cardType: string, now: number = 0): ActiveEffect {
+  const card = getCardDefinition(cardType) ?? getCardDefinition(FALLBACK_CARD_ID)!;
+  const effect: ActiveEffect = { type: card.id, duration: card.duration, startTime: now };
+
+  if (card.value !== undefined) effect.value = card.value;
+  if (card.charges !== undefined) effect.charges = card.charges;
+  return effect;
 }
 
 /**
- * Update difficulty based on elapsed time
+ * Update difficulty based on elapsed time along a difficulty curve
  */
-export function updateDifficulty(elapsedSeconds: number): GameState['difficulty'] {
-  const level = Math.floor(elapsedSeconds / GAME_CONFIG.DIFFICULTY_RAMP_INTERVAL);
-  
-  return {
-    level,
-    fallSpeed: GAME_CONFIG.BASE_FALL_SPEED * Math.pow(GAME_CONFIG.SPEED_INCREASE_FACTOR, level),
-    spawnRate: GAME_CONFIG.BASE_SPAWN_RATE * Math.pow(GAME_CONFIG.SPAWN_INCREASE_FACTOR, level),
-  };
+export function updateDifficulty(
+  elapsedSeconds: number,
+  curve: DifficultyCurve = getDifficultyCurve()
+): GameState['difficulty'] {
+  return curve.evaluate(elapsedSeconds);
 }
 
 /**
- * Update active effects (remove expired ones)
+ * Update active effects (remove expired ones; charge-based cards are kept until used)
  */
 export function updateActiveEffects(effects: ActiveEffect[], deltaTime: number): ActiveEffect[] {
-  const now = Date.now();
   return effects
     .map(effect => ({
       ...effect,
       duration: Math.max(0, effect.duration - deltaTime),
     }))
-    .filter(effect => effect.duration > 0 || effect.type === 'golden-monad'); // Keep golden until used
+    .filter(effect => effect.duration > 0 || (effect.charges ?? getCardDefinition(effect.type)?.charges ?? 0) > 0);
+}
+
+/**
+ * Spend one charge of every active effect consumed by this kind of tap;
+ * effects out of charges are removed
+ */
+export function consumeEffectCharges(state: GameState, tapType: TapResult['type']): GameState {
+  const spends = (effect: ActiveEffect) => getCardDefinition(effect.type)?.consumedBy?.includes(tapType) ?? false;
+  if (!state.activeEffects.some(spends)) return state;
+
+  return {
+    ...state,
+    activeEffects: state.activeEffects
+      .map(effect => spends(effect) ? { ...effect, charges: (effect.charges ?? 1) - 1 } : effect)
+      .filter(effect => !spends(effect) || effect.charges! > 0),
+  };
 }
 
 /**
@@ -236,44 +255,71 @@ export function applyTapResult(state: GameState, result: TapResult): GameState {
   // Update lives
   newState.lives = Math.max(0, newState.lives - result.livesLost);
   
-  // Add new effect if present
-  if (result.effect) {
-    if (result.effect.type === 'extra-time') {
-      newState.timeLeft += result.effect.value || 0;
-    } else if (result.effect.type === 'bomb-trap') {
-      newState.score = Math.max(0, newState.score + (result.effect.value || 0));
-    } else if (result.effect.duration > 0) {
-      // Remove existing effect of same type to prevent stacking
-      newState.activeEffects = newState.activeEffects.filter(e => e.type !== result.effect!.type);
-      newState.activeEffects.push(result.effect);
-    }
+  if (result.storedCard) {
+    newState.inventory = [...(newState.inventory ?? []), result.storedCard];
   }
-  
-  return newState;
+
+  return result.effect ? activateCardEffect(newState, result.effect) : newState;
+}
+
+/**
+ * Activate a card effect through its registry hook
+ */
+export function activateCardEffect(state: GameState, effect: ActiveEffect): GameState {
+  const card = getCardDefinition(effect.type);
+  return card?.apply ? card.apply(state, effect) : addActiveEffect(state, effect);
 }
 
 /**
- * Update game state each frame
+ * Play a held card from the inventory. Returns null unless the card was
+ * collected earlier and is still held.
+ */
+export function activateInventoryCard(
+  state: GameState,
+  cardType: string
+): { state: GameState; effect: ActiveEffect } | null {
+  const slot = state.inventory?.indexOf(cardType) ?? -1;
+  if (slot < 0) return null;
+
+  const effect = createMagicCardEffect(cardType, state.elapsedTime);
+  const inventory = state.inventory!.filter((_, index) => index !== slot);
+  return { state: activateCardEffect({ ...state, inventory }, effect), effect };
+}
+
+/**
+ * Advance game state by deltaTime ms of game time
  */
 export function updateGameState(state: GameState, deltaTime: number): GameState {
-  const elapsedSeconds = (Date.now() - state.gameStartTime) / 1000;
+  const elapsedTime = state.elapsedTime + deltaTime;
   
   // Check if time freeze is active
   const isTimeFrozen = state.activeEffects.some(e => e.type === 'time-freeze');
+  const activeEffects = updateActiveEffects(state.activeEffects, deltaTime);
   
-  return {
+  let newState: GameState = {
     ...state,
+    elapsedTime,
     timeLeft: isTimeFrozen ? state.timeLeft : Math.max(0, state.timeLeft - deltaTime / 1000),
-    difficulty: updateDifficulty(elapsedSeconds),
-    activeEffects: updateActiveEffects(state.activeEffects, deltaTime),
+    difficulty: updateDifficulty(elapsedTime / 1000, getDifficultyCurve(getGameMode(state.mode).difficultyCurve)),
+    activeEffects,
   };
+
+  // Run expire hooks for effects that just ran out
+  state.activeEffects
+    .filter(effect => !activeEffects.some(e => e.type === effect.type))
+    .forEach(effect => {
+      const expire = getCardDefinition(effect.type)?.expire;
+      if (expire) newState = expire(newState, effect);
+    });
+
+  return newState;
 }
 
 /**
- * Check if game is over
+ * Check if game is over under the run's mode
  */
 export function isGameOver(state: GameState): boolean {
-  return state.timeLeft <= 0 || state.lives <= 0;
+  return isModeOver(getGameMode(state.mode), state);
 }
 
 /**
@@ -0,0 +1,199 @@
+/**
+ * Game mode definitions for MonadRush
+ * Each mode parameterizes the ruleset: duration, lives, spawn odds, card pool
+ * and how a run ends. Shared by client simulation and server replay.
+ */
+
+import type { GameState } from './game-logic';
+import type { DifficultyCurveId } from './difficulty';
+import type { WaveEventId } from './wave-events';
+
+export type GameModeId = 'classic' | 'endless' | 'time-attack' | 'zen';
+
+// Relative spawn weights per object type (integers, walked in this key order)
+export interface SpawnTable {
+  logo: number;
+  glitch: number;
+  gift: number;
+  bomb: number;
+}
+
+// 'time-or-lives': whichever runs out first; 'time': lives never end the run;
+// 'lives': untimed, capped at maxSessionMs of game time
+export type EndCondition = 'time-or-lives' | 'time' | 'lives';
+
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  description: string;
+  duration: number | null; // Seconds on the clock (null = untimed)
+  lives: number;
+  spawnTable: SpawnTable; // Odds at difficulty level 0
+  levelSpawnTables: SpawnTable[]; // Odds from level 1 on; the last table holds for higher levels
+  giftPity: number; // A gift is guaranteed after this many spawns without one (0 = off)
+  lanes: number; // Spawn columns objects snap to (0 = free placement)
+  excludedCards: string[]; // Card ids that never drop from gifts in this mode
+  difficultyCurve: DifficultyCurveId; // How speed and spawn rate ramp over time
+  adaptive: boolean; // Whether the adaptive director tunes spawns to the player
+  waveEvents: WaveEventId[]; // Wave events that can trigger in this mode
+  endCondition: EndCondition;
+  maxSessionMs: number; // Longest run the server accepts, before Extra Time and start-up allowances
+}
+
+export const GAME_MODES: Readonly<Record<GameModeId, GameMode>> = {
+  classic: {
+    id: 'classic',
+    name: 'Classic',
+    description: '2 minutes, 5 lives. Tap logos, dodge glitches and bombs.',
+    duration: 120,
+    lives: 5,
+    spawnTable: { logo: 55, glitch: 25, gift: 5, bomb: 15 },
+    levelSpawnTables: [
+      { logo: 52, glitch: 26, gift: 5, bomb: 17 },
+      { logo: 48, glitch: 27, gift: 5, bomb: 20 },
+      { logo: 45, glitch: 28, gift: 5, bomb: 22 },
+    ],
+    giftPity: 30,
+    lanes: 0,
+    excludedCards: [],
+    difficultyCurve: 'step',
+    adaptive: false,
+    waveEvents: ['glitch-storm', 'bomb-rain', 'golden-rush'],
+    endCondition: 'time-or-lives',
+    maxSessionMs: 120000,
+  },
+  endless: {
+    id: 'endless',
+    name: 'Endless Survival',
+    description: 'No clock, 3 lives, more bombs. Survive as long as you can, up to 15 minutes.',
+    duration: null,
+    lives: 3,
+    spawnTable: { logo: 50, glitch: 25, gift: 5, bomb: 20 },
+    levelSpawnTables: [
+      { logo: 47, glitch: 26, gift: 5, bomb: 22 },
+      { logo: 44, glitch: 27, gift: 5, bomb: 24 },
+      { logo: 40, glitch: 28, gift: 5, bomb: 27 },
+    ],
+    giftPity: 25,
+    lanes: 0,
+    excludedCards: ['extra-time'],
+    difficultyCurve: 'linear',
+    adaptive: true,
+    waveEvents: ['glitch-storm', 'bomb-rain', 'golden-rush'],
+    endCondition: 'lives',
+    maxSessionMs: 900000,
+  },
+  'time-attack': {
+    id: 'time-attack',
+    name: 'Time Attack',
+    description: '60 seconds of dense logo waves. No extra time.',
+    duration: 60,
+    lives: 5,
+    spawnTable: { logo: 65, glitch: 20, gift: 5, bomb: 10 },
+    levelSpawnTables: [
+      { logo: 60, glitch: 23, gift: 5, bomb: 12 },
+    ],
+    giftPity: 20,
+    lanes: 5,
+    excludedCards: ['extra-time'],
+    difficultyCurve: 'exponential',
+    adaptive: false,
+    waveEvents: ['glitch-storm', 'bomb-rain', 'golden-rush'],
+    endCondition: 'time-or-lives',
+    maxSessionMs: 60000,
+  },
+  zen: {
+    id: 'zen',
+    name: 'Zen',
+    description: '2 minutes, no bombs and no way to lose. Just tap.',
+    duration: 120,
+    lives: 5,
+    spawnTable: { logo: 65, glitch: 30, gift: 5, bomb: 0 },
+    levelSpawnTables: [
+      { logo: 60, glitch: 35, gift: 5, bomb: 0 },
+    ],
+    giftPity: 30,
+    lanes: 0,
+    excludedCards: ['bomb-trap', 'extra-time'],
+    difficultyCurve: 'plateau',
+    adaptive: true,
+    waveEvents: ['glitch-storm', 'golden-rush'],
+    endCondition: 'time',
+    maxSessionMs: 120000,
+  },
+};
+
+export const DEFAULT_GAME_MODE: GameModeId = 'classic';
+
+// Time a session may run past its mode's maxSessionMs
+export const SESSION_ALLOWANCE_MS = {
+  START: 63000, // Wallet approval of the on-chain start plus the 3s countdown, before the clock runs
+  EXTRA_TIME: 60000, // Clock that Extra Time cards can add, in modes that drop them
+} as const;
+
+/**
+ * Check that a value names a known mode
+ */
+export function isGameModeId(value: unknown): value is GameModeId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(GAME_MODES, value);
+}
+
+/**
+ * Look up a mode, falling back to Classic for sessions created before modes existed
+ */
+export function getGameMode(id?: string): GameMode {
+  return isGameModeId(id) ? GAME_MODES[id] : GAME_MODES[DEFAULT_GAME_MODE];
+}
+
+/**
+ * Spawn odds for a difficulty level
+ */
+export function getSpawnTable(mode: GameMode, level: number): SpawnTable {
+  if (level <= 0 || mode.levelSpawnTables.length === 0) return mode.spawnTable;
+  return mode.levelSpawnTables[Math.min(level, mode.levelSpawnTables.length) - 1];
+}
+
+/**
+ * Whether gifts may hold a card in this mode
+ */
+export function isCardAllowed(mode: GameMode, cardId: string): boolean {
+  return !mode.excludedCards.includes(cardId);
+}
+
+/**
+ * Longest game time a run can last, Extra Time included
+ */
+export function getMaxGameTimeMs(mode: GameMode): number {
+  return mode.maxSessionMs + (isCardAllowed(mode, 'extra-time') ? SESSION_ALLOWANCE_MS.EXTRA_TIME : 0);
+}
+
+/**
+ * Longest wall-clock session the server accepts, counted from when the server
+ * session was started (before the on-chain start and the countdown)
+ */
+export function getSessionTimeLimit(mode: GameMode): number {
+  return getMaxGameTimeMs(mode) + SESSION_ALLOWANCE_MS.START;
+}
+
+/**
+ * Whether a run has ended under a mode's end condition
+ */
+export function isModeOver(
+  mode: GameMode,
+  state: Pick<GameState, 'timeLeft' | 'lives' | 'elapsedTime'>
+): boolean {
+  // Untimed runs stop at the longest game the server will accept
+  if (mode.duration === null && state.elapsedTime >= mode.maxSessionMs) return true;
+
+  const outOfTime = mode.duration !== null && state.timeLeft <= 0;
+  const outOfLives = state.lives <= 0;
+
+  switch (mode.endCondition) {
+    case 'time':
+      return outOfTime;
+    case 'lives':
+      return outOfLives;
+    default:
+      return outOfTime || outOfLives;
+  }
+}
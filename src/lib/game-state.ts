@@ -3,10 +3,31 @@
  * Manages game flow and client-side game loop
  */
 
-import { GameState, createInitialGameState, updateGameState, processTap, applyTapResult, isGameOver, getGameModifiers } from './game-logic';
-import { GameObject, SpawnManager, updateGameObject, isOffScreen, findTappedObjects } from './physics';
-import { GameRNG, createSessionRNG } from './rng';
+import { GameState } from './game-logic';
+import { GameObject, SpawnManager } from './physics';
+import { GameRNG } from './rng';
+import {
+  SIMULATION_TICK_MS,
+  SimulationConfig,
+  SimulationSnapshot,
+  SimulationState,
+  createSimulationState,
+  snapshotSimulation,
+  restoreSimulation,
+  applySimulationTap,
+  applySimulationActivation,
+  stepSimulation,
+  isSimulationOver,
+  msToTicks,
+} from './simulation';
+import { CanonicalGameState, toCanonicalState } from './state-codec';
 import { GameContractManager } from './game-contract-manager';
+import { GameClock } from './game-clock';
+import { DEFAULT_GAME_MODE, GameModeId } from './game-modes';
+import { getSimulationSeed } from './daily-challenge';
+import type { DirectorState } from './difficulty';
+import type { WaveState } from './wave-events';
+import { ReplayInput, ReplayTimeline, buildReplayTimeline, seekReplay, stepReplay, getTapsBefore } from './replay-playback';
 
 // Game state machine states
 export type GameStateType = 
@@ -22,32 +43,70 @@ export type GameStateType =
 export interface GameSession {
   id: string;
   seed: number;
+  simulationSeed: number; // Seed actually fed to the simulation (derived from id + seed)
+  daily?: string; // UTC day of the daily challenge this run is ranked in
+  tick: number; // Simulation ticks elapsed while RUNNING
+  motionTime: number; // Object-motion time of the simulation (ms)
   rng: GameRNG;
   state: GameStateType;
   gameState: GameState;
   objects: GameObject[];
   spawnManager: SpawnManager;
+  director: DirectorState | null; // Adaptive difficulty state and its decision log
+  waves: WaveState; // Running wave event and the waves finished so far
   lastUpdateTime: number;
   countdownTime: number;
   isPaused: boolean;
   tapHistory: TapEvent[];
+  actionCount: number; // Taps counted by the server hash chain (reset on rebase)
   actions: Array<{ type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss'; timestamp: number }>; // For game over stats
-  stateHash: string; // For anti-cheat verification
+  canonicalState: CanonicalGameState; // State after the last tap, hashed into the server hash chain
+  playback?: PlaybackStatus; // Set when the session replays a finished run instead of taking input
+}
+
+// Playback controls of a replayed session
+export interface PlaybackStatus {
+  speed: number; // Simulation speed multiplier
+  endTick: number; // Tick the replayed run ends on
 }
 
 export interface TapEvent {
   timestamp: number;
+  tick: number; // Simulation tick the tap was applied at (replay input)
   position: { x: number; y: number };
-  targetId?: string;
-  result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
+  targetId?: string; // Tapped object, or the card played for 'activate'
+  result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+}
+
+// Serializable copy of an in-progress GameSession, for resuming after a reload
+export interface GameSessionSnapshot {
+  id: string;
+  seed: number;
+  simulationSeed: number;
+  daily?: string;
+  state: 'RUNNING' | 'PAUSED';
+  simulation: SimulationSnapshot;
+  tapHistory: TapEvent[];
+  actionCount: number;
+  actions: GameSession['actions'];
+  canonicalState: CanonicalGameState;
+  savedAt: number; // Wall-clock time of the snapshot
 }
 
-export interface GameConfig {
-  screenWidth: number;
-  screenHeight: number;
-  objectSize: { x: number; y: number };
+// A pending tap re-applied during a rebase, with the state right after it
+export interface ReplayedTap {
+  tap: TapEvent;
+  state: CanonicalGameState;
 }
 
+export type GameConfig = SimulationConfig;
+
+// Cap on ticks simulated per frame so a stalled tab doesn't fast-forward the run
+const MAX_TICKS_PER_FRAME = 10;
+
+const START_COUNTDOWN_MS = 3000;
+const RESUME_COUNTDOWN_MS = 3000;
+
 /**
  * Game State Manager
  */
@@ -55,12 +114,25 @@ export class GameStateManager {
   private session: GameSession | null = null;
   private config: GameConfig;
   private animationFrameId: number | null = null;
+  private tickAccumulator: number = 0;
   private onStateChange?: (state: GameStateType, session: GameSession) => void;
   private onGameUpdate?: (session: GameSession) => void;
+  private onTap?: (tap: TapEvent, state: CanonicalGameState) => void;
   private contractManager?: GameContractManager;
+  private clock: GameClock;
+  private visibilityListening = false;
+  private replay: { input: ReplayInput; timeline: ReplayTimeline } | null = null;
 
-  constructor(config: GameConfig) {
+  constructor(config: GameConfig, clock: GameClock = new GameClock()) {
     this.config = config;
+    this.clock = clock;
+  }
+
+  /**
+   * Game clock driving the loop (pause-aware; reports pauses to listeners)
+   */
+  getClock(): GameClock {
+    return this.clock;
   }
 
   /**
@@ -82,34 +154,48 @@ export class GameStateManager {
   }
 
   /**
-   * Initialize new game session
+   * Forward every applied tap, e.g. to the server action queue
    */
-  initializeSession(sessionId: string, seed: number): GameSession {
-    const rng = createSessionRNG(sessionId, seed);
-    const gameState = createInitialGameState();
-    
-    const spawnManager = new SpawnManager(rng, {
-      screenWidth: this.config.screenWidth,
-      screenHeight: this.config.screenHeight,
-      objectSize: this.config.objectSize,
-      fallSpeed: gameState.difficulty.fallSpeed,
-      spawnRate: gameState.difficulty.spawnRate,
-    });
+  setTapHandler(onTap?: (tap: TapEvent, state: CanonicalGameState) => void) {
+    this.onTap = onTap;
+  }
+
+  /**
+   * Initialize new game session (pass the UTC day for a daily challenge run)
+   */
+  initializeSession(
+    sessionId: string,
+    seed: number,
+    mode: GameModeId = DEFAULT_GAME_MODE,
+    daily?: string,
+    cardInventory: boolean = false
+  ): GameSession {
+    const simulationSeed = getSimulationSeed(sessionId, seed, daily);
+    const simulation = createSimulationState(simulationSeed, this.config, mode, cardInventory);
+    const gameState = simulation.gameState;
+    this.replay = null;
 
     this.session = {
       id: sessionId,
       seed,
-      rng,
+      simulationSeed,
+      daily,
+      tick: simulation.tick,
+      motionTime: simulation.motionTime,
+      rng: simulation.rng,
       state: 'READY',
       gameState,
-      objects: [],
-      spawnManager,
-      lastUpdateTime: Date.now(),
-      countdownTime: 3000, // 3 second countdown
+      objects: simulation.objects,
+      spawnManager: simulation.spawnManager,
+      director: simulation.director,
+      waves: simulation.waves,
+      lastUpdateTime: this.clock.now(),
+      countdownTime: START_COUNTDOWN_MS,
       isPaused: false,
       tapHistory: [],
+      actionCount: 0,
       actions: [],
-      stateHash: this.calculateStateHash(gameState),
+      canonicalState: toCanonicalState(gameState, 0, 0),
     };
 
     this.notifyStateChange();
@@ -123,9 +209,9 @@ export class GameStateManager {
     if (!this.session || this.session.state !== 'READY') return;
     
     // Reset countdown time to ensure fresh start
-    this.session.countdownTime = 3000; // 3 second countdown
+    this.session.countdownTime = START_COUNTDOWN_MS;
     this.session.state = 'COUNTDOWN';
-    this.session.lastUpdateTime = Date.now();
+    this.session.lastUpdateTime = this.clock.now();
     
     console.log('🕐 Starting countdown with', this.session.countdownTime, 'ms');
     
@@ -141,32 +227,51 @@ export class GameStateManager {
     
     console.log('🚀 Starting game! Countdown finished.');
     
+    this.clock.start();
     this.session.state = 'RUNNING';
-    this.session.gameState.gameStartTime = Date.now();
-    this.session.lastUpdateTime = Date.now();
+    this.session.gameState.gameStartTime = this.clock.now();
+    this.session.lastUpdateTime = this.clock.now();
+    this.tickAccumulator = 0;
     this.notifyStateChange();
   }
 
   /**
-   * Pause game
+   * Pause game (also cancels a resume countdown in progress)
    */
   pauseGame() {
-    if (!this.session || this.session.state !== 'RUNNING') return;
-    
+    if (!this.session) return;
+    const resuming = this.session.state === 'COUNTDOWN' && this.session.isPaused;
+    if (this.session.state !== 'RUNNING' && !resuming) return;
+
+    this.clock.pause();
     this.session.state = 'PAUSED';
     this.session.isPaused = true;
     this.notifyStateChange();
   }
 
   /**
-   * Resume game
+   * Resume game after a countdown; the game clock stays paused until it ends
    */
   resumeGame() {
     if (!this.session || this.session.state !== 'PAUSED') return;
-    
+
+    this.session.state = 'COUNTDOWN';
+    this.session.countdownTime = RESUME_COUNTDOWN_MS;
+    this.session.lastUpdateTime = this.clock.now();
+    this.notifyStateChange();
+  }
+
+  /**
+   * Leave the resume countdown and continue the run
+   */
+  private finishResume() {
+    if (!this.session) return;
+
+    this.clock.resume();
     this.session.state = 'RUNNING';
     this.session.isPaused = false;
-    this.session.lastUpdateTime = Date.now();
+    this.session.lastUpdateTime = this.clock.now();
+    this.tickAccumulator = 0;
     this.notifyStateChange();
   }
 
@@ -174,34 +279,20 @@ export class GameStateManager {
    * Handle tap input
    */
   handleTap(position: { x: number; y: number }): boolean {
-    if (!this.session || this.session.state !== 'RUNNING') return false;
+    if (!this.session || this.session.state !== 'RUNNING' || this.session.playback) return false;
 
-    const tapTime = Date.now();
-    const tappedObjects = findTappedObjects(this.session.objects, position);
-    
-    let tapResult: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' = 'miss';
-    let targetId: string | undefined;
-    let giftCardType: string | undefined;
-
-    if (tappedObjects.length > 0) {
-      const target = tappedObjects[0];
-      targetId = target.id;
-      tapResult = target.type;
-      giftCardType = target.cardType;
-      
-      // Mark object as inactive
-      target.isActive = false;
-    }
+    const tapTime = this.clock.now();
 
-    // Process tap in game logic
-    const result = processTap(this.session.gameState, tapResult, giftCardType);
-    this.session.gameState = applyTapResult(this.session.gameState, result);
+    // Apply the tap at the current simulation tick
+    const outcome = applySimulationTap(this.session, position, this.config);
+    const tapResult = outcome.result;
 
     // Record tap event
     const tapEvent: TapEvent = {
       timestamp: tapTime,
+      tick: outcome.tick,
       position,
-      targetId,
+      targetId: outcome.targetId,
       result: tapResult,
     };
     this.session.tapHistory.push(tapEvent);
@@ -214,7 +305,7 @@ export class GameStateManager {
 
     // Record action on blockchain (async, don't wait for result)
     if (this.contractManager && tapResult !== 'miss') {
-      this.contractManager.recordGameAction(this.session.id, tapResult, result.points)
+      this.contractManager.recordGameAction(this.session.id, tapResult, outcome.points)
         .then(txHash => {
           console.log('✅ Action recorded on-chain:', tapResult, txHash);
         })
@@ -223,12 +314,290 @@ export class GameStateManager {
         });
     }
 
-    // Update state hash
-    this.session.stateHash = this.calculateStateHash(this.session.gameState);
+    this.session.actionCount++;
+    this.session.canonicalState = toCanonicalState(this.session.gameState, this.session.actionCount, outcome.tick);
+    this.onTap?.(tapEvent, this.session.canonicalState);
 
     return tapResult !== 'miss';
   }
 
+  /**
+   * Play the held card in an inventory slot (HUD button or hotkey)
+   */
+  activateCard(slot: number): boolean {
+    if (!this.session || this.session.state !== 'RUNNING' || this.session.playback) return false;
+
+    const cardType = this.session.gameState.inventory?.[slot];
+    if (!cardType) return false;
+
+    const outcome = applySimulationActivation(this.session, cardType, this.config);
+    if (!outcome) return false;
+
+    // Recorded as its own action so the server can check the card was collected
+    const tapEvent: TapEvent = {
+      timestamp: this.clock.now(),
+      tick: outcome.tick,
+      position: { x: 0, y: 0 },
+      targetId: cardType,
+      result: 'activate',
+    };
+    this.session.tapHistory.push(tapEvent);
+
+    this.session.actionCount++;
+    this.session.canonicalState = toCanonicalState(this.session.gameState, this.session.actionCount, outcome.tick);
+    this.onTap?.(tapEvent, this.session.canonicalState);
+
+    return true;
+  }
+
+  /**
+   * Rebase onto the server's authoritative simulation after a desync.
+   * Pending taps (not yet accepted by the server) are replayed at their ticks
+   * and the simulation is fast-forwarded back to the current tick. A finished
+   * game can be rebased too (the last batch is only sent after the run ends);
+   * it stays finished, on the tick it ended on.
+   * Returns the replayed taps with their re-derived results, or null if there is no game to rebase.
+   */
+  rebase(
+    snapshot: SimulationSnapshot,
+    serverState: CanonicalGameState,
+    pendingTaps: Array<{ timestamp: number; tick: number; position: { x: number; y: number }; type?: TapEvent['result']; targetId?: string }>
+  ): ReplayedTap[] | null {
+    if (!this.session || this.session.playback || !['RUNNING', 'PAUSED', 'FINISHED'].includes(this.session.state)) {
+      return null;
+    }
+
+    const finished = this.session.state === 'FINISHED';
+    const targetTick = this.session.tick;
+    const simulation = restoreSimulation(snapshot, this.config);
+    const replayed: ReplayedTap[] = [];
+    let pendingIndex = 0;
+
+    const applyPending = () => {
+      const tap = pendingTaps[pendingIndex++];
+      let replayedTap: TapEvent;
+      if (tap.type === 'activate') {
+        // Kept even if the card is no longer held, so the server rejects it
+        applySimulationActivation(simulation, tap.targetId ?? '', this.config);
+        replayedTap = { timestamp: tap.timestamp, tick: simulation.tick, position: tap.position, targetId: tap.targetId, result: 'activate' };
+      } else {
+        const outcome = applySimulationTap(simulation, tap.position, this.config);
+        replayedTap = { timestamp: tap.timestamp, tick: outcome.tick, position: tap.position, targetId: outcome.targetId, result: outcome.result };
+      }
+      replayed.push({
+        tap: replayedTap,
+        state: toCanonicalState(simulation.gameState, serverState.actionCount + replayed.length + 1, replayedTap.tick),
+      });
+    };
+
+    while (simulation.tick < targetTick && !isSimulationOver(simulation)) {
+      while (pendingIndex < pendingTaps.length && pendingTaps[pendingIndex].tick <= simulation.tick) {
+        applyPending();
+      }
+      stepSimulation(simulation, this.config);
+    }
+    while (pendingIndex < pendingTaps.length && !isSimulationOver(simulation)) {
+      applyPending();
+    }
+
+    this.adoptSimulation(simulation);
+    this.session.actionCount = serverState.actionCount + replayed.length;
+
+    // Pending taps are the most recent ones; swap in their re-derived results
+    const historyStart = Math.max(0, this.session.tapHistory.length - pendingTaps.length);
+    this.session.tapHistory.splice(historyStart, pendingTaps.length, ...replayed.map(entry => entry.tap));
+
+    this.session.canonicalState = replayed.length > 0 ? replayed[replayed.length - 1].state : serverState;
+
+    if (finished) {
+      this.notifyStateChange();
+    } else if (isSimulationOver(simulation)) {
+      this.endGame();
+    } else if (this.onGameUpdate) {
+      this.onGameUpdate(this.session);
+    }
+
+    return replayed;
+  }
+
+  /**
+   * Point the session at a different simulation state
+   */
+  private adoptSimulation(simulation: SimulationState) {
+    if (!this.session) return;
+
+    this.session.tick = simulation.tick;
+    this.session.motionTime = simulation.motionTime;
+    this.session.rng = simulation.rng;
+    this.session.gameState = simulation.gameState;
+    this.session.objects = simulation.objects;
+    this.session.spawnManager = simulation.spawnManager;
+    this.session.director = simulation.director;
+    this.session.waves = simulation.waves;
+  }
+
+  /**
+   * Load a finished run for playback. The whole run is simulated once up
+   * front (for its length and seek keyframes); it comes back paused at tick 0.
+   */
+  loadReplay(input: ReplayInput): GameSession {
+    const timeline = buildReplayTimeline(input, this.config);
+    const simulation = seekReplay(timeline, 0, this.config);
+    this.replay = { input, timeline };
+
+    this.session = {
+      id: input.sessionId,
+      seed: input.seed,
+      simulationSeed: input.seed,
+      tick: simulation.tick,
+      motionTime: simulation.motionTime,
+      rng: simulation.rng,
+      state: 'PAUSED',
+      gameState: simulation.gameState,
+      objects: simulation.objects,
+      spawnManager: simulation.spawnManager,
+      director: simulation.director,
+      waves: simulation.waves,
+      lastUpdateTime: this.clock.now(),
+      countdownTime: 0,
+      isPaused: true,
+      tapHistory: [],
+      actionCount: 0,
+      actions: [],
+      canonicalState: toCanonicalState(simulation.gameState, 0, 0),
+      playback: { speed: 1, endTick: timeline.endTick },
+    };
+    this.tickAccumulator = 0;
+
+    this.notifyStateChange();
+    this.startGameLoop();
+    return this.session;
+  }
+
+  /**
+   * Play a loaded replay (from the start again if it already ended)
+   */
+  playReplay() {
+    if (!this.session?.playback || this.session.state === 'RUNNING') return;
+
+    if (this.session.tick >= this.session.playback.endTick) {
+      this.seekPlayback(0);
+    }
+
+    this.session.state = 'RUNNING';
+    this.session.isPaused = false;
+    this.session.lastUpdateTime = this.clock.now();
+    this.tickAccumulator = 0;
+    this.notifyStateChange();
+    this.startGameLoop();
+  }
+
+  /**
+   * Jump a replay to a tick; a replay that had ended comes back paused
+   */
+  seekPlayback(tick: number) {
+    if (!this.session?.playback || !this.replay) return;
+
+    const simulation = seekReplay(this.replay.timeline, tick, this.config);
+    this.adoptSimulation(simulation);
+    this.session.tapHistory = getTapsBefore(this.replay.input, simulation.tick);
+    this.tickAccumulator = 0;
+
+    if (this.session.state === 'FINISHED') {
+      this.session.state = 'PAUSED';
+      this.session.isPaused = true;
+      this.notifyStateChange();
+      this.startGameLoop();
+    } else {
+      this.onGameUpdate?.(this.session);
+    }
+  }
+
+  /**
+   * Change how fast a replay plays
+   */
+  setPlaybackSpeed(speed: number) {
+    if (!this.session?.playback || speed <= 0) return;
+
+    this.session.playback = { ...this.session.playback, speed };
+    this.onGameUpdate?.(this.session);
+  }
+
+  /**
+   * Capture the running session so it can be restored after a reload.
+   * Returns null unless a game is in progress.
+   */
+  snapshotSession(now: number = this.clock.now()): GameSessionSnapshot | null {
+    if (!this.session || (this.session.state !== 'RUNNING' && this.session.state !== 'PAUSED')) {
+      return null;
+    }
+
+    return {
+      id: this.session.id,
+      seed: this.session.seed,
+      simulationSeed: this.session.simulationSeed,
+      daily: this.session.daily,
+      state: this.session.state,
+      simulation: snapshotSimulation(this.session),
+      tapHistory: this.session.tapHistory.map(tap => ({ ...tap, position: { ...tap.position } })),
+      actionCount: this.session.actionCount,
+      actions: this.session.actions.map(action => ({ ...action })),
+      canonicalState: { ...this.session.canonicalState },
+      savedAt: now,
+    };
+  }
+
+  /**
+   * Restore a session captured by snapshotSession. A running game clock kept
+   * going while the page was gone, so a running run is fast-forwarded by the
+   * time since the snapshot; a paused one picks up where it stopped. The run
+   * comes back paused (or finished if time ran out).
+   */
+  restoreSession(snapshot: GameSessionSnapshot, now: number = this.clock.now()): GameSession {
+    const simulation = restoreSimulation(snapshot.simulation, this.config);
+    this.replay = null;
+
+    const missedTicks = snapshot.state === 'RUNNING' ? msToTicks(Math.max(0, now - snapshot.savedAt)) : 0;
+    for (let i = 0; i < missedTicks && !isSimulationOver(simulation); i++) {
+      stepSimulation(simulation, this.config);
+    }
+
+    this.session = {
+      id: snapshot.id,
+      seed: snapshot.seed,
+      simulationSeed: snapshot.simulationSeed,
+      daily: snapshot.daily,
+      tick: simulation.tick,
+      motionTime: simulation.motionTime,
+      rng: simulation.rng,
+      state: 'PAUSED',
+      gameState: simulation.gameState,
+      objects: simulation.objects,
+      spawnManager: simulation.spawnManager,
+      director: simulation.director,
+      waves: simulation.waves,
+      lastUpdateTime: now,
+      countdownTime: 0,
+      isPaused: true,
+      tapHistory: snapshot.tapHistory,
+      actionCount: snapshot.actionCount,
+      actions: snapshot.actions,
+      canonicalState: snapshot.canonicalState,
+    };
+    this.tickAccumulator = 0;
+
+    if (isSimulationOver(simulation)) {
+      this.endGame();
+    } else {
+      this.clock.start(now - simulation.gameState.elapsedTime);
+      this.clock.pause();
+      this.notifyStateChange();
+      this.startGameLoop();
+    }
+
+    return this.session;
+  }
+
   /**
    * Main game loop
    */
@@ -238,11 +607,12 @@ export class GameStateManager {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+    this.listenForVisibility();
 
     const update = () => {
       if (!this.session) return;
 
-      const currentTime = Date.now();
+      const currentTime = this.clock.now();
       const deltaTime = currentTime - this.session.lastUpdateTime;
       this.session.lastUpdateTime = currentTime;
 
@@ -258,14 +628,22 @@ export class GameStateManager {
         }
         
         if (this.session.countdownTime <= 0) {
-          this.startGame();
+          if (this.session.isPaused) {
+            this.finishResume();
+          } else {
+            this.startGame();
+          }
           stateChanged = true;
         }
       }
 
       // Handle running game
       if (this.session.state === 'RUNNING' && !this.session.isPaused) {
-        this.updateGame(deltaTime);
+        if (this.replay) {
+          this.updatePlayback(deltaTime);
+        } else {
+          this.updateGame(deltaTime);
+        }
       }
 
       // Continue loop if game is active
@@ -288,58 +666,69 @@ export class GameStateManager {
   }
 
   /**
-   * Update game logic
+   * Auto-pause when the tab is hidden
    */
-  private updateGame(deltaTime: number) {
-    if (!this.session) return;
+  private handleVisibilityChange = () => {
+    if (document.hidden) {
+      this.pauseGame();
+    }
+  };
 
-    // Update game state
-    this.session.gameState = updateGameState(this.session.gameState, deltaTime);
+  private listenForVisibility() {
+    if (this.visibilityListening || typeof document === 'undefined') return;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.visibilityListening = true;
+  }
 
-    // Get current modifiers
-    const modifiers = getGameModifiers(this.session.gameState);
+  private stopListeningForVisibility() {
+    if (!this.visibilityListening) return;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.visibilityListening = false;
+  }
 
-    // Update spawn manager config
-    this.session.spawnManager.updateConfig({
-      fallSpeed: this.session.gameState.difficulty.fallSpeed * modifiers.slowMotion,
-      spawnRate: this.session.gameState.difficulty.spawnRate * (modifiers.swarmActive ? 3 : 1),
-    });
+  /**
+   * Update game logic by running whole fixed-size simulation ticks
+   */
+  private updateGame(deltaTime: number) {
+    if (!this.session) return;
 
-    // Spawn new objects
-    const newObjects = this.session.spawnManager.update(
-      Date.now(),
-      {
-        spawnRate: modifiers.swarmActive ? 3 : 1,
-        timeFrozen: modifiers.timeFrozen,
-      }
+    this.tickAccumulator = Math.min(
+      this.tickAccumulator + deltaTime,
+      SIMULATION_TICK_MS * MAX_TICKS_PER_FRAME
     );
-    this.session.objects.push(...newObjects);
 
-    // Update existing objects
-    if (!modifiers.timeFrozen) {
-      this.session.objects = this.session.objects
-        .map(obj => updateGameObject(obj, deltaTime * modifiers.slowMotion))
-        .filter(obj => obj.isActive && !isOffScreen(obj, this.config.screenHeight));
+    while (this.tickAccumulator >= SIMULATION_TICK_MS) {
+      this.tickAccumulator -= SIMULATION_TICK_MS;
+      stepSimulation(this.session, this.config);
+
+      // Check for game over
+      if (isSimulationOver(this.session)) {
+        this.endGame();
+        break;
+      }
     }
+  }
 
-    // Apply size modifier if shrink ray is active
-    if (modifiers.shrinkRay !== 1.0) {
-      this.session.objects = this.session.objects.map(obj => ({
-        ...obj,
-        size: {
-          x: this.config.objectSize.x * modifiers.shrinkRay,
-          y: this.config.objectSize.y * modifiers.shrinkRay,
-        },
-      }));
+  /**
+   * Advance a replay by whole ticks, scaled by the playback speed
+   */
+  private updatePlayback(deltaTime: number) {
+    if (!this.session?.playback || !this.replay) return;
+
+    const { speed, endTick } = this.session.playback;
+    this.tickAccumulator = Math.min(
+      this.tickAccumulator + deltaTime * speed,
+      SIMULATION_TICK_MS * MAX_TICKS_PER_FRAME * Math.max(1, speed)
+    );
+
+    while (this.tickAccumulator >= SIMULATION_TICK_MS && this.session.tick < endTick) {
+      this.tickAccumulator -= SIMULATION_TICK_MS;
+      this.session.tapHistory.push(...stepReplay(this.session, this.replay.timeline, this.config));
     }
 
-    // Check for game over
-    if (isGameOver(this.session.gameState)) {
+    if (this.session.tick >= endTick) {
       this.endGame();
     }
-
-    // Update state hash
-    this.session.stateHash = this.calculateStateHash(this.session.gameState);
   }
 
   /**
@@ -350,8 +739,8 @@ export class GameStateManager {
 
     console.log('🏁 Game ending, final score:', this.session.gameState.score);
     
-    // Finish session on blockchain (async)
-    if (this.contractManager) {
+    // Finish session on blockchain (async); replays were finished when they were played
+    if (this.contractManager && !this.session.playback) {
       this.contractManager.finishGameSession(this.session)
         .then(txHash => {
           console.log('✅ Game session finished on-chain:', txHash);
@@ -366,6 +755,7 @@ export class GameStateManager {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+    this.stopListeningForVisibility();
     this.notifyStateChange();
   }
 
@@ -387,7 +777,9 @@ export class GameStateManager {
       cancelAnimationFrame(this.animationFrameId);
       this.animationFrameId = null;
     }
+    this.stopListeningForVisibility();
     this.session = null;
+    this.replay = null;
   }
 
   /**
@@ -397,29 +789,6 @@ export class GameStateManager {
     return this.session;
   }
 
-  /**
-   * Calculate state hash for anti-cheat verification
-   */
-  private calculateStateHash(gameState: GameState): string {
-    const data = {
-      score: gameState.score,
-      lives: gameState.lives,
-      timeLeft: Math.floor(gameState.timeLeft),
-      combo: Math.floor(gameState.combo * 10), // Avoid floating point precision issues
-      streak: gameState.streak,
-    };
-    
-    // Simple hash function (in production, use crypto)
-    let hash = 0;
-    const str = JSON.stringify(data);
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash.toString(16);
-  }
-
   /**
    * Notify state change
    */
@@ -449,9 +818,11 @@ export class GameStateManager {
     return {
       sessionId: this.session.id,
       seed: this.session.seed,
+      simulationSeed: this.session.simulationSeed,
+      ticks: this.session.tick,
       finalState: this.session.gameState,
       tapHistory: this.session.tapHistory,
-      stateHash: this.session.stateHash,
+      canonicalState: this.session.canonicalState,
     };
   }
 }
@@ -4,13 +4,45 @@
  */
 
 import { kv } from '@vercel/kv';
+import { RiskLevel, maxRiskLevel } from './anti-cheat';
+import type { TrajectorySnapshot } from './trajectory';
+import type { PauseInterval } from './game-clock';
+import type { GameModeId } from './game-modes';
+import { DAILY_CHALLENGE_CONFIG } from './daily-challenge';
+import {
+  AchievementProgress,
+  AchievementRun,
+  AchievementUnlock,
+  createAchievementProgress,
+  evaluateAchievements,
+  updateAchievementProgress,
+} from './achievements';
+import { ArchivedRun, PLAYER_STATS_CONFIG, PlayerTotals, addRunToTotals, createPlayerTotals } from './player-stats';
+import type { ReplayInput } from './replay-playback';
+import { PaceCurve, isPersonalBestPace } from './pace';
 
 // Key patterns for Vercel KV
 export const KV_KEYS = {
   session: (sessionId: string) => `session:${sessionId}`,
   sessionHash: (sessionId: string) => `session:${sessionId}:hash`,
   sessionUnflushed: (sessionId: string) => `session:${sessionId}:unflushed`,
+  sessionActions: (sessionId: string) => `session:${sessionId}:actions`,
+  sessionRisk: (sessionId: string) => `session:${sessionId}:risk`,
   playerRecent: (address: string) => `player:${address}:recent`,
+  playerAchievements: (address: string) => `player:${address}:achievements`,
+  playerHistory: (address: string) => `player:${address}:history`,
+  playerTotals: (address: string) => `player:${address}:totals`,
+  runArchive: (sessionId: string) => `archive:session:${sessionId}`,
+  runReplay: (sessionId: string) => `archive:session:${sessionId}:replay`,
+  runPace: (sessionId: string) => `archive:session:${sessionId}:pace`,
+  playerBestPace: (address: string, mode: GameModeId) => `player:${address}:pace:${mode}`,
+  modeLeaderboard: (mode: GameModeId) => `leaderboard:${mode}`,
+  modeGames: (mode: GameModeId) => `leaderboard:${mode}:games`,
+  modeBestRuns: (mode: GameModeId) => `leaderboard:${mode}:runs`,
+  dailyLeaderboard: (day: string) => `daily:${day}:leaderboard`,
+  dailyAttempts: (day: string, address: string) => `daily:${day}:attempts:${address}`,
+  dailyArchive: (day: string) => `daily:${day}:archive`,
+  dailyArchivedDays: () => 'daily:archive',
 } as const;
 
 // Session data structure for KV storage
@@ -18,6 +50,7 @@ export interface KVSessionData {
   id: string;
   playerAddress: string;
   seed: number;
+  mode: GameModeId; // Ruleset chosen at session start
   startTime: number;
   isActive: boolean;
   gameState: {
@@ -29,16 +62,24 @@ export interface KVSessionData {
     activeCards: Array<{ type: string; endTime: number }>;
   };
   lastActionTime: number;
+  lastTap?: { timestamp: number; tick?: number }; // Last accepted tap, for cross-batch timing rules
+  simulation?: TrajectorySnapshot; // Server simulation after the last accepted batch
+  lastSequence?: number; // Highest client action sequence processed
+  pauses?: PauseInterval[]; // Server-timed pause intervals reported by the client
+  daily?: string; // UTC day of the daily challenge this session is ranked in
+  cardInventory?: boolean; // Helpful cards are held and played on demand
   totalActions: number;
 }
 
 // Action data for batching
 export interface KVActionData {
   sessionId: string;
+  sequence: number;
   timestamp: number;
-  type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
+  tick: number;
+  type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
   position: { x: number; y: number };
-  targetId?: string;
+  targetId?: string; // Tapped object id, or the played card id for 'activate'
   value?: number;
 }
 
@@ -50,6 +91,19 @@ export interface KVStateHash {
   actionCount: number;
 }
 
+// Accumulated anti-cheat risk for a session
+export interface KVSessionRisk {
+  sessionId: string;
+  riskLevel: RiskLevel;
+  reasons: string[];
+  rejectedActions: number;
+  updatedAt: number;
+}
+
+// Risk records outlive sessions so flagged runs can be reviewed later
+const SESSION_RISK_TTL = 7 * 86400; // 7 days
+const MAX_RISK_REASONS = 50;
+
 /**
  * Store session data in KV
  */
@@ -133,6 +187,36 @@ export async function flushUnflushedActions(sessionId: string): Promise<KVAction
   }
 }
 
+/**
+ * Append accepted actions to the session's authoritative action log
+ */
+export async function appendSessionActions(sessionId: string, actions: KVActionData[]): Promise<void> {
+  if (actions.length === 0) return;
+
+  try {
+    const key = KV_KEYS.sessionActions(sessionId);
+    await kv.rpush(key, ...actions.map(action => JSON.stringify(action)));
+    await kv.expire(key, 300); // 5 minutes TTL, refreshed with each batch
+  } catch (error) {
+    console.error('Failed to append session actions:', error);
+    throw new Error('Action log storage failed');
+  }
+}
+
+/**
+ * Get the session's full action log, oldest first
+ */
+export async function getSessionActions(sessionId: string): Promise<KVActionData[]> {
+  try {
+    const actions = await kv.lrange(KV_KEYS.sessionActions(sessionId), 0, -1) || [];
+    // The KV client may already have parsed JSON entries
+    return actions.map(action => typeof action === 'string' ? JSON.parse(action) : action as KVActionData);
+  } catch (error) {
+    console.error('Failed to get session actions:', error);
+    throw new Error('Action log retrieval failed');
+  }
+}
+
 /**
  * Store rolling state hash for anti-cheat
  */
@@ -166,6 +250,7 @@ export async function cleanupSession(sessionId: string): Promise<void> {
       kv.del(KV_KEYS.session(sessionId)),
       kv.del(KV_KEYS.sessionHash(sessionId)),
       kv.del(KV_KEYS.sessionUnflushed(sessionId)),
+      kv.del(KV_KEYS.sessionActions(sessionId)),
     ]);
   } catch (error) {
     console.error('Failed to cleanup session:', error);
@@ -183,3 +268,418 @@ export async function getPlayerRecentSessions(address: string): Promise<string[]
     return [];
   }
 }
+
+/**
+ * Merge a new risk assessment into the session's stored risk record
+ */
+export async function recordSessionRisk(
+  sessionId: string,
+  assessment: { riskLevel: RiskLevel; reasons: string[] },
+  rejectedActions: number
+): Promise<KVSessionRisk> {
+  try {
+    const existing = await getSessionRisk(sessionId);
+
+    const risk: KVSessionRisk = {
+      sessionId,
+      riskLevel: existing ? maxRiskLevel(existing.riskLevel, assessment.riskLevel) : assessment.riskLevel,
+      reasons: [...(existing?.reasons ?? []), ...assessment.reasons].slice(-MAX_RISK_REASONS),
+      rejectedActions: (existing?.rejectedActions ?? 0) + rejectedActions,
+      updatedAt: Date.now(),
+    };
+
+    await kv.set(KV_KEYS.sessionRisk(sessionId), risk, { ex: SESSION_RISK_TTL });
+    return risk;
+  } catch (error) {
+    console.error('Failed to record session risk:', error);
+    throw new Error('Session risk storage failed');
+  }
+}
+
+/**
+ * Get a session's accumulated risk record
+ */
+export async function getSessionRisk(sessionId: string): Promise<KVSessionRisk | null> {
+  try {
+    return await kv.get<KVSessionRisk>(KV_KEYS.sessionRisk(sessionId));
+  } catch (error) {
+    console.error('Failed to get session risk:', error);
+    return null;
+  }
+}
+
+export interface ModeLeaderboardEntry {
+  address: string;
+  score: number;
+  sessionId?: string; // Run that set the score, when it was recorded
+}
+
+// A finished day's daily challenge results, kept after its leaderboard expires
+export interface KVDailyArchive {
+  day: string;
+  totalPlayers: number;
+  top: ModeLeaderboardEntry[];
+  archivedAt: number;
+}
+
+/**
+ * Keep a player's best score in a sorted-set leaderboard; returns whether it improved
+ */
+async function recordBestScore(key: string, address: string, score: number): Promise<boolean> {
+  const best = await kv.zscore(key, address);
+
+  if (best === null || score > best) {
+    await kv.zadd(key, { score, member: address });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Read a page of a sorted-set leaderboard, best scores first
+ */
+async function readLeaderboard(key: string, offset: number, limit: number): Promise<ModeLeaderboardEntry[]> {
+  const flat = await kv.zrange<(string | number)[]>(key, offset, offset + limit - 1, { rev: true, withScores: true });
+
+  // withScores returns [member, score, member, score, ...]
+  const entries: ModeLeaderboardEntry[] = [];
+  for (let i = 0; i + 1 < flat.length; i += 2) {
+    entries.push({ address: String(flat[i]), score: Number(flat[i + 1]) });
+  }
+  return entries;
+}
+
+/**
+ * Record a verified score on a mode's leaderboard, keeping each player's best
+ * (and the session that set it, so the run can be replayed)
+ */
+export async function recordModeScore(mode: GameModeId, address: string, score: number, sessionId?: string): Promise<void> {
+  try {
+    const improved = await recordBestScore(KV_KEYS.modeLeaderboard(mode), address, score);
+    if (improved && sessionId) {
+      await kv.hset(KV_KEYS.modeBestRuns(mode), { [address]: sessionId });
+    }
+    await kv.incr(KV_KEYS.modeGames(mode));
+  } catch (error) {
+    console.error('Failed to record mode score:', error);
+    throw new Error('Mode leaderboard storage failed');
+  }
+}
+
+/**
+ * Get a page of a mode's leaderboard, best scores first
+ */
+export async function getModeLeaderboard(
+  mode: GameModeId,
+  offset: number,
+  limit: number
+): Promise<{ entries: ModeLeaderboardEntry[]; totalPlayers: number; totalGames: number }> {
+  try {
+    const [entries, totalPlayers, totalGames] = await Promise.all([
+      readLeaderboard(KV_KEYS.modeLeaderboard(mode), offset, limit),
+      kv.zcard(KV_KEYS.modeLeaderboard(mode)),
+      kv.get<number>(KV_KEYS.modeGames(mode)),
+    ]);
+
+    if (entries.length > 0) {
+      const runs = await kv.hmget<Record<string, string>>(KV_KEYS.modeBestRuns(mode), ...entries.map(entry => entry.address));
+      entries.forEach(entry => {
+        entry.sessionId = runs?.[entry.address] ?? undefined;
+      });
+    }
+
+    return { entries, totalPlayers, totalGames: totalGames ?? 0 };
+  } catch (error) {
+    console.error('Failed to get mode leaderboard:', error);
+    return { entries: [], totalPlayers: 0, totalGames: 0 };
+  }
+}
+
+/**
+ * Use one of a player's daily challenge attempts; returns attempts used including
+ * this one, or null (leaving the count untouched) when none are left
+ */
+export async function claimDailyAttempt(day: string, address: string): Promise<number | null> {
+  try {
+    const key = KV_KEYS.dailyAttempts(day, address);
+    const used = await kv.incr(key);
+    if (used === 1) {
+      await kv.expire(key, 2 * 86400); // Outlives the day in every timezone
+    }
+    if (used > DAILY_CHALLENGE_CONFIG.MAX_ATTEMPTS) {
+      // Roll back so refused starts don't inflate the count
+      await kv.decr(key);
+      return null;
+    }
+    return used;
+  } catch (error) {
+    console.error('Failed to claim daily attempt:', error);
+    throw new Error('Daily attempt storage failed');
+  }
+}
+
+/**
+ * Daily challenge attempts a player has used
+ */
+export async function getDailyAttempts(day: string, address: string): Promise<number> {
+  try {
+    return (await kv.get<number>(KV_KEYS.dailyAttempts(day, address))) ?? 0;
+  } catch (error) {
+    console.error('Failed to get daily attempts:', error);
+    return 0;
+  }
+}
+
+/**
+ * Record a verified daily challenge score, keeping each player's best for the day
+ */
+export async function recordDailyScore(day: string, address: string, score: number): Promise<void> {
+  try {
+    const key = KV_KEYS.dailyLeaderboard(day);
+    await recordBestScore(key, address, score);
+    await kv.expire(key, DAILY_CHALLENGE_CONFIG.LEADERBOARD_TTL);
+  } catch (error) {
+    console.error('Failed to record daily score:', error);
+    throw new Error('Daily leaderboard storage failed');
+  }
+}
+
+/**
+ * Get a page of a day's leaderboard, best scores first
+ */
+export async function getDailyLeaderboard(
+  day: string,
+  offset: number,
+  limit: number
+): Promise<{ entries: ModeLeaderboardEntry[]; totalPlayers: number }> {
+  try {
+    const [entries, totalPlayers] = await Promise.all([
+      readLeaderboard(KV_KEYS.dailyLeaderboard(day), offset, limit),
+      kv.zcard(KV_KEYS.dailyLeaderboard(day)),
+    ]);
+    return { entries, totalPlayers };
+  } catch (error) {
+    console.error('Failed to get daily leaderboard:', error);
+    return { entries: [], totalPlayers: 0 };
+  }
+}
+
+/**
+ * A player's 1-based rank and best score for a day, or null if they have no ranked run
+ */
+export async function getDailyRank(day: string, address: string): Promise<{ rank: number; score: number } | null> {
+  try {
+    const key = KV_KEYS.dailyLeaderboard(day);
+    const [rank, score] = await Promise.all([kv.zrevrank(key, address), kv.zscore(key, address)]);
+    return rank === null || score === null ? null : { rank: rank + 1, score };
+  } catch (error) {
+    console.error('Failed to get daily rank:', error);
+    return null;
+  }
+}
+
+/**
+ * Archive a finished day's top results once; later calls for the same day are no-ops
+ */
+export async function archiveDailyLeaderboard(day: string): Promise<void> {
+  try {
+    const claimed = await kv.set(`${KV_KEYS.dailyArchive(day)}:lock`, 1, { nx: true, ex: DAILY_CHALLENGE_CONFIG.LEADERBOARD_TTL });
+    if (!claimed) return;
+
+    const { entries, totalPlayers } = await getDailyLeaderboard(day, 0, DAILY_CHALLENGE_CONFIG.ARCHIVE_TOP);
+    if (totalPlayers === 0) return;
+
+    const archive: KVDailyArchive = { day, totalPlayers, top: entries, archivedAt: Date.now() };
+    await kv.set(KV_KEYS.dailyArchive(day), archive);
+    await kv.lpush(KV_KEYS.dailyArchivedDays(), day);
+    await kv.ltrim(KV_KEYS.dailyArchivedDays(), 0, DAILY_CHALLENGE_CONFIG.ARCHIVE_DAYS - 1);
+  } catch (error) {
+    console.error('Failed to archive daily leaderboard:', error);
+  }
+}
+
+/**
+ * Get an archived day's results
+ */
+export async function getDailyArchive(day: string): Promise<KVDailyArchive | null> {
+  try {
+    return await kv.get<KVDailyArchive>(KV_KEYS.dailyArchive(day));
+  } catch (error) {
+    console.error('Failed to get daily archive:', error);
+    return null;
+  }
+}
+
+/**
+ * Most recent archived days, newest first
+ */
+export async function getArchivedDays(): Promise<string[]> {
+  try {
+    return await kv.lrange<string>(KV_KEYS.dailyArchivedDays(), 0, DAILY_CHALLENGE_CONFIG.ARCHIVE_DAYS - 1) || [];
+  } catch (error) {
+    console.error('Failed to get archived days:', error);
+    return [];
+  }
+}
+
+// A wallet's achievement collection; kept without expiry
+export interface KVPlayerAchievements {
+  address: string;
+  unlocks: AchievementUnlock[]; // Oldest first
+  progress: AchievementProgress;
+  updatedAt: number;
+}
+
+/**
+ * Get a wallet's unlocked achievements and progress
+ */
+export async function getPlayerAchievements(address: string): Promise<KVPlayerAchievements | null> {
+  try {
+    return await kv.get<KVPlayerAchievements>(KV_KEYS.playerAchievements(address));
+  } catch (error) {
+    console.error('Failed to get player achievements:', error);
+    return null;
+  }
+}
+
+/**
+ * Fold a verified run into a wallet's progress and store any new unlocks.
+ * Returns the unlocks this run earned.
+ */
+export async function recordRunAchievements(address: string, run: AchievementRun): Promise<AchievementUnlock[]> {
+  try {
+    const existing = await getPlayerAchievements(address);
+    const progress = updateAchievementProgress(existing?.progress ?? createAchievementProgress(), run);
+    const unlockedIds = existing?.unlocks.map(unlock => unlock.id) ?? [];
+
+    const now = Date.now();
+    const earned = evaluateAchievements(run, progress, unlockedIds)
+      .map(achievement => ({ id: achievement.id, sessionId: run.sessionId, unlockedAt: now }));
+
+    const record: KVPlayerAchievements = {
+      address,
+      unlocks: [...(existing?.unlocks ?? []), ...earned],
+      progress,
+      updatedAt: now,
+    };
+    await kv.set(KV_KEYS.playerAchievements(address), record);
+    return earned;
+  } catch (error) {
+    console.error('Failed to record achievements:', error);
+    throw new Error('Achievement storage failed');
+  }
+}
+
+/**
+ * Archive a finished run past its session's expiry and fold it into the wallet's lifetime totals
+ */
+export async function archiveRun(run: ArchivedRun): Promise<void> {
+  try {
+    await kv.set(KV_KEYS.runArchive(run.sessionId), run, { ex: PLAYER_STATS_CONFIG.ARCHIVE_TTL });
+
+    const historyKey = KV_KEYS.playerHistory(run.address);
+    await kv.lpush(historyKey, run.sessionId);
+    await kv.ltrim(historyKey, 0, PLAYER_STATS_CONFIG.HISTORY_RUNS - 1);
+
+    const totals = await getPlayerTotals(run.address);
+    await kv.set(KV_KEYS.playerTotals(run.address), addRunToTotals(totals ?? createPlayerTotals(), run));
+  } catch (error) {
+    console.error('Failed to archive run:', error);
+    throw new Error('Run archive storage failed');
+  }
+}
+
+/**
+ * Get an archived run
+ */
+export async function getArchivedRun(sessionId: string): Promise<ArchivedRun | null> {
+  try {
+    return await kv.get<ArchivedRun>(KV_KEYS.runArchive(sessionId));
+  } catch (error) {
+    console.error('Failed to get archived run:', error);
+    return null;
+  }
+}
+
+/**
+ * A wallet's archived runs, newest first (runs past the archive TTL are skipped)
+ */
+export async function getPlayerHistory(address: string, limit: number = PLAYER_STATS_CONFIG.HISTORY_RUNS): Promise<ArchivedRun[]> {
+  try {
+    const sessionIds = await kv.lrange<string>(KV_KEYS.playerHistory(address), 0, limit - 1) || [];
+    if (sessionIds.length === 0) return [];
+
+    const runs = await kv.mget<(ArchivedRun | null)[]>(...sessionIds.map(id => KV_KEYS.runArchive(id)));
+    return runs.filter((run): run is ArchivedRun => run !== null);
+  } catch (error) {
+    console.error('Failed to get player history:', error);
+    return [];
+  }
+}
+
+/**
+ * A wallet's lifetime totals over its verified runs
+ */
+export async function getPlayerTotals(address: string): Promise<PlayerTotals | null> {
+  try {
+    return await kv.get<PlayerTotals>(KV_KEYS.playerTotals(address));
+  } catch (error) {
+    console.error('Failed to get player totals:', error);
+    return null;
+  }
+}
+
+/**
+ * Keep a finished run's inputs so it can be replayed after its session expires
+ */
+export async function archiveRunReplay(input: ReplayInput): Promise<void> {
+  try {
+    await kv.set(KV_KEYS.runReplay(input.sessionId), input, { ex: PLAYER_STATS_CONFIG.ARCHIVE_TTL });
+  } catch (error) {
+    console.error('Failed to archive run replay:', error);
+    throw new Error('Replay archive storage failed');
+  }
+}
+
+/**
+ * Get an archived run's replay inputs
+ */
+export async function getRunReplay(sessionId: string): Promise<ReplayInput | null> {
+  try {
+    return await kv.get<ReplayInput>(KV_KEYS.runReplay(sessionId));
+  } catch (error) {
+    console.error('Failed to get run replay:', error);
+    return null;
+  }
+}
+
+/**
+ * Keep a verified run's score curve and make it the wallet's personal best
+ * for its mode if it beats the stored one. Returns whether it did.
+ */
+export async function recordRunPace(address: string, curve: PaceCurve): Promise<boolean> {
+  try {
+    await kv.set(KV_KEYS.runPace(curve.sessionId), curve, { ex: PLAYER_STATS_CONFIG.ARCHIVE_TTL });
+
+    const best = await getPersonalBestPace(address, curve.mode);
+    if (!isPersonalBestPace(curve, best)) return false;
+
+    await kv.set(KV_KEYS.playerBestPace(address, curve.mode), curve);
+    return true;
+  } catch (error) {
+    console.error('Failed to record run pace:', error);
+    throw new Error('Pace storage failed');
+  }
+}
+
+/**
+ * Score curve of a wallet's best verified run in a mode
+ */
+export async function getPersonalBestPace(address: string, mode: GameModeId): Promise<PaceCurve | null> {
+  try {
+    return await kv.get<PaceCurve>(KV_KEYS.playerBestPace(address, mode));
+  } catch (error) {
+    console.error('Failed to get personal best pace:', error);
+    return null;
+  }
+}
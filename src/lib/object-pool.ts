@@ -3,7 +3,7 @@
  * Optimizes memory usage and garbage collection by reusing game objects
  */
 
-import { GameObject, Vector2, createAABB } from './physics';
+import { GameObject, Vector2, createAABB, createGameObject } from './physics';
 
 interface PooledObject {
   object: GameObject;
@@ -57,16 +57,18 @@ export class ObjectPool {
    * Get an object from the pool, or create a new one if pool is exhausted
    */
   getObject(
+    id: string,
     type: GameObject['type'],
     position: Vector2,
     size: Vector2,
     fallSpeed: number,
+    spawnTime: number,
     cardType?: string
   ): GameObject {
     const pool = this.pools.get(type);
     if (!pool) {
       // Fallback: create new object if pool doesn't exist
-      return this.createNewObject(type, position, size, fallSpeed, cardType);
+      return createGameObject(id, type, position, size, fallSpeed, spawnTime, cardType);
     }
 
     // Find available object in pool
@@ -83,40 +85,23 @@ export class ObjectPool {
     const obj = pooledObject.object;
     pooledObject.inUse = true;
     
-    obj.id = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    obj.id = id;
     obj.position = { ...position };
     obj.velocity = { x: 0, y: fallSpeed };
     obj.size = { ...size };
     obj.hitbox = createAABB(position, size);
-    obj.spawnTime = Date.now();
+    obj.spawnTime = spawnTime;
     obj.isActive = true;
     obj.cardType = cardType;
+    obj.behaviour = undefined;
+    obj.hp = undefined;
+    obj.anchorX = undefined;
+    obj.age = undefined;
+    obj.unscaledSize = undefined;
 
     return obj;
   }
 
-  private createNewObject(
-    type: GameObject['type'],
-    position: Vector2,
-    size: Vector2,
-    fallSpeed: number,
-    cardType?: string
-  ): GameObject {
-    const id = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    return {
-      id,
-      type,
-      position: { ...position },
-      velocity: { x: 0, y: fallSpeed },
-      size: { ...size },
-      hitbox: createAABB(position, size),
-      spawnTime: Date.now(),
-      isActive: true,
-      cardType,
-    };
-  }
-
   /**
    * Return an object to the pool for reuse
    */
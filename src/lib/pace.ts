@@ -0,0 +1,89 @@
+/**
+ * Ghost pace for MonadRush
+ * Score-over-time curves re-simulated from a run's inputs, so a live run can
+ * be measured against the player's personal best at the same moment of game time.
+ */
+
+import {
+  SimulationConfig,
+  DEFAULT_SIMULATION_CONFIG,
+  createSimulationState,
+  isSimulationOver,
+} from './simulation';
+import { ReplayInput, getReplayTickCap, groupTapsByTick, stepReplay } from './replay-playback';
+import type { GameModeId } from './game-modes';
+
+export interface PaceCurve {
+  sessionId: string;
+  mode: GameModeId;
+  score: number; // Final score
+  endTick: number; // Tick the run ended on
+  intervalTicks: number; // Game time between samples
+  samples: number[]; // samples[i] is the score at tick i * intervalTicks; the last one is the final score
+}
+
+export const PACE_CONFIG = {
+  SAMPLE_INTERVAL_TICKS: 60, // One sample per second of game time
+} as const;
+
+/**
+ * Re-run a session from its inputs, sampling the score as it goes
+ */
+export function buildPaceCurve(
+  input: ReplayInput,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): PaceCurve {
+  const tapsByTick = groupTapsByTick(input.taps);
+  const state = createSimulationState(input.seed, config, input.mode, input.cardInventory);
+  const maxTicks = getReplayTickCap(input);
+  const samples: number[] = [];
+
+  while (!isSimulationOver(state) && state.tick < maxTicks) {
+    if (state.tick % PACE_CONFIG.SAMPLE_INTERVAL_TICKS === 0) {
+      samples.push(state.gameState.score);
+    }
+    stepReplay(state, { tapsByTick }, config);
+  }
+  samples.push(state.gameState.score);
+
+  return {
+    sessionId: input.sessionId,
+    mode: input.mode,
+    score: state.gameState.score,
+    endTick: state.tick,
+    intervalTicks: PACE_CONFIG.SAMPLE_INTERVAL_TICKS,
+    samples,
+  };
+}
+
+/**
+ * Score a curve had reached at a tick, interpolated between samples
+ * (the final score once the run is over)
+ */
+export function getPaceScore(curve: PaceCurve, tick: number): number {
+  if (tick >= curve.endTick) return curve.score;
+  if (tick <= 0) return curve.samples[0] ?? 0;
+
+  const index = Math.floor(tick / curve.intervalTicks);
+  const fromTick = index * curve.intervalTicks;
+  // The last sample lands on endTick rather than the next interval
+  const toTick = Math.min(fromTick + curve.intervalTicks, curve.endTick);
+  const from = curve.samples[index];
+  const to = curve.samples[index + 1] ?? curve.score;
+
+  return Math.round(from + ((to - from) * (tick - fromTick)) / (toTick - fromTick));
+}
+
+/**
+ * Points ahead of (positive) or behind (negative) a curve at a tick
+ */
+export function getPaceDelta(curve: PaceCurve, tick: number, score: number): number {
+  return score - getPaceScore(curve, tick);
+}
+
+/**
+ * Whether a curve beats the stored personal best for its mode
+ */
+export function isPersonalBestPace(curve: PaceCurve, best: PaceCurve | null): boolean {
+  return best === null || curve.score > best.score;
+}
@@ -5,6 +5,8 @@
 
 import { GameRNG } from './rng';
 import { gameObjectPool } from './object-pool';
+import { GameModeId, SpawnTable, getGameMode, getSpawnTable } from './game-modes';
+import { applyHazardBias } from './difficulty';
 
 export interface Vector2 {
   x: number;
@@ -28,16 +30,67 @@ export interface GameObject {
   spawnTime: number;
   isActive: boolean;
   cardType?: string; // For gift boxes
+  behaviour?: ObjectBehaviour; // Absent for plain falling objects
+  hp?: number; // Taps left before an armoured object breaks
+  anchorX?: number; // Horizontal line a swinging object oscillates around
+  age?: number; // Object-motion time (ms) since spawn, drives the swing
+  unscaledSize?: Vector2; // Size before a running shrink ray, restored when it ends
 }
 
+export type MotionPattern = 'none' | 'sine' | 'zigzag';
+
+export interface ObjectBehaviour {
+  motion: MotionPattern;
+  amplitude: number; // Sideways swing (px) either side of the anchor
+  period: number; // Object-motion ms per full swing
+  armour: number; // Hit points (1 = breaks on the first tap)
+  splits: boolean; // Breaks into two smaller logos instead of vanishing
+}
+
+export const BEHAVIOUR_CONFIG = {
+  MOTION_CHANCE_PER_LEVEL: 0.1, // Chance of swing motion grows by this per difficulty level
+  MAX_MOTION_CHANCE: 0.4,
+  SWING_AMPLITUDE: 60, // px
+  SWING_PERIOD: 1500, // ms
+  WIND_FROM_LEVEL: 2, // Wind blows from this level on, re-rolled each level
+  MAX_WIND: 30, // px per second of sideways drift
+  ARMOUR_FROM_LEVEL: 1,
+  ARMOUR_CHANCE: 0.15, // Of logos
+  ARMOUR_HP: 3,
+  SPLIT_FROM_LEVEL: 2,
+  SPLIT_CHANCE: 0.15, // Of unarmoured logos
+  SPLIT_SCALE: 0.7, // Size of each half relative to the parent
+  SPLIT_SPEED: 80, // px per second the halves fly apart
+} as const;
+
 export interface SpawnConfig {
   screenWidth: number;
   screenHeight: number;
   objectSize: Vector2;
   fallSpeed: number;
   spawnRate: number; // objects per second
+  mode?: GameModeId; // Spawn table and card pool (defaults to Classic)
+  hazardBias?: number; // Percent added to glitch and bomb odds by the adaptive director
+  level?: number; // Difficulty level, selects the mode's spawn table
+  spawnTableOverride?: SpawnTable; // Replaces the level's odds while a wave event runs
 }
 
+// Serializable spawn timer state, so a session can be resumed elsewhere
+export interface SpawnManagerSnapshot {
+  config: SpawnConfig;
+  lastSpawnTime: number;
+  nextSpawnDelay: number;
+  spawnCount: number;
+  spawnsSinceGift?: number; // Pity timer (absent in snapshots taken before it existed)
+  wind?: number; // Current sideways drift (px/s)
+  windLevel?: number; // Difficulty level the wind was rolled for
+}
+
+// Objects this many rows from the top still block new spawns in their column
+const SPAWN_CLEARANCE_ROWS = 2;
+// Free placement re-rolls an overlapping position at most this many times
+const MAX_PLACEMENT_ATTEMPTS = 6;
+
 /**
  * Create AABB from position and size
  */
@@ -81,16 +134,17 @@ export function pointInAABB(point: Vector2, aabb: AABB): boolean {
 
 /**
  * Create a new game object
+ * @param spawnTime Game time (ms) at which the object entered play
  */
 export function createGameObject(
+  id: string,
   type: 'logo' | 'glitch' | 'gift' | 'bomb',
   position: Vector2,
   size: Vector2,
   fallSpeed: number,
+  spawnTime: number,
   cardType?: string
 ): GameObject {
-  const id = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  
   return {
     id,
     type,
@@ -98,7 +152,7 @@ export function createGameObject(
     velocity: { x: 0, y: fallSpeed },
     size: { ...size },
     hitbox: createAABB(position, size),
-    spawnTime: Date.now(),
+    spawnTime,
     isActive: true,
     cardType,
   };
@@ -108,6 +162,23 @@ export function createGameObject(
  * Update game object position and hitbox
  */
 export function updateGameObject(obj: GameObject, deltaTime: number): GameObject {
+  if (obj.behaviour) {
+    const age = (obj.age ?? 0) + deltaTime;
+    const anchorX = (obj.anchorX ?? obj.position.x) + obj.velocity.x * deltaTime / 1000;
+    const swungPosition = {
+      x: anchorX + swingOffset(obj.behaviour, age),
+      y: obj.position.y + obj.velocity.y * deltaTime / 1000,
+    };
+
+    return {
+      ...obj,
+      position: swungPosition,
+      hitbox: createAABB(swungPosition, obj.size),
+      anchorX,
+      age,
+    };
+  }
+
   const newPosition = {
     x: obj.position.x + obj.velocity.x * deltaTime / 1000,
     y: obj.position.y + obj.velocity.y * deltaTime / 1000,
@@ -120,11 +191,72 @@ export function updateGameObject(obj: GameObject, deltaTime: number): GameObject
   };
 }
 
+/**
+ * Sideways offset of a swinging object at a given age.
+ * Uses a rational sine approximation rather than Math.sin, whose last bits
+ * differ between JS engines and would let client and server replay drift apart.
+ */
+export function swingOffset(behaviour: ObjectBehaviour, age: number): number {
+  if (behaviour.motion === 'none' || behaviour.period <= 0) return 0;
+
+  const phase = (age % behaviour.period) / behaviour.period;
+
+  if (behaviour.motion === 'zigzag') {
+    const wave = phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+    return behaviour.amplitude * wave;
+  }
+
+  // Bhaskara's approximation of sin(pi * u) on each half period
+  const half = phase < 0.5 ? 1 : -1;
+  const u = (phase % 0.5) * 2;
+  return half * behaviour.amplitude * (16 * u * (1 - u)) / (5 - 4 * u * (1 - u));
+}
+
+/**
+ * Land a tap on an object. Armour loses a hit point and the object stays up;
+ * otherwise it breaks, and splitting logos return their two halves.
+ * @param gameTime Game time (ms) of the tap, the spawn time of any halves
+ */
+export function strikeObject(obj: GameObject, gameTime: number): GameObject[] {
+  if (obj.hp !== undefined && obj.hp > 1) {
+    obj.hp--;
+    return [];
+  }
+
+  obj.isActive = false;
+  if (!obj.behaviour?.splits) return [];
+
+  const size = { x: obj.size.x * BEHAVIOUR_CONFIG.SPLIT_SCALE, y: obj.size.y * BEHAVIOUR_CONFIG.SPLIT_SCALE };
+  return [-1, 1].map((side, index) => {
+    const half = createGameObject(`${obj.id}${index === 0 ? 'a' : 'b'}`, obj.type, obj.position, size, obj.velocity.y, gameTime);
+    half.velocity.x = obj.velocity.x + side * BEHAVIOUR_CONFIG.SPLIT_SPEED;
+    if (obj.unscaledSize) {
+      // Halves of a shrunk parent are already shrunk and grow back to their own size
+      half.unscaledSize = {
+        x: obj.unscaledSize.x * BEHAVIOUR_CONFIG.SPLIT_SCALE,
+        y: obj.unscaledSize.y * BEHAVIOUR_CONFIG.SPLIT_SCALE,
+      };
+    }
+    return half;
+  });
+}
+
 /**
  * Check if object is off screen (for cleanup)
  */
-export function isOffScreen(obj: GameObject, screenHeight: number): boolean {
-  return obj.position.y > screenHeight + obj.size.y / 2;
+export function isOffScreen(obj: GameObject, screenHeight: number, screenWidth?: number): boolean {
+  const offSide = screenWidth !== undefined &&
+    (obj.position.x < -obj.size.x / 2 || obj.position.x > screenWidth + obj.size.x / 2);
+  return offSide || obj.position.y > screenHeight + obj.size.y / 2;
+}
+
+/**
+ * Evenly spaced lane positions across the spawnable width
+ */
+export function getLaneCenters(screenWidth: number, objectWidth: number, lanes: number): number[] {
+  const min = objectWidth / 2;
+  const span = screenWidth - objectWidth;
+  return Array.from({ length: lanes }, (_, lane) => Math.round(min + span * (lane + 0.5) / lanes));
 }
 
 /**
@@ -135,6 +267,10 @@ export class SpawnManager {
   private config: SpawnConfig;
   private lastSpawnTime: number = 0;
   private nextSpawnDelay: number = 0;
+  private spawnCount: number = 0;
+  private spawnsSinceGift: number = 0;
+  private wind: number = 0;
+  private windLevel: number = 0;
 
   constructor(rng: GameRNG, config: SpawnConfig) {
     this.rng = rng;
@@ -149,8 +285,14 @@ export class SpawnManager {
 
   /**
    * Update spawn manager and return new objects if it's time to spawn
+   * @param currentTime Game time in ms (never wall-clock time, so spawns replay identically)
+   * @param liveObjects Objects on screen, kept clear of when placing new ones
    */
-  update(currentTime: number, modifiers: { spawnRate: number; timeFrozen: boolean }): GameObject[] {
+  update(
+    currentTime: number,
+    modifiers: { spawnRate: number; timeFrozen: boolean },
+    liveObjects: GameObject[] = []
+  ): GameObject[] {
     if (modifiers.timeFrozen) {
       return [];
     }
@@ -158,7 +300,7 @@ export class SpawnManager {
     const timeSinceLastSpawn = currentTime - this.lastSpawnTime;
     
     if (timeSinceLastSpawn >= this.nextSpawnDelay) {
-      const objects = this.spawnObjects(modifiers.spawnRate);
+      const objects = this.spawnObjects(modifiers.spawnRate, currentTime, liveObjects);
       this.lastSpawnTime = currentTime;
       this.calculateNextSpawn();
       return objects;
@@ -167,15 +309,24 @@ export class SpawnManager {
     return [];
   }
 
-  private spawnObjects(spawnRateMultiplier: number): GameObject[] {
+  private spawnObjects(spawnRateMultiplier: number, spawnTime: number, liveObjects: GameObject[]): GameObject[] {
     const objects: GameObject[] = [];
     
     // Determine how many objects to spawn (usually 1, sometimes more during swarm)
     const spawnCount = spawnRateMultiplier > 2 ? this.rng.nextInt(2, 4) : 1;
+    const mode = getGameMode(this.config.mode);
+    const spawnTable = applyHazardBias(this.config.spawnTableOverride ?? getSpawnTable(mode, this.config.level ?? 0), this.config.hazardBias ?? 0);
+    const blockers = liveObjects.filter(obj => obj.isActive && obj.position.y < this.config.objectSize.y * SPAWN_CLEARANCE_ROWS);
+    const level = this.config.level ?? 0;
+    this.updateWind(level);
     
     for (let i = 0; i < spawnCount; i++) {
-      const objectType = this.rng.objectType();
-      const spawnX = this.rng.spawnX(this.config.screenWidth, this.config.objectSize.x);
+      // The pity timer forces a gift without rolling once the drought is long enough
+      const pityDue = mode.giftPity > 0 && this.spawnsSinceGift >= mode.giftPity;
+      const objectType = pityDue ? 'gift' : this.rng.objectType(spawnTable);
+      this.spawnsSinceGift = objectType === 'gift' ? 0 : this.spawnsSinceGift + 1;
+
+      const spawnX = this.placeSpawnX(blockers, mode.lanes);
       const fallSpeed = this.rng.fallSpeed(this.config.fallSpeed);
       
       const position: Vector2 = {
@@ -185,23 +336,134 @@ export class SpawnManager {
 
       let cardType: string | undefined;
       if (objectType === 'gift') {
-        cardType = this.rng.magicCard();
+        cardType = this.rng.magicCard(mode.excludedCards);
       }
 
+      // IDs come from a per-session counter so replays produce identical objects
+      const id = `${objectType}_${this.spawnCount++}`;
+
       // Use object pool for better performance
-      const obj = gameObjectPool.getObject(objectType, position, this.config.objectSize, fallSpeed, cardType);
+      const obj = gameObjectPool.getObject(id, objectType, position, this.config.objectSize, fallSpeed, spawnTime, cardType);
+      obj.velocity.x = this.wind;
+      const behaviour = this.rollBehaviour(objectType, level, spawnX);
+      if (behaviour) {
+        obj.behaviour = behaviour;
+        obj.hp = behaviour.armour > 1 ? behaviour.armour : undefined;
+        obj.anchorX = spawnX;
+        obj.age = 0;
+      }
       objects.push(obj);
+      blockers.push(obj);
     }
 
     return objects;
   }
 
+  /**
+   * Re-roll the wind when the difficulty level changes (calm below the wind level)
+   */
+  private updateWind(level: number): void {
+    if (level === this.windLevel) return;
+    this.windLevel = level;
+    this.wind = level >= BEHAVIOUR_CONFIG.WIND_FROM_LEVEL
+      ? Math.round(this.rng.nextFloat() * 2 * BEHAVIOUR_CONFIG.MAX_WIND - BEHAVIOUR_CONFIG.MAX_WIND)
+      : 0;
+  }
+
+  /**
+   * Roll swing motion, armour and splitting for a new object.
+   * Level 0 makes no rolls, so opening spawn streams are unchanged.
+   */
+  private rollBehaviour(type: GameObject['type'], level: number, spawnX: number): ObjectBehaviour | undefined {
+    if (level < 1 || type === 'gift') return undefined;
+
+    const motionChance = Math.min(BEHAVIOUR_CONFIG.MAX_MOTION_CHANCE, BEHAVIOUR_CONFIG.MOTION_CHANCE_PER_LEVEL * level);
+    let motion: MotionPattern = 'none';
+    if (this.rng.nextFloat() < motionChance) {
+      motion = this.rng.nextFloat() < 0.5 ? 'sine' : 'zigzag';
+    }
+
+    let armour = 1;
+    let splits = false;
+    if (type === 'logo') {
+      if (level >= BEHAVIOUR_CONFIG.ARMOUR_FROM_LEVEL && this.rng.nextFloat() < BEHAVIOUR_CONFIG.ARMOUR_CHANCE) {
+        armour = BEHAVIOUR_CONFIG.ARMOUR_HP;
+      } else if (level >= BEHAVIOUR_CONFIG.SPLIT_FROM_LEVEL && this.rng.nextFloat() < BEHAVIOUR_CONFIG.SPLIT_CHANCE) {
+        splits = true;
+      }
+    }
+
+    if (motion === 'none' && armour === 1 && !splits) return undefined;
+
+    // Keep the swing on screen for objects spawned near an edge
+    const halfWidth = this.config.objectSize.x / 2;
+    const amplitude = Math.max(0, Math.min(BEHAVIOUR_CONFIG.SWING_AMPLITUDE, spawnX - halfWidth, this.config.screenWidth - halfWidth - spawnX));
+
+    return {
+      motion: amplitude > 0 ? motion : 'none',
+      amplitude,
+      period: BEHAVIOUR_CONFIG.SWING_PERIOD,
+      armour,
+      splits,
+    };
+  }
+
+  /**
+   * Pick a spawn column clear of objects still near the top of the screen.
+   * With lanes, a free lane is chosen (any lane if all are blocked); otherwise
+   * the position is re-rolled a few times before accepting an overlap.
+   */
+  private placeSpawnX(blockers: GameObject[], lanes: number): number {
+    const { screenWidth, objectSize } = this.config;
+    const overlaps = (x: number) => blockers.some(obj => Math.abs(obj.position.x - x) < (obj.size.x + objectSize.x) / 2);
+
+    if (lanes > 0) {
+      const centers = getLaneCenters(screenWidth, objectSize.x, lanes);
+      const free = centers.filter(x => !overlaps(x));
+      return this.rng.spawnLane(free.length > 0 ? free : centers);
+    }
+
+    let x = this.rng.spawnX(screenWidth, objectSize.x);
+    for (let attempt = 1; attempt < MAX_PLACEMENT_ATTEMPTS && overlaps(x); attempt++) {
+      x = this.rng.spawnX(screenWidth, objectSize.x);
+    }
+    return x;
+  }
+
   /**
    * Update spawn configuration
    */
   updateConfig(config: Partial<SpawnConfig>): void {
     this.config = { ...this.config, ...config };
   }
+
+  /**
+   * Capture spawn timer state
+   */
+  getSnapshot(): SpawnManagerSnapshot {
+    return {
+      config: { ...this.config, objectSize: { ...this.config.objectSize } },
+      lastSpawnTime: this.lastSpawnTime,
+      nextSpawnDelay: this.nextSpawnDelay,
+      spawnCount: this.spawnCount,
+      spawnsSinceGift: this.spawnsSinceGift,
+      wind: this.wind,
+      windLevel: this.windLevel,
+    };
+  }
+
+  /**
+   * Restore spawn timer state captured by getSnapshot
+   */
+  restoreSnapshot(snapshot: SpawnManagerSnapshot): void {
+    this.config = { ...snapshot.config, objectSize: { ...snapshot.config.objectSize } };
+    this.lastSpawnTime = snapshot.lastSpawnTime;
+    this.nextSpawnDelay = snapshot.nextSpawnDelay;
+    this.spawnCount = snapshot.spawnCount;
+    this.spawnsSinceGift = snapshot.spawnsSinceGift ?? 0;
+    this.wind = snapshot.wind ?? 0;
+    this.windLevel = snapshot.windLevel ?? 0;
+  }
 }
 
 /**
@@ -219,10 +481,12 @@ export function findTappedObjects(
     return [];
   }
 
-  // Sort by priority: Gift Box > Monad Logo > Glitch > Bomb
+  // Sort by priority: Gift Box > Monad Logo > Glitch > Bomb; swinging objects
+  // can cross, so ties go to the object whose centre is nearest the tap
+  const distance = (obj: GameObject) => Math.abs(obj.position.x - tapPosition.x) + Math.abs(obj.position.y - tapPosition.y);
   tappedObjects.sort((a, b) => {
     const priorityOrder = { gift: 4, logo: 3, glitch: 2, bomb: 1 };
-    return priorityOrder[b.type] - priorityOrder[a.type];
+    return priorityOrder[b.type] - priorityOrder[a.type] || distance(a) - distance(b);
   });
 
   // Return highest priority object
@@ -260,12 +524,13 @@ export function applySpeedModifier(obj: GameObject, modifier: number): GameObjec
 
 /**
  * Remove glitches from object list (for glitch purge effect)
+ * Only live glitches count towards the bonus
  */
 export function purgeGlitches(objects: GameObject[]): { 
   remainingObjects: GameObject[]; 
   glitchCount: number; 
 } {
-  const glitchCount = objects.filter(obj => obj.type === 'glitch').length;
+  const glitchCount = objects.filter(obj => obj.type === 'glitch' && obj.isActive).length;
   const remainingObjects = objects.filter(obj => obj.type !== 'glitch');
   
   return { remainingObjects, glitchCount };
@@ -290,6 +555,13 @@ export function predictObjectPosition(
   futureTime: number
 ): Vector2 {
   const deltaTime = futureTime - obj.spawnTime;
+  if (obj.behaviour) {
+    const anchorX = (obj.anchorX ?? obj.position.x) + obj.velocity.x * deltaTime / 1000;
+    return {
+      x: anchorX + swingOffset(obj.behaviour, (obj.age ?? 0) + deltaTime),
+      y: obj.position.y + obj.velocity.y * deltaTime / 1000,
+    };
+  }
   return {
     x: obj.position.x + obj.velocity.x * deltaTime / 1000,
     y: obj.position.y + obj.velocity.y * deltaTime / 1000,
@@ -0,0 +1,141 @@
+/**
+ * Player profile stats for MonadRush
+ * Archived runs and the lifetime totals folded from them. Only the server's
+ * verified replay feeds these numbers; unverified runs are listed but never counted.
+ */
+
+import type { ReplayStats } from './replay-verification';
+import type { GameModeId } from './game-modes';
+
+// A finished session, archived by the finish route after its replay
+export interface ArchivedRun {
+  sessionId: string;
+  address: string;
+  mode: GameModeId;
+  daily?: string; // Challenge day, for daily runs
+  cardInventory?: boolean;
+  score: number; // Server replay score
+  isValid: boolean;
+  startTime: number;
+  finishedAt: number;
+  durationMs: number; // Simulated game time the replay covered
+  stats: ReplayStats;
+}
+
+// Running totals over a wallet's verified runs
+export interface PlayerTotals {
+  runs: number;
+  bestScore: number;
+  totalScore: number;
+  playtimeMs: number;
+  taps: number; // Board taps (inventory activations excluded)
+  hits: number; // Taps on logos and gifts
+  cardsPlayed: Record<string, number>;
+  firstPlayedAt: number | null;
+  lastPlayedAt: number | null;
+}
+
+// Lifetime stats as shown on a profile
+export interface PlayerSummary {
+  runs: number;
+  bestScore: number;
+  averageScore: number;
+  accuracy: number; // Hits per board tap, 0-1
+  favouriteCard: string | null; // Most played card id
+  playtimeMs: number;
+  firstPlayedAt: number | null;
+  lastPlayedAt: number | null;
+}
+
+export interface ScoreTrendPoint {
+  sessionId: string;
+  mode: GameModeId;
+  score: number;
+  finishedAt: number;
+}
+
+export const PLAYER_STATS_CONFIG = {
+  HISTORY_RUNS: 50, // Archived runs kept per wallet
+  RECENT_RUNS: 10, // Runs listed on a profile
+  ARCHIVE_TTL: 90 * 86400, // Seconds an archived run is kept
+} as const;
+
+/**
+ * No verified runs yet
+ */
+export function createPlayerTotals(): PlayerTotals {
+  return {
+    runs: 0,
+    bestScore: 0,
+    totalScore: 0,
+    playtimeMs: 0,
+    taps: 0,
+    hits: 0,
+    cardsPlayed: {},
+    firstPlayedAt: null,
+    lastPlayedAt: null,
+  };
+}
+
+/**
+ * Fold a run into a wallet's totals (unverified runs leave them unchanged)
+ */
+export function addRunToTotals(totals: PlayerTotals, run: ArchivedRun): PlayerTotals {
+  if (!run.isValid) return totals;
+
+  const cardsPlayed = { ...totals.cardsPlayed };
+  for (const [cardId, count] of Object.entries(run.stats.cardsPlayed)) {
+    cardsPlayed[cardId] = (cardsPlayed[cardId] ?? 0) + count;
+  }
+
+  return {
+    runs: totals.runs + 1,
+    bestScore: Math.max(totals.bestScore, run.score),
+    totalScore: totals.totalScore + run.score,
+    playtimeMs: totals.playtimeMs + run.durationMs,
+    taps: totals.taps + run.stats.totalTaps - run.stats.activations,
+    hits: totals.hits + run.stats.logos + run.stats.gifts,
+    cardsPlayed,
+    firstPlayedAt: Math.min(totals.firstPlayedAt ?? run.finishedAt, run.finishedAt),
+    lastPlayedAt: Math.max(totals.lastPlayedAt ?? run.finishedAt, run.finishedAt),
+  };
+}
+
+/**
+ * Most played card id (ties keep the card counted first)
+ */
+export function getFavouriteCard(cardsPlayed: Record<string, number>): string | null {
+  let favourite: string | null = null;
+  for (const [cardId, count] of Object.entries(cardsPlayed)) {
+    if (count > 0 && (favourite === null || count > cardsPlayed[favourite])) {
+      favourite = cardId;
+    }
+  }
+  return favourite;
+}
+
+/**
+ * Lifetime stats for a profile
+ */
+export function summarizePlayer(totals: PlayerTotals): PlayerSummary {
+  return {
+    runs: totals.runs,
+    bestScore: totals.bestScore,
+    averageScore: totals.runs > 0 ? Math.round(totals.totalScore / totals.runs) : 0,
+    accuracy: totals.taps > 0 ? totals.hits / totals.taps : 0,
+    favouriteCard: getFavouriteCard(totals.cardsPlayed),
+    playtimeMs: totals.playtimeMs,
+    firstPlayedAt: totals.firstPlayedAt,
+    lastPlayedAt: totals.lastPlayedAt,
+  };
+}
+
+/**
+ * Verified scores over time, oldest first
+ */
+export function getScoreTrend(runs: ArchivedRun[], mode?: GameModeId): ScoreTrendPoint[] {
+  return runs
+    .filter(run => run.isValid && (!mode || run.mode === mode))
+    .sort((a, b) => a.finishedAt - b.finishedAt)
+    .map(run => ({ sessionId: run.sessionId, mode: run.mode, score: run.score, finishedAt: run.finishedAt }));
+}
@@ -0,0 +1,385 @@
+/**
+ * Replay file format for MonadRush
+ * A run's seed, rules and inputs in a versioned, shareable form: readable
+ * JSON for bug reports, or compact binary (as base64) for pasting around.
+ * Taps are stored as tick deltas; only inputs are kept, never outcomes.
+ */
+
+import type { GameSession } from './game-state';
+import type { ReplayInput } from './replay-playback';
+import type { ReplayTap, TapType } from './replay-verification';
+import { DEFAULT_SIMULATION_CONFIG, GAME_RULES_VERSION, SIMULATION_TICK_MS } from './simulation';
+import { CARD_DEFINITIONS } from './cards';
+import { GameModeId, isGameModeId } from './game-modes';
+
+// Bump when the file layout changes (not the game rules)
+export const REPLAY_FORMAT_VERSION = 2;
+
+const JSON_FORMAT_ID = 'monadrush-replay';
+const BINARY_MAGIC = [0x4d, 0x52, 0x52, 0x50]; // "MRRP"
+
+// Order is part of the binary format: append only
+const TAP_TYPES: readonly TapType[] = ['logo', 'glitch', 'gift', 'bomb', 'miss', 'activate'];
+
+export interface ReplayViewport {
+  width: number;
+  height: number;
+}
+
+export interface ReplayFile extends ReplayInput {
+  rulesVersion: number; // GAME_RULES_VERSION the run was played under
+  viewport: ReplayViewport; // Simulation screen size the run was played at
+}
+
+// A tap as stored in JSON: tick delta from the previous tap, then the input
+export type EncodedTap =
+  | [tickDelta: number, result: Exclude<TapType, 'activate'>, x: number, y: number]
+  | [tickDelta: number, result: 'activate', cardId: string];
+
+export interface ReplayFileJson {
+  format: typeof JSON_FORMAT_ID;
+  version: number;
+  rulesVersion: number;
+  sessionId: string;
+  seed: number;
+  mode: GameModeId;
+  cardInventory: boolean;
+  viewport: ReplayViewport;
+  taps: EncodedTap[];
+  endTick?: number; // Tick the run ended on, when known
+}
+
+/**
+ * Wrap replay inputs as a file for the current rules
+ */
+export function createReplayFile(
+  input: ReplayInput,
+  viewport: ReplayViewport = { width: DEFAULT_SIMULATION_CONFIG.screenWidth, height: DEFAULT_SIMULATION_CONFIG.screenHeight }
+): ReplayFile {
+  return { ...input, rulesVersion: GAME_RULES_VERSION, viewport: { ...viewport } };
+}
+
+/**
+ * Replay inputs of a client session (finished or in progress)
+ */
+export function getSessionReplayInput(
+  session: Pick<GameSession, 'id' | 'simulationSeed' | 'gameState' | 'tapHistory' | 'tick' | 'state'>
+): ReplayInput {
+  return {
+    sessionId: session.id,
+    seed: session.simulationSeed,
+    mode: session.gameState.mode,
+    cardInventory: session.gameState.inventory !== undefined,
+    taps: session.tapHistory.map(tap => ({ ...tap, position: { ...tap.position } })),
+    endTick: session.state === 'FINISHED' ? session.tick : undefined,
+  };
+}
+
+/**
+ * Readable JSON form
+ */
+export function encodeReplayJson(file: ReplayFile): string {
+  let previousTick = 0;
+  const taps = file.taps.map((tap): EncodedTap => {
+    const tickDelta = tap.tick - previousTick;
+    previousTick = tap.tick;
+    return tap.result === 'activate'
+      ? [tickDelta, 'activate', tap.targetId ?? '']
+      : [tickDelta, tap.result, tap.position.x, tap.position.y];
+  });
+
+  const json: ReplayFileJson = {
+    format: JSON_FORMAT_ID,
+    version: REPLAY_FORMAT_VERSION,
+    rulesVersion: file.rulesVersion,
+    sessionId: file.sessionId,
+    seed: file.seed,
+    mode: file.mode,
+    cardInventory: !!file.cardInventory,
+    viewport: file.viewport,
+    taps,
+    endTick: file.endTick,
+  };
+  return JSON.stringify(json);
+}
+
+/**
+ * Compact binary form. Layout: magic, format version (u8), rules version (u16),
+ * flags (u8), seed (i32), viewport (u16 x2), mode and session id (u8-length
+ * strings), tap count (varint), then per tap: tick delta (varint), type (u8)
+ * and either x, y (f64, exact) or the card's registry index (u8); last, the
+ * end tick (varint) when flag 2 is set.
+ */
+export function encodeReplayBinary(file: ReplayFile): Uint8Array {
+  const writer = new ByteWriter();
+  BINARY_MAGIC.forEach(byte => writer.u8(byte));
+  writer.u8(REPLAY_FORMAT_VERSION);
+  writer.u16(file.rulesVersion);
+  writer.u8((file.cardInventory ? 1 : 0) | (file.endTick !== undefined ? 2 : 0));
+  writer.i32(file.seed);
+  writer.u16(file.viewport.width);
+  writer.u16(file.viewport.height);
+  writer.string(file.mode);
+  writer.string(file.sessionId);
+  writer.varint(file.taps.length);
+
+  let previousTick = 0;
+  file.taps.forEach(tap => {
+    writer.varint(tap.tick - previousTick);
+    previousTick = tap.tick;
+    writer.u8(TAP_TYPES.indexOf(tap.result));
+
+    if (tap.result === 'activate') {
+      const cardIndex = CARD_DEFINITIONS.findIndex(card => card.id === tap.targetId);
+      if (cardIndex < 0) throw new Error(`Cannot encode unknown card ${tap.targetId ?? '(none)'}`);
+      writer.u8(cardIndex);
+    } else {
+      writer.f64(tap.position.x);
+      writer.f64(tap.position.y);
+    }
+  });
+  if (file.endTick !== undefined) writer.varint(file.endTick);
+
+  return writer.bytes();
+}
+
+/**
+ * Binary form as base64 text
+ */
+export function encodeReplayBase64(file: ReplayFile): string {
+  let binary = '';
+  encodeReplayBinary(file).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Read a replay in either form (JSON or base64). Throws with the reason when
+ * the data is not a replay this build can play, including a rules version mismatch.
+ */
+export function decodeReplay(text: string): ReplayFile {
+  const trimmed = text.trim();
+  const file = trimmed.startsWith('{') ? decodeReplayJson(trimmed) : decodeReplayBinary(base64ToBytes(trimmed));
+
+  if (file.rulesVersion !== GAME_RULES_VERSION) {
+    throw new Error(
+      `This replay was recorded under game rules v${file.rulesVersion}, but this build runs v${GAME_RULES_VERSION}. ` +
+      'Spawns and scoring have changed since, so it would not play back the way it happened.'
+    );
+  }
+  return file;
+}
+
+function decodeReplayJson(text: string): ReplayFile {
+  let json: ReplayFileJson;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Replay JSON could not be parsed');
+  }
+
+  if (json?.format !== JSON_FORMAT_ID) throw new Error('Not a MonadRush replay file');
+  checkFormatVersion(json.version);
+  if (!isGameModeId(json.mode)) throw new Error(`Replay uses unknown game mode ${json.mode}`);
+  if (!Array.isArray(json.taps)) throw new Error('Replay file has no tap list');
+
+  if (!isFiniteNumber(json.seed)) throw new Error('Replay seed is not a number');
+  if (!isFiniteNumber(json.viewport?.width) || !isFiniteNumber(json.viewport?.height)) {
+    throw new Error('Replay viewport is missing or not a number');
+  }
+  if (json.endTick !== undefined && (!Number.isInteger(json.endTick) || json.endTick < 0)) {
+    throw new Error('Replay end tick is not a valid tick');
+  }
+
+  let tick = 0;
+  const taps = json.taps.map((encoded, index): ReplayTap => {
+    if (!Array.isArray(encoded)) throw new Error(`Replay tap ${index + 1} is not a tap entry`);
+    const [tickDelta, result] = encoded;
+    if (!Number.isInteger(tickDelta) || tickDelta < 0) {
+      throw new Error(`Replay tap ${index + 1} has an invalid tick delta`);
+    }
+    if (!TAP_TYPES.includes(result)) throw new Error(`Replay contains unknown tap type ${result}`);
+    tick += tickDelta;
+
+    if (encoded[1] === 'activate') {
+      const cardId = encoded[2];
+      if (!CARD_DEFINITIONS.some(card => card.id === cardId)) throw new Error('Replay plays an unknown card');
+      return createTap(tick, 'activate', { x: 0, y: 0 }, cardId);
+    }
+    const [, , x, y] = encoded;
+    if (!isFiniteNumber(x) || !isFiniteNumber(y)) {
+      throw new Error(`Replay tap ${index + 1} has an invalid position`);
+    }
+    return createTap(tick, encoded[1], { x, y });
+  });
+
+  return {
+    sessionId: String(json.sessionId),
+    seed: json.seed,
+    mode: json.mode,
+    cardInventory: !!json.cardInventory,
+    rulesVersion: Number(json.rulesVersion),
+    viewport: { width: json.viewport.width, height: json.viewport.height },
+    taps,
+    endTick: json.endTick,
+  };
+}
+
+function decodeReplayBinary(bytes: Uint8Array): ReplayFile {
+  const reader = new ByteReader(bytes);
+  if (!BINARY_MAGIC.every(byte => reader.u8() === byte)) throw new Error('Not a MonadRush replay code');
+  checkFormatVersion(reader.u8());
+
+  const rulesVersion = reader.u16();
+  const flags = reader.u8();
+  const seed = reader.i32();
+  const viewport = { width: reader.u16(), height: reader.u16() };
+  const mode = reader.string();
+  const sessionId = reader.string();
+  if (!isGameModeId(mode)) throw new Error(`Replay uses unknown game mode ${mode}`);
+
+  const count = reader.varint();
+  const taps: ReplayTap[] = [];
+  let tick = 0;
+  for (let i = 0; i < count; i++) {
+    tick += reader.varint();
+    const result = TAP_TYPES[reader.u8()];
+    if (!result) throw new Error('Replay contains an unknown tap type');
+
+    if (result === 'activate') {
+      const card = CARD_DEFINITIONS[reader.u8()];
+      if (!card) throw new Error('Replay plays an unknown card');
+      taps.push(createTap(tick, result, { x: 0, y: 0 }, card.id));
+    } else {
+      taps.push(createTap(tick, result, { x: reader.f64(), y: reader.f64() }));
+    }
+  }
+
+  const endTick = (flags & 2) === 2 ? reader.varint() : undefined;
+
+  return { sessionId, seed, mode, cardInventory: (flags & 1) === 1, rulesVersion, viewport, taps, endTick };
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function checkFormatVersion(version: number): void {
+  if (version !== REPLAY_FORMAT_VERSION) {
+    throw new Error(`Replay file format v${version} is not supported (this build reads v${REPLAY_FORMAT_VERSION})`);
+  }
+}
+
+// Wall-clock timestamps are not stored; game time at the tap stands in for them
+function createTap(tick: number, result: TapType, position: { x: number; y: number }, targetId?: string): ReplayTap {
+  return { timestamp: Math.round(tick * SIMULATION_TICK_MS), tick, position, targetId, result };
+}
+
+function base64ToBytes(text: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(text.replace(/\s+/g, ''));
+  } catch {
+    throw new Error('Replay code is neither JSON nor valid base64');
+  }
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+class ByteWriter {
+  private data: number[] = [];
+  private scratch = new DataView(new ArrayBuffer(8));
+
+  u8(value: number) {
+    this.data.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.scratch.setUint16(0, value);
+    this.copy(2);
+  }
+
+  i32(value: number) {
+    this.scratch.setInt32(0, value | 0);
+    this.copy(4);
+  }
+
+  f64(value: number) {
+    this.scratch.setFloat64(0, value);
+    this.copy(8);
+  }
+
+  // Unsigned LEB128
+  varint(value: number) {
+    let remaining = Math.max(0, Math.floor(value));
+    while (remaining >= 0x80) {
+      this.data.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.data.push(remaining);
+  }
+
+  // Mode and session ids are ASCII
+  string(value: string) {
+    if (value.length > 0xff || /[^\x20-\x7e]/.test(value)) throw new Error(`Cannot encode replay field ${value}`);
+    this.u8(value.length);
+    for (let i = 0; i < value.length; i++) this.data.push(value.charCodeAt(i));
+  }
+
+  bytes(): Uint8Array {
+    return Uint8Array.from(this.data);
+  }
+
+  private copy(length: number) {
+    for (let i = 0; i < length; i++) this.data.push(this.scratch.getUint8(i));
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  i32(): number {
+    return this.view.getInt32(this.take(4));
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  string(): string {
+    const length = this.u8();
+    const start = this.take(length);
+    return String.fromCharCode(...this.data.subarray(start, start + length));
+  }
+
+  private take(length: number): number {
+    if (this.offset + length > this.data.length) throw new Error('Replay data is truncated');
+    const start = this.offset;
+    this.offset += length;
+    return start;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Replay playback for MonadRush
+ * Re-runs a finished session from its seed and stored inputs so it can be
+ * watched, paused and scrubbed. Keyframe snapshots taken on a first headless
+ * pass make seeking cheap in both directions.
+ */
+
+import {
+  SimulationConfig,
+  SimulationSnapshot,
+  SimulationState,
+  DEFAULT_SIMULATION_CONFIG,
+  createSimulationState,
+  snapshotSimulation,
+  restoreSimulation,
+  applySimulationTap,
+  applySimulationActivation,
+  stepSimulation,
+  isSimulationOver,
+  msToTicks,
+} from './simulation';
+import type { ReplayTap } from './replay-verification';
+import { GameModeId, getGameMode, getMaxGameTimeMs } from './game-modes';
+
+// Everything needed to re-run a session
+export interface ReplayInput {
+  sessionId: string;
+  seed: number; // Simulation seed (already derived from the session id and seed)
+  mode: GameModeId;
+  cardInventory?: boolean;
+  taps: ReplayTap[]; // In the order they were applied
+  endTick?: number; // Tick the run ended on, when known
+}
+
+export interface ReplayTimeline {
+  endTick: number; // Tick the run ended on (or the mode's session cap)
+  keyframes: SimulationSnapshot[]; // keyframes[i] is the state at tick i * KEYFRAME_INTERVAL_TICKS, before that tick's taps
+  tapsByTick: Map<number, ReplayTap[]>;
+}
+
+export const PLAYBACK_CONFIG = {
+  KEYFRAME_INTERVAL_TICKS: 300, // 5 seconds
+  SPEEDS: [0.25, 0.5, 1, 2, 4] as number[],
+  TAP_MARKER_TICKS: 30, // How long a tap stays marked on screen
+} as const;
+
+/**
+ * Apply the taps recorded for the current tick, then advance one tick.
+ * Returns the taps applied.
+ */
+export function stepReplay(
+  state: SimulationState,
+  timeline: Pick<ReplayTimeline, 'tapsByTick'>,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): ReplayTap[] {
+  const taps = timeline.tapsByTick.get(state.tick) ?? [];
+
+  taps.forEach(tap => {
+    if (tap.result === 'activate') {
+      applySimulationActivation(state, tap.targetId ?? '', config);
+    } else {
+      applySimulationTap(state, tap.position, config);
+    }
+  });
+  stepSimulation(state, config);
+
+  return taps;
+}
+
+/**
+ * Taps keyed by the tick they were applied on, in order
+ */
+export function groupTapsByTick(taps: ReplayTap[]): Map<number, ReplayTap[]> {
+  const tapsByTick = new Map<number, ReplayTap[]>();
+  taps.forEach(tap => {
+    tapsByTick.set(tap.tick, [...(tapsByTick.get(tap.tick) ?? []), tap]);
+  });
+  return tapsByTick;
+}
+
+/**
+ * Tick a replay is stopped at if it has not ended by itself: the tick the run
+ * ended on when that was recorded, otherwise the mode's session cap (which
+ * only stops a run abandoned in an untimed mode)
+ */
+export function getReplayTickCap(input: ReplayInput): number {
+  const lastTapTick = input.taps.reduce((last, tap) => Math.max(last, tap.tick), 0);
+  if (input.endTick !== undefined) {
+    // Taps on the final tick are applied before it is stepped
+    return Math.max(input.endTick, lastTapTick + 1);
+  }
+  return Math.max(msToTicks(getMaxGameTimeMs(getGameMode(input.mode))), lastTapTick) + 1;
+}
+
+/**
+ * Run a replay headlessly to its end, keeping a keyframe every interval
+ */
+export function buildReplayTimeline(
+  input: ReplayInput,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): ReplayTimeline {
+  const tapsByTick = groupTapsByTick(input.taps);
+  const state = createSimulationState(input.seed, config, input.mode, input.cardInventory);
+  const maxTicks = getReplayTickCap(input);
+  const keyframes: SimulationSnapshot[] = [];
+
+  while (!isSimulationOver(state) && state.tick < maxTicks) {
+    if (state.tick % PLAYBACK_CONFIG.KEYFRAME_INTERVAL_TICKS === 0) {
+      keyframes.push(snapshotSimulation(state));
+    }
+    stepReplay(state, { tapsByTick }, config);
+  }
+
+  return { endTick: state.tick, keyframes, tapsByTick };
+}
+
+/**
+ * Simulation state at a tick of the replay (clamped to the run), rebuilt
+ * from the nearest earlier keyframe
+ */
+export function seekReplay(
+  timeline: ReplayTimeline,
+  tick: number,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): SimulationState {
+  const target = Math.max(0, Math.min(Math.round(tick), timeline.endTick));
+  const index = Math.min(Math.floor(target / PLAYBACK_CONFIG.KEYFRAME_INTERVAL_TICKS), timeline.keyframes.length - 1);
+  const state = restoreSimulation(timeline.keyframes[index], config);
+
+  while (state.tick < target) {
+    stepReplay(state, timeline, config);
+  }
+
+  return state;
+}
+
+/**
+ * Taps applied before a tick, oldest first
+ */
+export function getTapsBefore(input: ReplayInput, tick: number): ReplayTap[] {
+  return input.taps.filter(tap => tap.tick < tick);
+}
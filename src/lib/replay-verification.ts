@@ -0,0 +1,227 @@
+/**
+ * Authoritative server-side replay verification for MonadRush
+ * Regenerates the spawn stream from the session seed and checks every tap
+ */
+
+import { GameState } from './game-logic';
+import { ValidationPipeline, ValidationResult, actionValidationPipeline } from './anti-cheat';
+import {
+  SimulationConfig,
+  DEFAULT_SIMULATION_CONFIG,
+  createSimulationState,
+  applySimulationTap,
+  applySimulationActivation,
+  stepSimulation,
+  isSimulationOver,
+} from './simulation';
+import type { PauseInterval } from './game-clock';
+import { GameModeId, getGameMode, getSessionTimeLimit } from './game-modes';
+import type { DirectorDecision } from './difficulty';
+import type { WaveRecord } from './wave-events';
+
+export type TapType = 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+
+// Tap (or held card activation) as reported by the client
+export interface ReplayTap {
+  timestamp: number;
+  tick: number;
+  position: { x: number; y: number };
+  targetId?: string; // Card id for 'activate'
+  result: TapType;
+}
+
+export interface TapVerdict {
+  index: number;
+  tick: number;
+  claimed: TapType;
+  actual: TapType | null; // null when the tap was rejected before replay
+  targetId?: string;
+  points: number;
+  valid: boolean;
+  reason?: string;
+}
+
+export interface ReplayStats {
+  totalTaps: number;
+  logos: number;
+  glitches: number;
+  gifts: number;
+  bombs: number;
+  misses: number;
+  activations: number; // Held cards played from the inventory
+  cardsPlayed: Record<string, number>; // Times each card took effect (on pickup or from the inventory)
+  maxCombo: number;
+  longestStreak: number;
+}
+
+export interface ReplayVerification {
+  finalState: GameState;
+  score: number;
+  verdicts: TapVerdict[];
+  stats: ReplayStats;
+  validationResults: ValidationResult[]; // For risk assessment
+  directorLog: DirectorDecision[]; // Adaptive difficulty decisions, re-made during replay
+  waves: WaveRecord[]; // Wave events finished during replay, with their survival bonuses
+  endTick: number; // Tick the replay stopped on
+  isValid: boolean;
+}
+
+export interface ReplayOptions {
+  sessionStartTime: number; // Wall-clock session start (ms)
+  pauses?: PauseInterval[]; // Server-recorded pause intervals
+  mode?: GameModeId; // Ruleset the session was started with (defaults to Classic)
+  cardInventory?: boolean; // Session was started with the card inventory on
+  endTick?: number; // Tick the client's run ended on; the replay stops at the last tap without it
+  config?: SimulationConfig;
+  pipeline?: ValidationPipeline;
+}
+
+const STAT_KEYS: Record<TapType, Exclude<keyof ReplayStats, 'cardsPlayed'>> = {
+  logo: 'logos',
+  glitch: 'glitches',
+  gift: 'gifts',
+  bomb: 'bombs',
+  miss: 'misses',
+  activate: 'activations',
+};
+
+/**
+ * Replay a session's taps against the seeded spawn stream.
+ * The score is computed from what each tap actually hit, never from the
+ * client's claimed result.
+ */
+export function verifyTapReplay(
+  seed: number,
+  taps: ReplayTap[],
+  options: ReplayOptions
+): ReplayVerification {
+  const config = options.config ?? DEFAULT_SIMULATION_CONFIG;
+  const pipeline = options.pipeline ?? actionValidationPipeline;
+  const mode = getGameMode(options.mode);
+  const state = createSimulationState(seed, config, mode.id, options.cardInventory);
+  const verdicts: TapVerdict[] = [];
+  const validationResults: ValidationResult[] = [];
+  const acceptedTaps: ReplayTap[] = [];
+
+  const stats: ReplayStats = {
+    totalTaps: taps.length,
+    logos: 0,
+    glitches: 0,
+    gifts: 0,
+    bombs: 0,
+    misses: 0,
+    activations: 0,
+    cardsPlayed: {},
+    maxCombo: state.gameState.combo,
+    longestStreak: state.gameState.streak,
+  };
+
+  taps.forEach((tap, index) => {
+    const results = pipeline.run(
+      { ...tap, type: tap.result },
+      {
+        sessionStartTime: options.sessionStartTime,
+        pauses: options.pauses,
+        maxDuration: getSessionTimeLimit(mode),
+        previousAction: acceptedTaps[acceptedTaps.length - 1],
+        recentActions: acceptedTaps,
+      }
+    );
+    validationResults.push(...results);
+
+    const failure = results.find(result => !result.isValid);
+    if (failure) {
+      verdicts.push({ index, tick: tap.tick, claimed: tap.result, actual: null, points: 0, valid: false, reason: failure.reason });
+      return;
+    }
+    acceptedTaps.push(tap);
+
+    // Advance the simulation to the tick the tap was applied at
+    while (state.tick < tap.tick && !isSimulationOver(state)) {
+      stepSimulation(state, config);
+    }
+
+    if (isSimulationOver(state)) {
+      verdicts.push({ index, tick: tap.tick, claimed: tap.result, actual: null, points: 0, valid: false, reason: 'Tap after game over' });
+      return;
+    }
+
+    if (tap.result === 'activate') {
+      // A held card can only be played if the replay saw it collected
+      const activation = tap.targetId ? applySimulationActivation(state, tap.targetId, config) : null;
+      const reason = activation ? undefined : `Card ${tap.targetId ?? '(none)'} was never collected`;
+      if (reason) {
+        validationResults.push({ isValid: false, reason, severity: 'high' });
+      } else {
+        stats.activations++;
+        countCard(stats, tap.targetId!);
+      }
+      verdicts.push({
+        index,
+        tick: tap.tick,
+        claimed: tap.result,
+        actual: activation ? 'activate' : null,
+        targetId: tap.targetId,
+        points: 0,
+        valid: !reason,
+        reason,
+      });
+      return;
+    }
+
+    const outcome = applySimulationTap(state, tap.position, config);
+
+    let reason: string | undefined;
+    if (outcome.result !== tap.result) {
+      reason = `Claimed ${tap.result} but tap hit ${outcome.result}`;
+    } else if (tap.targetId && outcome.targetId !== tap.targetId) {
+      reason = `Claimed target ${tap.targetId} but tap hit ${outcome.targetId ?? 'nothing'}`;
+    }
+    if (reason) {
+      validationResults.push({ isValid: false, reason, severity: 'high' });
+    }
+
+    verdicts.push({
+      index,
+      tick: tap.tick,
+      claimed: tap.result,
+      actual: outcome.result,
+      targetId: outcome.targetId,
+      points: outcome.points,
+      valid: !reason,
+      reason,
+    });
+
+    // Update stats from the verified outcome
+    stats[STAT_KEYS[outcome.result]]++;
+    if (outcome.cardType && !outcome.stored) {
+      countCard(stats, outcome.cardType);
+    }
+    stats.maxCombo = Math.max(stats.maxCombo, state.gameState.combo);
+    stats.longestStreak = Math.max(stats.longestStreak, state.gameState.streak);
+  });
+
+  // Run on to where the client's run ended: time still passes after the last
+  // tap, and waves that finish there pay their survival bonus. Stepped the
+  // same way as the client's game loop, which checks for game over after each tick.
+  while (options.endTick !== undefined && state.tick < options.endTick) {
+    stepSimulation(state, config);
+    if (isSimulationOver(state)) break;
+  }
+
+  return {
+    finalState: state.gameState,
+    score: state.gameState.score,
+    verdicts,
+    stats,
+    validationResults,
+    directorLog: state.director?.log ?? [],
+    waves: state.waves.history,
+    endTick: state.tick,
+    isValid: verdicts.every(verdict => verdict.valid),
+  };
+}
+
+function countCard(stats: ReplayStats, cardType: string): void {
+  stats.cardsPlayed[cardType] = (stats.cardsPlayed[cardType] ?? 0) + 1;
+}
@@ -3,6 +3,9 @@
  * Ensures consistent game behavior across client and server
  */
 
+import { pickCard } from './cards';
+import { GAME_MODES, SpawnTable } from './game-modes';
+
 export class XORShift32 {
   private state: number;
 
@@ -102,6 +105,13 @@ export class GameRNG {
     return this.rng.nextInt(objectWidth / 2, screenWidth - objectWidth / 2);
   }
 
+  /**
+   * Pick one of the candidate lane positions
+   */
+  spawnLane(candidates: number[]): number {
+    return candidates[this.rng.nextInt(0, candidates.length)];
+  }
+
   /**
    * Generate spawn timing variation
    */
@@ -112,26 +122,25 @@ export class GameRNG {
   }
 
   /**
-   * Generate object type based on probabilities
+   * Generate object type from a game mode's spawn weights
    */
-  objectType(): 'logo' | 'glitch' | 'gift' | 'bomb' {
-    const rand = this.rng.nextFloat();
-    if (rand < 0.55) return 'logo';      // 55% Monad Logos
-    if (rand < 0.80) return 'glitch';    // 25% Glitches  
-    if (rand < 0.85) return 'gift';      // 5% Gift Boxes
-    return 'bomb';                       // 15% Bombs
+  objectType(table: SpawnTable = GAME_MODES.classic.spawnTable): 'logo' | 'glitch' | 'gift' | 'bomb' {
+    const types = ['logo', 'glitch', 'gift', 'bomb'] as const;
+    const total = types.reduce((sum, type) => sum + table[type], 0);
+    let target = this.rng.nextFloat() * total;
+
+    for (const type of types) {
+      if (target < table[type]) return type;
+      target -= table[type];
+    }
+    return 'bomb';
   }
 
   /**
-   * Generate random magic card type
+   * Generate random magic card type, weighted by the card registry
    */
-  magicCard(): string {
-    const cards = [
-      'time-freeze', 'slow-motion', 'golden-monad', 'extra-time', 'logo-highlight',
-      'bomb-trap', 'shrink-ray',
-      'monad-swarm', 'glitch-purge'
-    ];
-    return this.rng.choice(cards);
+  magicCard(excluded: readonly string[] = []): string {
+    return pickCard(this.rng.nextFloat(), excluded).id;
   }
 
   /**
@@ -159,13 +168,19 @@ export class GameRNG {
 }
 
 /**
- * Create seeded RNG from session ID and timestamp
+ * Derive the simulation seed from session ID and timestamp
  */
-export function createSessionRNG(sessionId: string, timestamp: number): GameRNG {
-  // Create deterministic seed from session ID and timestamp
+export function deriveSessionSeed(sessionId: string, timestamp: number): number {
   let seed = timestamp;
   for (let i = 0; i < sessionId.length; i++) {
     seed = ((seed << 5) - seed + sessionId.charCodeAt(i)) & 0xffffffff;
   }
-  return new GameRNG(seed);
+  return seed;
+}
+
+/**
+ * Create seeded RNG from session ID and timestamp
+ */
+export function createSessionRNG(sessionId: string, timestamp: number): GameRNG {
+  return new GameRNG(deriveSessionSeed(sessionId, timestamp));
 }
@@ -4,7 +4,9 @@
  */
 
 import { GameStateManager } from './game-state';
-import { sessionAPI, initializeSessionAPI } from './session';
+import { sessionAPI, initializeSessionAPI, ClientRunResult, DesyncEvent } from './session';
+import { CanonicalGameState } from './state-codec';
+import { DEFAULT_GAME_MODE, GameModeId } from './game-modes';
 import { usePrivy } from '@privy-io/react-auth';
 import { useState, useCallback, useEffect } from 'react';
 
@@ -26,6 +28,19 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [serverSessionId, setServerSessionId] = useState<string | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<number>(0);
+  const [lastDesync, setLastDesync] = useState<DesyncEvent | null>(null);
+  const [desyncCount, setDesyncCount] = useState(0);
+
+  // Surface desync events so the UI can show when the game was corrected
+  useEffect(() => {
+    return sessionAPI.onDesync(event => {
+      setLastDesync(event);
+      setDesyncCount(count => count + 1);
+      if (config.debugMode) {
+        console.log('Desync handled:', event);
+      }
+    });
+  }, [config.debugMode]);
 
   // Initialize session API when user authenticates
   useEffect(() => {
@@ -49,15 +64,16 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
   }, [user, getAccessToken, config.debugMode]);
 
   /**
-   * Start a new server-validated session
+   * Start a new server-validated session in a game mode (optionally with the
+   * card inventory), or today's daily challenge
    */
-  const startServerSession = useCallback(async () => {
+  const startServerSession = useCallback(async (mode: GameModeId = DEFAULT_GAME_MODE, daily: boolean = false, cardInventory: boolean = false) => {
     if (!user) {
       throw new Error('User not authenticated');
     }
 
     try {
-      const response = await sessionAPI.startSession();
+      const response = await sessionAPI.startSession(mode, daily, cardInventory);
       
       if (response.success) {
         setIsSessionActive(true);
@@ -68,12 +84,16 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
           console.log('Server session started:', {
             sessionId: response.sessionId,
             seed: response.seed,
+            mode: response.mode,
           });
         }
 
         return {
           sessionId: response.sessionId,
           seed: response.seed,
+          mode: response.mode,
+          cardInventory: response.cardInventory,
+          daily: response.daily,
         };
       } else {
         throw new Error(response.error || 'Failed to start server session');
@@ -85,22 +105,62 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
   }, [user, config.debugMode]);
 
   /**
-   * Finish the current server session
+   * Resume a server session after a page reload
    */
-  const finishServerSession = useCallback(async (
-    clientFinalScore: number,
-    tapHistory: Array<{
-      timestamp: number;
-      position: { x: number; y: number };
-      result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
-    }>
-  ) => {
-    if (!isSessionActive || !serverSessionId) {
+  const resumeServerSession = useCallback(async (sessionId: string) => {
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    try {
+      // A reloaded page resumes before the auth effect above has set the token
+      const token = await getAccessToken();
+      if (token) {
+        initializeSessionAPI(token);
+      }
+
+      const response = await sessionAPI.resumeSession(sessionId);
+
+      if (response.success) {
+        setIsSessionActive(true);
+        setServerSessionId(response.sessionId);
+        setLastSyncTime(Date.now());
+
+        if (config.debugMode) {
+          console.log('Server session resumed:', {
+            sessionId: response.sessionId,
+            elapsed: response.elapsed,
+            pendingActions: sessionAPI.getPendingActionCount(),
+          });
+        }
+
+        return {
+          sessionId: response.sessionId,
+          seed: response.seed,
+          mode: response.mode,
+          cardInventory: response.cardInventory ?? false,
+          daily: response.daily,
+          elapsed: response.elapsed,
+        };
+      } else {
+        throw new Error(response.error || 'Failed to resume server session');
+      }
+    } catch (error) {
+      console.error('Server session resume failed:', error);
+      throw error;
+    }
+  }, [user, getAccessToken, config.debugMode]);
+
+  /**
+   * Finish the current server session with the client's result for the run
+   */
+  const finishServerSession = useCallback(async (getClientResult: () => ClientRunResult) => {
+    if (!sessionAPI.hasActiveSession()) {
       throw new Error('No active server session');
     }
 
     try {
-      const response = await sessionAPI.finishSession(clientFinalScore, tapHistory);
+      const response = await sessionAPI.finishSession(getClientResult);
       
       setIsSessionActive(false);
       setServerSessionId(null);
@@ -118,32 +178,36 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
       console.error('Server session finish failed:', error);
       throw error;
     }
-  }, [isSessionActive, serverSessionId, config.debugMode]);
+  }, [config.debugMode]);
 
   /**
    * Record an action to the server (batched)
    */
   const recordAction = useCallback((action: {
     timestamp: number;
+    tick: number;
     position: { x: number; y: number };
-    type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
+    type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
     targetId?: string;
     value?: number;
-  }) => {
-    if (!config.enableBatching || !isSessionActive) {
-      if (config.debugMode && !isSessionActive) {
+  }, state?: CanonicalGameState) => {
+    // Checked on the session API, not React state: tap handlers are registered
+    // before the render that would see the new session
+    const hasSession = sessionAPI.hasActiveSession();
+    if (!config.enableBatching || !hasSession) {
+      if (config.debugMode && !hasSession) {
         console.warn('Action not recorded: no active session');
       }
       return;
     }
 
-    sessionAPI.recordAction(action);
+    sessionAPI.recordAction(action, state);
     setLastSyncTime(Date.now());
 
     if (config.debugMode) {
       console.log('Action recorded:', action);
     }
-  }, [config.enableBatching, config.debugMode, isSessionActive]);
+  }, [config.enableBatching, config.debugMode]);
 
   /**
    * Enhanced game state manager with server integration
@@ -155,7 +219,28 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
 
     // Note: Integration with tap processing will be handled at the component level
     // where we can access the actual tap results and forward them to recordAction
-    
+
+    // On desync, rebase this game onto the server state and replay pending taps
+    sessionAPI.setRebaseHandler((authoritative, pendingActions) => {
+      const replayed = gameManager.rebase(authoritative.simulation, authoritative.canonicalState, pendingActions);
+      if (!replayed) return null;
+
+      return replayed.map(({ tap, state }, index) => ({
+        action: {
+          ...pendingActions[index],
+          tick: tap.tick,
+          type: tap.result,
+          targetId: tap.targetId,
+        },
+        state,
+      }));
+    });
+
+    // Paused time is excluded from the server's session time limit
+    gameManager.getClock().onPauseChange(paused => {
+      sessionAPI.reportPause(paused);
+    });
+
     return gameManager;
   }, []);
 
@@ -166,29 +251,35 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
     position: { x: number; y: number },
     currentTime: number,
     result: {
-      result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
+      tick: number;
+      result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
       targetId?: string;
-    }
+    },
+    state?: CanonicalGameState
   ) => {
     // Record action to server if enabled
-    if (config.enableBatching && isSessionActive) {
+    if (config.enableBatching) {
       recordAction({
         timestamp: currentTime,
+        tick: result.tick,
         position,
         type: result.result,
         targetId: result.targetId,
-      });
+      }, state);
     }
-  }, [recordAction, config.enableBatching, isSessionActive]);
+  }, [recordAction, config.enableBatching]);
 
   return {
     // Session state
     isSessionActive,
     serverSessionId,
     lastSyncTime,
+    lastDesync,
+    desyncCount,
     
     // Session management
     startServerSession,
+    resumeServerSession,
     finishServerSession,
     recordAction,
     processTapWithServer,
@@ -202,6 +293,8 @@ export function useServerIntegration(config: ServerIntegrationConfig = {
       sessionAPI.clearAuth();
       setIsSessionActive(false);
       setServerSessionId(null);
+      setLastDesync(null);
+      setDesyncCount(0);
     },
   };
 }
@@ -0,0 +1,79 @@
+/**
+ * Browser persistence for the in-progress game session
+ * Lets /play pick a run back up after a reload or tab crash, and hands
+ * imported replays over to the test-game viewer
+ */
+
+import type { GameSessionSnapshot } from './game-state';
+
+const STORAGE_KEY = 'monadrush:active-session';
+const PENDING_REPLAY_KEY = 'monadrush:pending-replay';
+
+// Snapshots older than this belong to runs that can no longer be resumed
+const MAX_SNAPSHOT_AGE = 5 * 60 * 1000; // Matches the KV session TTL
+
+/**
+ * Save the current session snapshot
+ */
+export function saveSessionSnapshot(snapshot: GameSessionSnapshot): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('Failed to save session snapshot:', error);
+  }
+}
+
+/**
+ * Load a resumable session snapshot, discarding stale ones
+ */
+export function loadSessionSnapshot(now: number = Date.now()): GameSessionSnapshot | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const snapshot = JSON.parse(raw) as GameSessionSnapshot;
+    if (now - snapshot.savedAt > MAX_SNAPSHOT_AGE) {
+      clearSessionSnapshot();
+      return null;
+    }
+    return snapshot;
+  } catch (error) {
+    console.warn('Failed to load session snapshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Forget the saved session (finished, abandoned or replaced)
+ */
+export function clearSessionSnapshot(): void {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Storage unavailable; nothing to clear
+  }
+}
+
+/**
+ * Queue a replay code for the test-game page to open
+ */
+export function savePendingReplay(code: string): void {
+  try {
+    window.sessionStorage.setItem(PENDING_REPLAY_KEY, code);
+  } catch (error) {
+    console.warn('Failed to save pending replay:', error);
+  }
+}
+
+/**
+ * Take the queued replay code, if any (it is only opened once)
+ */
+export function takePendingReplay(): string | null {
+  try {
+    const code = window.sessionStorage.getItem(PENDING_REPLAY_KEY);
+    window.sessionStorage.removeItem(PENDING_REPLAY_KEY);
+    return code;
+  } catch {
+    return null;
+  }
+}
@@ -3,16 +3,43 @@
  * Handles session lifecycle and action batching
  */
 
+import { CanonicalGameState, chainStateHash, genesisStateHash } from './state-codec';
+import { SimulationSnapshot } from './simulation';
+import { ActionStore, QueuedAction, createActionStore, createMemoryActionStore } from './action-store';
+import { DEFAULT_GAME_MODE, GameModeId } from './game-modes';
+import type { DailyStanding } from './daily-challenge';
+import type { DirectorDecision } from './difficulty';
+import type { WaveRecord } from './wave-events';
+import type { UnlockedAchievement } from './achievements';
+
 interface StartSessionResponse {
   success: boolean;
   sessionId: string;
   seed: number;
+  mode: GameModeId;
+  cardInventory: boolean;
+  daily?: { day: string; attempt: number; attemptsLeft: number };
+  error?: string;
+}
+
+interface ResumeSessionResponse {
+  success: boolean;
+  sessionId: string;
+  seed: number;
+  mode: GameModeId;
+  daily?: string;
+  cardInventory?: boolean;
+  startTime: number;
+  elapsed: number;
+  lastSequence: number;
+  stateHash: string;
   error?: string;
 }
 
 interface FinishSessionResponse {
   success: boolean;
   finalScore: number;
+  mode: GameModeId;
   isValid: boolean;
   scoreDifference?: number;
   stats?: {
@@ -22,9 +49,27 @@ interface FinishSessionResponse {
     gifts: number;
     bombs: number;
     misses: number;
+    activations: number;
+    cardsPlayed: Record<string, number>;
     maxCombo: number;
     longestStreak: number;
   };
+  verdicts?: Array<{
+    index: number;
+    tick: number;
+    claimed: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+    actual: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate' | null;
+    targetId?: string;
+    points: number;
+    valid: boolean;
+    reason?: string;
+  }>;
+  directorLog?: DirectorDecision[];
+  waves?: WaveRecord[];
+  riskLevel?: 'low' | 'medium' | 'high';
+  daily?: DailyStanding;
+  achievements?: UnlockedAchievement[]; // Unlocked by this run
+  personalBest?: boolean; // New ghost pace for the run's mode
   error?: string;
 }
 
@@ -33,15 +78,53 @@ interface ActionResponse {
   validated: number;
   rejected: number;
   stateHash: string;
+  acknowledgedSequence: number; // Highest action sequence the server has processed
   desync?: boolean;
+  authoritative?: AuthoritativeState;
+  riskLevel?: 'low' | 'medium' | 'high';
   error?: string;
 }
 
-interface TapAction {
+// Server state sent back on desync
+export interface AuthoritativeState {
+  canonicalState: CanonicalGameState;
+  simulation: SimulationSnapshot;
+}
+
+// Emitted to the UI whenever the server reports a desync
+export interface DesyncEvent {
+  sessionId: string;
+  serverHash: string;
+  clientHash: string | null;
+  serverState: CanonicalGameState | null;
+  rebased: boolean; // False when no game was available to rebase
+  replayedActions: number;
+  detectedAt: number;
+}
+
+/**
+ * Rebases the local game onto the server state and replays pending actions.
+ * Returns the replayed actions (same sequence numbers, re-derived results) with
+ * the state after each, or null when there is nothing to rebase.
+ */
+export type RebaseHandler = (
+  authoritative: AuthoritativeState,
+  pendingActions: TapAction[]
+) => QueuedAction[] | null;
+
+// The client's result for a run, read once all of its actions are accepted
+export interface ClientRunResult {
+  score: number;
+  tick: number; // Simulation tick the run ended on
+}
+
+export interface TapAction {
+  sequence: number; // Monotonic per session; the server accepts each sequence once
   timestamp: number;
+  tick: number;
   position: { x: number; y: number };
-  type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
-  targetId?: string;
+  type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+  targetId?: string; // Card id for 'activate'
   value?: number;
 }
 
@@ -51,13 +134,28 @@ interface TapAction {
 export class SessionAPI {
   private authToken: string | null = null;
   private currentSessionId: string | null = null;
-  private actionBuffer: TapAction[] = [];
+  private queue: QueuedAction[] = []; // Unacknowledged actions, oldest first
+  private inFlightCount = 0; // Leading queue entries in the current (or retried) batch
+  private nextSequence = 1;
   private batchTimer: NodeJS.Timeout | null = null;
-  private lastStateHash: string | null = null;
+  private stateHash: string | null = null; // Last confirmed hash chain head
+  private flushing: Promise<ActionResponse | null> | null = null;
+  private lastFlushTime = 0;
+  private failedAttempts = 0;
+  private nextAttemptAt = 0;
+  private store: ActionStore;
+  private rebaseHandler: RebaseHandler | null = null;
+  private desyncListeners = new Set<(event: DesyncEvent) => void>();
   
   // Configuration
   private readonly BATCH_INTERVAL = 1500; // 1.5 seconds
-  private readonly MAX_BUFFER_SIZE = 20;
+  private readonly MAX_BUFFER_SIZE = 20; // Also the server's per-batch limit
+  private readonly MAX_RETRY_DELAY = 30000; // Backoff cap
+  private readonly MAX_FINISH_ATTEMPTS = 5; // Flush attempts before finishing is refused
+
+  constructor(store: ActionStore = typeof window !== 'undefined' ? createActionStore() : createMemoryActionStore()) {
+    this.store = store;
+  }
 
   /**
    * Set authentication token from Privy
@@ -71,18 +169,36 @@ export class SessionAPI {
    */
   clearAuth() {
     this.authToken = null;
-    this.currentSessionId = null;
-    this.actionBuffer = [];
-    if (this.batchTimer) {
-      clearInterval(this.batchTimer);
-      this.batchTimer = null;
-    }
+    this.resetSessionState();
+    this.stopActionBatching();
+  }
+
+  /**
+   * Set the handler that rebases the local game after a desync
+   */
+  setRebaseHandler(handler: RebaseHandler | null) {
+    this.rebaseHandler = handler;
+  }
+
+  /**
+   * Subscribe to desync events; returns an unsubscribe function
+   */
+  onDesync(listener: (event: DesyncEvent) => void): () => void {
+    this.desyncListeners.add(listener);
+    return () => {
+      this.desyncListeners.delete(listener);
+    };
   }
 
   /**
-   * Start a new game session
+   * Start a new game session in a game mode (optionally with the card
+   * inventory), or today's daily challenge
    */
-  async startSession(): Promise<StartSessionResponse> {
+  async startSession(
+    mode: GameModeId = DEFAULT_GAME_MODE,
+    daily: boolean = false,
+    cardInventory: boolean = false
+  ): Promise<StartSessionResponse> {
     if (!this.authToken) {
       throw new Error('No authentication token available');
     }
@@ -94,14 +210,21 @@ export class SessionAPI {
           'Authorization': `Bearer ${this.authToken}`,
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ clientTimestamp: Date.now(), mode, daily, cardInventory }),
       });
 
       const data = await response.json();
 
       if (data.success) {
+        // Anything left from an abandoned session can no longer be submitted
+        if (this.currentSessionId) {
+          this.store.clear(this.currentSessionId);
+        }
+
+        this.resetSessionState();
         this.currentSessionId = data.sessionId;
-        this.actionBuffer = [];
-        this.lastStateHash = null;
+        this.stateHash = await genesisStateHash(data.sessionId);
+        this.persist();
         
         // Start action batching timer
         this.startActionBatching();
@@ -115,28 +238,77 @@ export class SessionAPI {
   }
 
   /**
-   * Finish current session
+   * Resume a session after a reload: the server confirms it is still active and
+   * ours, and the persisted action queue picks up where it left off
    */
-  async finishSession(
-    clientFinalScore: number,
-    tapHistory: Array<{
-      timestamp: number;
-      position: { x: number; y: number };
-      result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
-    }>
-  ): Promise<FinishSessionResponse> {
+  async resumeSession(sessionId: string): Promise<ResumeSessionResponse> {
+    if (!this.authToken) {
+      throw new Error('No authentication token available');
+    }
+
+    try {
+      const response = await fetch('/api/session/resume', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.authToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId }),
+      });
+
+      const data: ResumeSessionResponse = await response.json();
+
+      if (!data.success) {
+        this.store.clear(sessionId);
+        return data;
+      }
+
+      const persisted = this.store.load(sessionId);
+      this.resetSessionState();
+      this.currentSessionId = sessionId;
+      this.stateHash = data.stateHash; // The server chain head is authoritative
+
+      if (persisted) {
+        this.nextSequence = persisted.nextSequence;
+        this.queue = persisted.queue;
+        this.inFlightCount = persisted.inFlightCount;
+
+        // The server may have processed the last batch after its response was lost
+        if (this.queue.some(entry => entry.action.sequence <= data.lastSequence)) {
+          this.acknowledge(data.lastSequence);
+        }
+      } else {
+        this.nextSequence = data.lastSequence + 1;
+      }
+      this.persist();
+
+      this.startActionBatching();
+      return data;
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      throw new Error('Session resume failed');
+    }
+  }
+
+  /**
+   * Finish current session; the server replays it to the tick the client's run ended on.
+   * The result is read after the last batch is drained, since a desync there rebases the finished game.
+   */
+  async finishSession(getClientResult: () => ClientRunResult): Promise<FinishSessionResponse> {
     if (!this.authToken || !this.currentSessionId) {
       throw new Error('No active session');
     }
 
-    // Flush any remaining actions before finishing
-    await this.flushActions();
+    // The server replays its own action log, so every buffered action must be
+    // acknowledged first or the verified score would silently come out lower
+    const drained = await this.drainActions();
+    if (!drained) {
+      throw new Error(`Session finish failed: ${this.queue.length} actions not yet accepted by the server`);
+    }
 
     // Stop action batching
-    if (this.batchTimer) {
-      clearInterval(this.batchTimer);
-      this.batchTimer = null;
-    }
+    this.stopActionBatching();
+    const { score, tick } = getClientResult();
 
     try {
       const response = await fetch('/api/session/finish', {
@@ -147,17 +319,16 @@ export class SessionAPI {
         },
         body: JSON.stringify({
           sessionId: this.currentSessionId,
-          clientFinalScore,
-          tapHistory,
+          clientFinalScore: score,
+          clientFinalTick: tick,
         }),
       });
 
       const data = await response.json();
 
       // Clear session data
-      this.currentSessionId = null;
-      this.actionBuffer = [];
-      this.lastStateHash = null;
+      this.store.clear(this.currentSessionId);
+      this.resetSessionState();
 
       return data;
     } catch (error) {
@@ -167,49 +338,138 @@ export class SessionAPI {
   }
 
   /**
-   * Record an action (buffered and batched)
+   * Tell the server the game was paused or resumed, so paused time is not
+   * counted against the session's time limit. Returns false if not recorded.
+   */
+  async reportPause(paused: boolean): Promise<boolean> {
+    if (!this.authToken || !this.currentSessionId) return false;
+
+    try {
+      const response = await fetch('/api/session/pause', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${this.authToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId: this.currentSessionId, paused }),
+      });
+
+      const data: { success: boolean; error?: string } = await response.json();
+      if (!data.success) {
+        console.warn('Pause not recorded:', data.error);
+      }
+      return data.success;
+    } catch (error) {
+      console.warn('Failed to report pause:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record an action (persisted, then batched)
+   * @param state Canonical game state right after the action, for the hash chain
    */
-  recordAction(action: TapAction) {
+  recordAction(action: Omit<TapAction, 'sequence'>, state?: CanonicalGameState) {
     if (!this.currentSessionId) {
       console.warn('Cannot record action: no active session');
       return;
     }
 
-    this.actionBuffer.push(action);
+    this.queue.push({
+      action: { ...action, sequence: this.nextSequence++ },
+      state: state ?? null,
+    });
+    this.persist();
 
     // Force flush if buffer is full
-    if (this.actionBuffer.length >= this.MAX_BUFFER_SIZE) {
+    if (this.queue.length >= this.MAX_BUFFER_SIZE) {
       this.flushActions();
     }
   }
 
+  /**
+   * Number of actions not yet acknowledged by the server
+   */
+  getPendingActionCount(): number {
+    return this.queue.length;
+  }
+
   /**
    * Start periodic action batching
    */
   private startActionBatching() {
-    if (this.batchTimer) {
-      clearInterval(this.batchTimer);
-    }
+    this.stopActionBatching();
 
     this.batchTimer = setInterval(() => {
-      if (this.actionBuffer.length > 0) {
+      if (this.queue.length > 0) {
         this.flushActions();
       }
     }, this.BATCH_INTERVAL);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
   }
 
   /**
-   * Flush buffered actions to server
+   * Stop periodic action batching
    */
-  private async flushActions(): Promise<ActionResponse | null> {
-    if (!this.authToken || !this.currentSessionId || this.actionBuffer.length === 0) {
-      return null;
+  private stopActionBatching() {
+    if (this.batchTimer) {
+      clearInterval(this.batchTimer);
+      this.batchTimer = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+
+  // Retry straight away when the connection comes back
+  private handleOnline = () => {
+    this.nextAttemptAt = 0;
+    this.flushActions();
+  };
+
+  /**
+   * Flush buffered actions to server. Only one batch is in flight at a time.
+   */
+  private flushActions(): Promise<ActionResponse | null> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+    if (!this.authToken || !this.currentSessionId || this.queue.length === 0 || Date.now() < this.nextAttemptAt) {
+      return Promise.resolve(null);
+    }
+
+    this.flushing = this.sendBatch(this.currentSessionId).finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  /**
+   * Send the in-flight batch. A failed batch is retried unchanged (same
+   * sequence numbers, same hash) so the server can accept it idempotently.
+   */
+  private async sendBatch(sessionId: string): Promise<ActionResponse | null> {
+    if (this.inFlightCount === 0) {
+      this.inFlightCount = Math.min(this.queue.length, this.MAX_BUFFER_SIZE);
+      this.persist();
     }
+    const batch = this.queue.slice(0, this.inFlightCount);
+    this.lastFlushTime = Date.now();
 
-    const actionsToSend = [...this.actionBuffer];
-    this.actionBuffer = []; // Clear buffer immediately
+    // Extend the confirmed hash chain with the state after this batch
+    const lastState = batch[batch.length - 1].state;
+    const clientStateHash = this.stateHash && lastState
+      ? await chainStateHash(this.stateHash, lastState)
+      : null;
 
     try {
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        throw new Error('Offline');
+      }
+
       const response = await fetch('/api/action', {
         method: 'POST',
         headers: {
@@ -217,50 +477,154 @@ export class SessionAPI {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          sessionId: this.currentSessionId,
-          actions: actionsToSend,
-          clientStateHash: this.lastStateHash,
+          sessionId,
+          actions: batch.map(entry => entry.action),
+          clientStateHash,
         }),
       });
 
       const data: ActionResponse = await response.json();
 
-      if (data.success) {
-        this.lastStateHash = data.stateHash;
-
-        // Check for desync
-        if (data.desync) {
-          console.warn('Client-server desync detected!', {
-            serverHash: data.stateHash,
-            clientHash: this.lastStateHash,
-          });
-          
-          // Could emit an event here for the game to handle desync
-          // this.onDesync?.(data);
-        }
+      // The session may have ended while the request was in flight
+      if (this.currentSessionId !== sessionId) {
+        return data;
+      }
 
-        // Log validation results
-        if (data.rejected > 0) {
-          console.warn(`${data.rejected} actions rejected by server anti-cheat`);
-        }
-      } else {
+      if (!data.success) {
         console.error('Action validation failed:', data.error);
-        
-        // Re-add actions to buffer for retry (optional)
-        // this.actionBuffer.unshift(...actionsToSend);
+
+        // Rate limits and server errors are transient; keep the batch either way
+        this.scheduleRetry(response.status === 429 || response.status >= 500);
+        return data;
+      }
+
+      this.acknowledge(data.acknowledgedSequence);
+      this.stateHash = data.stateHash;
+
+      // Check for desync
+      if (data.desync) {
+        console.warn('Client-server desync detected!', {
+          serverHash: data.stateHash,
+          clientHash: clientStateHash,
+        });
+        this.reconcile(data, clientStateHash);
+      }
+      this.persist();
+
+      // Log validation results
+      if (data.rejected > 0) {
+        console.warn(`${data.rejected} actions rejected by server anti-cheat`);
       }
 
       return data;
     } catch (error) {
       console.error('Failed to flush actions:', error);
-      
-      // Re-add actions to buffer for retry (optional)
-      // this.actionBuffer.unshift(...actionsToSend);
-      
+      if (this.currentSessionId === sessionId) {
+        this.scheduleRetry(true);
+      }
       return null;
     }
   }
 
+  /**
+   * Drop every action the server has processed, accepted or rejected
+   */
+  private acknowledge(acknowledgedSequence: number) {
+    this.queue = this.queue.filter(entry => entry.action.sequence > acknowledgedSequence);
+    this.inFlightCount = 0;
+    this.failedAttempts = 0;
+    this.nextAttemptAt = 0;
+  }
+
+  /**
+   * Back off exponentially before the next attempt.
+   * Non-retryable failures keep their actions but wait for the maximum delay.
+   */
+  private scheduleRetry(retryable: boolean) {
+    this.failedAttempts++;
+    const delay = retryable
+      ? Math.min(this.BATCH_INTERVAL * 2 ** this.failedAttempts, this.MAX_RETRY_DELAY)
+      : this.MAX_RETRY_DELAY;
+    this.nextAttemptAt = Date.now() + delay;
+  }
+
+  /**
+   * Flush until every action is acknowledged or attempts run out
+   */
+  private async drainActions(): Promise<boolean> {
+    for (let attempt = 0; attempt < this.MAX_FINISH_ATTEMPTS && this.queue.length > 0; attempt++) {
+      if (this.flushing) {
+        await this.flushing;
+        continue;
+      }
+
+      // Respect backoff and the server's minimum interval between batches
+      const wait = Math.max(this.nextAttemptAt, this.lastFlushTime + this.BATCH_INTERVAL) - Date.now();
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      await this.flushActions();
+    }
+
+    return this.queue.length === 0;
+  }
+
+  /**
+   * Recover from a desync: rebase the local game onto the server state
+   * and replay actions buffered since the batch
+   */
+  private reconcile(data: ActionResponse, clientStateHash: string | null) {
+    const sessionId = this.currentSessionId;
+    if (!sessionId) return;
+
+    let rebased = false;
+    let replayedActions = 0;
+    if (data.authoritative && this.rebaseHandler) {
+      const result = this.rebaseHandler(data.authoritative, this.queue.map(entry => entry.action));
+      if (result) {
+        rebased = true;
+        replayedActions = result.length;
+        this.queue = result;
+      }
+    }
+
+    const event: DesyncEvent = {
+      sessionId,
+      serverHash: data.stateHash,
+      clientHash: clientStateHash,
+      serverState: data.authoritative?.canonicalState ?? null,
+      rebased,
+      replayedActions,
+      detectedAt: Date.now(),
+    };
+    this.desyncListeners.forEach(listener => listener(event));
+  }
+
+  /**
+   * Write the unacknowledged actions to durable storage
+   */
+  private persist() {
+    if (!this.currentSessionId) return;
+
+    this.store.save({
+      sessionId: this.currentSessionId,
+      nextSequence: this.nextSequence,
+      stateHash: this.stateHash,
+      inFlightCount: this.inFlightCount,
+      queue: this.queue,
+    });
+  }
+
+  private resetSessionState() {
+    this.currentSessionId = null;
+    this.queue = [];
+    this.inFlightCount = 0;
+    this.nextSequence = 1;
+    this.stateHash = null;
+    this.failedAttempts = 0;
+    this.nextAttemptAt = 0;
+  }
+
   /**
    * Get current session ID
    */
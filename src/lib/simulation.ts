@@ -0,0 +1,387 @@
+/**
+ * Deterministic fixed-timestep simulation core for MonadRush
+ * Shared by the browser game loop and headless server-side replay.
+ * A run is fully determined by its seed plus its tap inputs.
+ */
+
+import { ActiveEffect, GameState, createInitialGameState, updateGameState, processTap, applyTapResult, activateInventoryCard, consumeEffectCharges, isGameOver, getGameModifiers } from './game-logic';
+import { GameObject, Vector2, SpawnManager, SpawnManagerSnapshot, updateGameObject, isOffScreen, findTappedObjects, strikeObject } from './physics';
+import { GameRNG } from './rng';
+import { gameObjectPool } from './object-pool';
+import { CardHook, getCardDefinition } from './cards';
+import { DEFAULT_GAME_MODE, GameModeId, getGameMode } from './game-modes';
+import { WaveState, WAVE_EVENTS, createWaveState, cloneWaveState, advanceWaves } from './wave-events';
+import { DirectorState, createDirectorState, cloneDirectorState, recordDirectorTap, decideDifficulty, isDecisionTick } from './difficulty';
+
+// Simulation runs at a fixed 60 ticks per second regardless of frame rate
+export const SIMULATION_TICK_MS = 1000 / 60;
+
+// Bump whenever the same seed and inputs would play out differently
+// (spawning, physics, scoring, cards, waves); saved replays record it
+export const GAME_RULES_VERSION = 2;
+
+export interface SimulationConfig {
+  screenWidth: number;
+  screenHeight: number;
+  objectSize: Vector2;
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  screenWidth: 800,
+  screenHeight: 600,
+  objectSize: { x: 64, y: 64 },
+};
+
+export interface SimulationState {
+  tick: number; // Number of ticks simulated so far
+  motionTime: number; // Object-motion time (ms): scaled by slow-motion, paused by time-freeze
+  rng: GameRNG;
+  gameState: GameState;
+  objects: GameObject[];
+  spawnManager: SpawnManager;
+  director: DirectorState | null; // Adaptive difficulty, null in non-adaptive modes
+  waves: WaveState;
+}
+
+// JSON-safe copy of a SimulationState (RNG reduced to its internal state)
+export interface SimulationSnapshot {
+  tick: number;
+  motionTime: number;
+  rngState: number;
+  gameState: GameState;
+  objects: GameObject[];
+  spawner: SpawnManagerSnapshot;
+  director?: DirectorState | null; // Absent in snapshots taken before the director existed
+  waves?: WaveState; // Absent in snapshots taken before wave events existed
+}
+
+export interface SimulationInput {
+  tick: number; // Tick at which the tap is applied (before that tick is simulated)
+  position: Vector2;
+}
+
+export interface TapOutcome {
+  tick: number;
+  position: Vector2;
+  result: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss';
+  targetId?: string;
+  cardType?: string;
+  stored?: boolean; // The card went into the inventory instead of playing
+  points: number;
+}
+
+// A held card played from the inventory
+export interface ActivationOutcome {
+  tick: number;
+  cardType: string;
+}
+
+export interface SimulationResult {
+  state: SimulationState;
+  taps: TapOutcome[];
+}
+
+/**
+ * Create the initial simulation state for a seed and game mode
+ * (optionally with the card inventory turned on)
+ */
+export function createSimulationState(
+  seed: number,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG,
+  mode: GameModeId = DEFAULT_GAME_MODE,
+  cardInventory: boolean = false
+): SimulationState {
+  const rng = new GameRNG(seed);
+  const gameState = createInitialGameState(0, mode, cardInventory);
+
+  const spawnManager = new SpawnManager(rng, {
+    screenWidth: config.screenWidth,
+    screenHeight: config.screenHeight,
+    objectSize: config.objectSize,
+    fallSpeed: gameState.difficulty.fallSpeed,
+    spawnRate: gameState.difficulty.spawnRate,
+    mode: gameState.mode,
+  });
+
+  return {
+    tick: 0,
+    motionTime: 0,
+    rng,
+    gameState,
+    objects: [],
+    spawnManager,
+    director: getGameMode(mode).adaptive ? createDirectorState(gameState.lives) : null,
+    waves: createWaveState(),
+  };
+}
+
+/**
+ * Capture a serializable snapshot of a simulation
+ */
+export function snapshotSimulation(state: SimulationState): SimulationSnapshot {
+  return {
+    tick: state.tick,
+    motionTime: state.motionTime,
+    rngState: state.rng.getState(),
+    gameState: {
+      ...state.gameState,
+      difficulty: { ...state.gameState.difficulty },
+      activeEffects: state.gameState.activeEffects.map(effect => ({ ...effect })),
+      inventory: state.gameState.inventory && [...state.gameState.inventory],
+    },
+    objects: state.objects.map(cloneObject),
+    spawner: state.spawnManager.getSnapshot(),
+    director: state.director ? cloneDirectorState(state.director) : null,
+    waves: cloneWaveState(state.waves),
+  };
+}
+
+/**
+ * Rebuild a simulation from a snapshot; it continues exactly where the snapshot left off
+ */
+export function restoreSimulation(
+  snapshot: SimulationSnapshot,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): SimulationState {
+  const state = createSimulationState(0, config);
+  state.rng.setState(snapshot.rngState);
+  state.spawnManager.restoreSnapshot(snapshot.spawner);
+
+  return {
+    ...state,
+    tick: snapshot.tick,
+    motionTime: snapshot.motionTime,
+    gameState: {
+      ...snapshot.gameState,
+      difficulty: { ...snapshot.gameState.difficulty },
+      activeEffects: snapshot.gameState.activeEffects.map(effect => ({ ...effect })),
+      inventory: snapshot.gameState.inventory && [...snapshot.gameState.inventory],
+    },
+    objects: snapshot.objects.map(cloneObject),
+    director: snapshot.director ? cloneDirectorState(snapshot.director) : null,
+    waves: snapshot.waves ? cloneWaveState(snapshot.waves) : createWaveState(),
+  };
+}
+
+function cloneObject(obj: GameObject): GameObject {
+  return {
+    ...obj,
+    behaviour: obj.behaviour && { ...obj.behaviour },
+    position: { ...obj.position },
+    velocity: { ...obj.velocity },
+    size: { ...obj.size },
+    hitbox: { ...obj.hitbox },
+    unscaledSize: obj.unscaledSize && { ...obj.unscaledSize },
+  };
+}
+
+/**
+ * Run a card hook against the live simulation
+ */
+function runCardHook(state: SimulationState, hook: CardHook, effect: ActiveEffect, config: SimulationConfig): void {
+  const context = hook({ gameState: state.gameState, objects: state.objects, objectSize: config.objectSize }, effect);
+  state.gameState = context.gameState;
+  state.objects = context.objects;
+}
+
+/**
+ * Apply a tap at the current tick and return what it hit.
+ * Spends charges of effects the tap consumes, then lets a collected card act on the live objects.
+ */
+export function applySimulationTap(
+  state: SimulationState,
+  position: Vector2,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): TapOutcome {
+  const tappedObjects = findTappedObjects(state.objects, position);
+
+  let result: TapOutcome['result'] = 'miss';
+  let targetId: string | undefined;
+  let cardType: string | undefined;
+
+  if (tappedObjects.length > 0) {
+    const target = tappedObjects[0];
+    targetId = target.id;
+    result = target.type;
+    cardType = target.cardType;
+
+    // Chip armour or break the object; splitting logos leave two halves
+    state.objects.push(...strikeObject(target, state.gameState.elapsedTime));
+  }
+
+  const tapResult = processTap(state.gameState, result, cardType);
+  state.gameState = consumeEffectCharges(state.gameState, result);
+  state.gameState = applyTapResult(state.gameState, tapResult);
+
+  if (state.director) {
+    state.director = recordDirectorTap(state.director, result);
+  }
+
+  const onActivate = tapResult.effect && getCardDefinition(tapResult.effect.type)?.onActivate;
+  if (onActivate) {
+    runCardHook(state, onActivate, tapResult.effect!, config);
+  }
+
+  return {
+    tick: state.tick,
+    position: { ...position },
+    result,
+    targetId,
+    cardType,
+    stored: tapResult.storedCard ? true : undefined,
+    points: tapResult.points,
+  };
+}
+
+/**
+ * Play a held card at the current tick. Returns null (and changes nothing)
+ * unless the card was collected earlier in this run and is still held.
+ */
+export function applySimulationActivation(
+  state: SimulationState,
+  cardType: string,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): ActivationOutcome | null {
+  const activation = activateInventoryCard(state.gameState, cardType);
+  if (!activation) return null;
+
+  state.gameState = activation.state;
+  const onActivate = getCardDefinition(cardType)?.onActivate;
+  if (onActivate) {
+    runCardHook(state, onActivate, activation.effect, config);
+  }
+
+  return { tick: state.tick, cardType };
+}
+
+/**
+ * Advance the simulation by exactly one tick
+ */
+export function stepSimulation(
+  state: SimulationState,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG
+): void {
+  const deltaTime = SIMULATION_TICK_MS;
+
+  // Update game state
+  const previousEffects = state.gameState.activeEffects;
+  state.gameState = updateGameState(state.gameState, deltaTime);
+
+  // Adaptive difficulty decides on fixed ticks so replays make the same calls
+  if (state.director && isDecisionTick(state.tick)) {
+    state.director = decideDifficulty(state.director, state.tick, state.gameState.lives);
+  }
+
+  // Wave events start and end on ticks; a survived wave pays its bonus here
+  const waveUpdate = advanceWaves(
+    state.waves,
+    state.tick,
+    state.gameState.difficulty.level,
+    state.gameState.lives,
+    getGameMode(state.gameState.mode).waveEvents,
+    () => state.rng.nextFloat()
+  );
+  state.waves = waveUpdate.waves;
+  if (waveUpdate.finished?.bonus) {
+    state.gameState = { ...state.gameState, score: state.gameState.score + waveUpdate.finished.bonus };
+  }
+  const wave = state.waves.active && WAVE_EVENTS[state.waves.active.id];
+
+  // Get current modifiers
+  const modifiers = getGameModifiers(state.gameState);
+
+  // Update spawn manager config
+  state.spawnManager.updateConfig({
+    fallSpeed: state.gameState.difficulty.fallSpeed * modifiers.slowMotion,
+    spawnRate: state.gameState.difficulty.spawnRate * (modifiers.swarmActive ? 3 : 1) * (state.director?.spawnRateMultiplier ?? 1) * (wave?.spawnRateMultiplier ?? 1),
+    hazardBias: state.director?.hazardBias ?? 0,
+    level: state.gameState.difficulty.level,
+    spawnTableOverride: wave?.spawnTable,
+  });
+
+  // Spawn new objects
+  const newObjects = state.spawnManager.update(
+    state.gameState.elapsedTime,
+    {
+      spawnRate: modifiers.swarmActive ? 3 : 1,
+      timeFrozen: modifiers.timeFrozen,
+    },
+    state.objects
+  );
+  state.objects.push(...newObjects);
+
+  // Update existing objects
+  if (!modifiers.timeFrozen) {
+    state.motionTime += deltaTime * modifiers.slowMotion;
+    state.objects = state.objects
+      .map(obj => updateGameObject(obj, deltaTime * modifiers.slowMotion))
+      .filter(obj => obj.isActive && !isOffScreen(obj, config.screenHeight, config.screenWidth));
+
+    // The motion update copied the freshly spawned pooled objects; hand them
+    // back so long headless runs don't grow the pool without bound
+    newObjects.forEach(obj => gameObjectPool.returnObject(obj));
+  }
+
+  // Per-tick card hooks (e.g. shrink ray resizing live objects)
+  state.gameState.activeEffects.forEach(effect => {
+    const onTick = getCardDefinition(effect.type)?.onTick;
+    if (onTick) {
+      runCardHook(state, onTick, effect, config);
+    }
+  });
+
+  // Card hooks for effects that ran out this tick (e.g. shrink ray restoring sizes)
+  previousEffects
+    .filter(effect => !state.gameState.activeEffects.some(e => e.type === effect.type))
+    .forEach(effect => {
+      const onExpire = getCardDefinition(effect.type)?.onExpire;
+      if (onExpire) {
+        runCardHook(state, onExpire, effect, config);
+      }
+    });
+
+  state.tick++;
+}
+
+/**
+ * Check whether the simulated run has ended
+ */
+export function isSimulationOver(state: SimulationState): boolean {
+  return isGameOver(state.gameState);
+}
+
+/**
+ * Run a full headless simulation from a seed and a list of tap inputs.
+ * Inputs are applied at the start of their tick, in the order given.
+ * Stops early if the game ends before `ticks` have elapsed.
+ */
+export function simulate(
+  seed: number,
+  inputs: SimulationInput[],
+  ticks: number,
+  config: SimulationConfig = DEFAULT_SIMULATION_CONFIG,
+  mode: GameModeId = DEFAULT_GAME_MODE
+): SimulationResult {
+  const state = createSimulationState(seed, config, mode);
+  const sortedInputs = [...inputs].sort((a, b) => a.tick - b.tick);
+  const taps: TapOutcome[] = [];
+  let inputIndex = 0;
+
+  while (state.tick < ticks && !isSimulationOver(state)) {
+    while (inputIndex < sortedInputs.length && sortedInputs[inputIndex].tick <= state.tick) {
+      taps.push(applySimulationTap(state, sortedInputs[inputIndex].position, config));
+      inputIndex++;
+    }
+
+    stepSimulation(state, config);
+  }
+
+  return { state, taps };
+}
+
+/**
+ * Convert a duration in ms to the nearest whole number of simulation ticks
+ */
+export function msToTicks(ms: number): number {
+  return Math.round(ms / SIMULATION_TICK_MS);
+}
@@ -0,0 +1,82 @@
+/**
+ * Canonical game-state serialization and SHA-256 hash chain
+ * Shared by the browser client (WebCrypto) and the server (Node) so both
+ * sides hash exactly the same bytes for the same state.
+ */
+
+import { GameState } from './game-logic';
+
+// Bump when the encoded field set or rounding changes
+export const STATE_CODEC_VERSION = 1;
+
+/**
+ * The subset of game state both sides agree on after each accepted action.
+ * Tick-driven fields (timeLeft, effect durations) are left out because the
+ * client keeps simulating after its last tap while the server stops there.
+ */
+export interface CanonicalGameState {
+  actionCount: number;
+  tick: number; // Tick of the last action
+  score: number;
+  lives: number;
+  combo: number; // Hundredths, as an integer
+  streak: number;
+}
+
+/**
+ * Reduce a game state to its canonical form
+ */
+export function toCanonicalState(gameState: GameState, actionCount: number, tick: number): CanonicalGameState {
+  return {
+    actionCount,
+    tick,
+    score: Math.round(gameState.score),
+    lives: gameState.lives,
+    combo: Math.round(gameState.combo * 100),
+    streak: gameState.streak,
+  };
+}
+
+/**
+ * Encode a canonical state with a fixed field order
+ */
+export function encodeCanonicalState(state: CanonicalGameState): string {
+  return JSON.stringify([
+    STATE_CODEC_VERSION,
+    state.actionCount,
+    state.tick,
+    state.score,
+    state.lives,
+    state.combo,
+    state.streak,
+  ]);
+}
+
+/**
+ * SHA-256 of a UTF-8 string as lowercase hex.
+ * Uses WebCrypto where available and falls back to Node's crypto module.
+ */
+export async function sha256Hex(input: string): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle && typeof TextEncoder !== 'undefined') {
+    const digest = await subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  const { createHash } = await import('crypto');
+  return createHash('sha256').update(input, 'utf8').digest('hex');
+}
+
+/**
+ * First link of a session's hash chain
+ */
+export function genesisStateHash(sessionId: string): Promise<string> {
+  return sha256Hex(`monadrush:${STATE_CODEC_VERSION}:${sessionId}`);
+}
+
+/**
+ * Next link of the hash chain: commits to the previous hash and the new state
+ */
+export function chainStateHash(previousHash: string, state: CanonicalGameState): Promise<string> {
+  return sha256Hex(`${previousHash}:${encodeCanonicalState(state)}`);
+}
@@ -0,0 +1,248 @@
+/**
+ * Server-side trajectory tracking for anti-cheat
+ * Regenerates the spawn stream and checks claimed targets against predicted positions
+ */
+
+import { GameObject, Vector2, predictObjectPosition, validateTapPosition } from './physics';
+import { GameState } from './game-logic';
+import { ValidationResult } from './anti-cheat';
+import type { GameModeId } from './game-modes';
+import {
+  SimulationConfig,
+  SimulationState,
+  SimulationSnapshot,
+  DEFAULT_SIMULATION_CONFIG,
+  createSimulationState,
+  snapshotSimulation,
+  restoreSimulation,
+  stepSimulation,
+  applySimulationTap,
+  applySimulationActivation,
+  isSimulationOver,
+} from './simulation';
+
+// Allowed distance (px) between a tap and the predicted object edge
+export const TRAJECTORY_TOLERANCE = 20;
+
+interface SpawnRecord {
+  object: GameObject; // Snapshot taken on the tick the object first appeared
+  motionTime: number; // Simulation motion time at that snapshot
+}
+
+// Serializable tracker state, persisted between action batches
+export interface TrajectorySnapshot {
+  simulation: SimulationSnapshot;
+  spawns: Array<{ id: string } & SpawnRecord>;
+}
+
+export interface TrajectoryAction {
+  tick?: number;
+  position: Vector2;
+  type: 'logo' | 'glitch' | 'gift' | 'bomb' | 'miss' | 'activate';
+  targetId?: string; // Card id for 'activate'
+}
+
+// What an accepted action actually did on the server simulation
+export interface AppliedAction {
+  type: TrajectoryAction['type'];
+  targetId?: string;
+}
+
+/**
+ * Follows a session's spawn stream tick by tick so each claimed
+ * target can be checked against where it really was
+ */
+export class TrajectoryTracker {
+  private state: SimulationState;
+  private config: SimulationConfig;
+  private spawns = new Map<string, SpawnRecord>();
+  private lastApplied: AppliedAction | null = null;
+
+  constructor(seed: number, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG, mode?: GameModeId, cardInventory: boolean = false) {
+    this.config = config;
+    this.state = createSimulationState(seed, config, mode, cardInventory);
+  }
+
+  /**
+   * Rebuild a tracker from a snapshot taken after an earlier batch
+   */
+  static restore(snapshot: TrajectorySnapshot, config: SimulationConfig = DEFAULT_SIMULATION_CONFIG): TrajectoryTracker {
+    const tracker = new TrajectoryTracker(0, config);
+    tracker.state = restoreSimulation(snapshot.simulation, config);
+    for (const { id, object, motionTime } of snapshot.spawns) {
+      tracker.spawns.set(id, { object, motionTime });
+    }
+    return tracker;
+  }
+
+  /**
+   * Capture the tracker's state so the next batch can continue from it
+   */
+  snapshot(): TrajectorySnapshot {
+    return {
+      simulation: snapshotSimulation(this.state),
+      spawns: Array.from(this.spawns, ([id, record]) => ({ id, ...record })),
+    };
+  }
+
+  /**
+   * Authoritative game state after every accepted action so far
+   */
+  getGameState(): GameState {
+    return this.state.gameState;
+  }
+
+  getTick(): number {
+    return this.state.tick;
+  }
+
+  /**
+   * What the last validated action did if it was accepted. A tap resolves to the
+   * highest-priority object under it, so where objects overlap this can differ
+   * from the claimed target; the outcome is what gets logged and replayed.
+   */
+  getLastApplied(): AppliedAction | null {
+    return this.lastApplied;
+  }
+
+  /**
+   * Step the simulation forward to the given tick, recording new spawns
+   */
+  advanceTo(tick: number): void {
+    while (this.state.tick < tick && !isSimulationOver(this.state)) {
+      stepSimulation(this.state, this.config);
+      this.recordSpawns();
+    }
+  }
+
+  /**
+   * Note objects that appeared since the last call and forget departed ones
+   */
+  private recordSpawns(): void {
+    const liveIds = new Set<string>();
+    for (const obj of this.state.objects) {
+      liveIds.add(obj.id);
+      if (!this.spawns.has(obj.id)) {
+        this.spawns.set(obj.id, {
+          object: { ...obj, position: { ...obj.position }, velocity: { ...obj.velocity } },
+          motionTime: this.state.motionTime,
+        });
+      }
+    }
+
+    // Forget objects that were tapped or fell off screen to keep snapshots small
+    for (const id of this.spawns.keys()) {
+      if (!liveIds.has(id)) {
+        this.spawns.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Validate a single action's claimed target, then apply it to the simulation
+   */
+  validateAction(action: TrajectoryAction): ValidationResult {
+    this.lastApplied = null;
+    if (action.tick === undefined || !Number.isInteger(action.tick) || action.tick < this.state.tick) {
+      return {
+        isValid: false,
+        reason: `Invalid or out-of-order tick: ${action.tick}`,
+        severity: 'medium',
+      };
+    }
+
+    this.advanceTo(action.tick);
+    if (action.type === 'activate') {
+      return this.activateCard(action);
+    }
+
+    const result = this.checkTarget(action);
+
+    // Keep the server simulation in step with accepted taps
+    if (result.isValid) {
+      const outcome = applySimulationTap(this.state, action.position, this.config);
+      this.lastApplied = { type: outcome.result, targetId: outcome.targetId };
+      // A split logo's halves can be tapped before the next tick
+      this.recordSpawns();
+    }
+
+    return result;
+  }
+
+  /**
+   * Play a held card; only cards the simulation saw collected can be played
+   */
+  private activateCard(action: TrajectoryAction): ValidationResult {
+    if (!action.targetId || !applySimulationActivation(this.state, action.targetId, this.config)) {
+      return {
+        isValid: false,
+        reason: `Card ${action.targetId ?? '(none)'} was not in the inventory at tick ${action.tick}`,
+        severity: 'high',
+      };
+    }
+
+    this.lastApplied = { type: 'activate', targetId: action.targetId };
+    return { isValid: true, severity: 'low' };
+  }
+
+  private checkTarget(action: TrajectoryAction): ValidationResult {
+    if (!action.targetId) {
+      if (action.type === 'miss') {
+        return { isValid: true, severity: 'low' };
+      }
+      return {
+        isValid: false,
+        reason: `${action.type} hit claimed without a target`,
+        severity: 'medium',
+      };
+    }
+
+    const record = this.spawns.get(action.targetId);
+    if (!record) {
+      return {
+        isValid: false,
+        reason: `Target ${action.targetId} was not on screen at tick ${action.tick}`,
+        severity: 'high',
+      };
+    }
+
+    const live = this.state.objects.find(obj => obj.id === action.targetId);
+    if (!live?.isActive) {
+      return {
+        isValid: false,
+        reason: `Target ${action.targetId} was already tapped`,
+        severity: 'high',
+      };
+    }
+
+    if (record.object.type !== action.type) {
+      return {
+        isValid: false,
+        reason: `Target ${action.targetId} is a ${record.object.type}, not a ${action.type}`,
+        severity: 'high',
+      };
+    }
+
+    // Predict in motion time so slow-motion and time-freeze are accounted for
+    const motionObject = { ...record.object, spawnTime: record.motionTime };
+    const predicted = predictObjectPosition(motionObject, this.state.motionTime);
+
+    if (predicted.y - record.object.size.y / 2 > this.config.screenHeight) {
+      return {
+        isValid: false,
+        reason: `Target ${action.targetId} had left the screen by tick ${action.tick}`,
+        severity: 'high',
+      };
+    }
+
+    if (!validateTapPosition(motionObject, action.position, this.state.motionTime, TRAJECTORY_TOLERANCE)) {
+      return {
+        isValid: false,
+        reason: `Tap (${Math.round(action.position.x)}, ${Math.round(action.position.y)}) is off target ${action.targetId}'s trajectory (predicted ${Math.round(predicted.x)}, ${Math.round(predicted.y)})`,
+        severity: 'medium',
+      };
+    }
+
+    return { isValid: true, severity: 'low' };
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Scripted wave events for MonadRush
+ * Short waves that override the spawn table, triggered on difficulty
+ * level-ups or by the session RNG. Driven purely by simulation ticks, so the
+ * server replay starts, ends and pays out every wave exactly like the client.
+ */
+
+import type { SpawnTable } from './game-modes';
+
+export type WaveEventId = 'glitch-storm' | 'bomb-rain' | 'golden-rush';
+
+export interface WaveEvent {
+  id: WaveEventId;
+  name: string;
+  announcement: string; // Shown when the wave starts
+  durationTicks: number;
+  spawnTable: SpawnTable; // Replaces the level's spawn odds while the wave runs
+  spawnRateMultiplier: number;
+  survivalBonus: number; // Points for getting through without losing a life
+}
+
+export const WAVE_EVENTS: Readonly<Record<WaveEventId, WaveEvent>> = {
+  'glitch-storm': {
+    id: 'glitch-storm',
+    name: 'Glitch Storm',
+    announcement: 'Glitch Storm incoming! Only tap the logos.',
+    durationTicks: 480, // 8 seconds
+    spawnTable: { logo: 35, glitch: 60, gift: 5, bomb: 0 },
+    spawnRateMultiplier: 1.5,
+    survivalBonus: 250,
+  },
+  'bomb-rain': {
+    id: 'bomb-rain',
+    name: 'Bomb Rain',
+    announcement: 'Bomb Rain! Watch where you tap.',
+    durationTicks: 480, // 8 seconds
+    spawnTable: { logo: 40, glitch: 10, gift: 5, bomb: 45 },
+    spawnRateMultiplier: 1.3,
+    survivalBonus: 300,
+  },
+  'golden-rush': {
+    id: 'golden-rush',
+    name: 'Golden Rush',
+    announcement: 'Golden Rush! Gifts everywhere.',
+    durationTicks: 360, // 6 seconds
+    spawnTable: { logo: 55, glitch: 0, gift: 45, bomb: 0 },
+    spawnRateMultiplier: 1.4,
+    survivalBonus: 100,
+  },
+};
+
+export const WAVE_CONFIG = {
+  LEVEL_SCRIPT: ['glitch-storm', 'bomb-rain', 'golden-rush'] as WaveEventId[], // Wave for level 1, 2, 3, then repeating
+  ROLL_INTERVAL_TICKS: 600, // A surprise wave is rolled for every 10 seconds
+  RANDOM_WAVE_CHANCE: 0.15,
+  COOLDOWN_TICKS: 300, // Quiet time after a wave before the next can start
+} as const;
+
+export interface ActiveWave {
+  id: WaveEventId;
+  startTick: number;
+  endTick: number;
+  livesAtStart: number;
+}
+
+// A finished wave, as logged for replay and the game over summary
+export interface WaveRecord {
+  id: WaveEventId;
+  startTick: number;
+  endTick: number;
+  survived: boolean;
+  bonus: number;
+}
+
+// JSON-safe wave state, carried in simulation snapshots
+export interface WaveState {
+  active: ActiveWave | null;
+  queued: WaveEventId | null; // Level-up wave waiting for the current one or the cooldown
+  lastLevel: number;
+  cooldownUntil: number;
+  history: WaveRecord[];
+}
+
+export interface WaveUpdate {
+  waves: WaveState;
+  finished?: WaveRecord; // Set on the tick a wave ended
+}
+
+/**
+ * No wave running or logged yet
+ */
+export function createWaveState(): WaveState {
+  return { active: null, queued: null, lastLevel: 0, cooldownUntil: 0, history: [] };
+}
+
+/**
+ * Copy a wave state (for snapshots)
+ */
+export function cloneWaveState(waves: WaveState): WaveState {
+  return {
+    ...waves,
+    active: waves.active && { ...waves.active },
+    history: waves.history.map(record => ({ ...record })),
+  };
+}
+
+/**
+ * Scripted wave for reaching a difficulty level, if the mode allows it
+ */
+export function getLevelWave(level: number, allowed: readonly WaveEventId[]): WaveEventId | null {
+  if (level < 1) return null;
+  const id = WAVE_CONFIG.LEVEL_SCRIPT[(level - 1) % WAVE_CONFIG.LEVEL_SCRIPT.length];
+  return allowed.includes(id) ? id : null;
+}
+
+/**
+ * Advance waves by one tick: end a wave that ran its course (paying the
+ * survival bonus), queue level-up waves and roll for surprise waves.
+ * `roll` draws from the session RNG and is only called on roll ticks.
+ */
+export function advanceWaves(
+  waves: WaveState,
+  tick: number,
+  level: number,
+  lives: number,
+  allowed: readonly WaveEventId[],
+  roll: () => number
+): WaveUpdate {
+  let next = waves;
+  let finished: WaveRecord | undefined;
+
+  if (next.active && tick >= next.active.endTick) {
+    const survived = lives > 0 && lives >= next.active.livesAtStart;
+    finished = {
+      id: next.active.id,
+      startTick: next.active.startTick,
+      endTick: tick,
+      survived,
+      bonus: survived ? WAVE_EVENTS[next.active.id].survivalBonus : 0,
+    };
+    next = { ...next, active: null, cooldownUntil: tick + WAVE_CONFIG.COOLDOWN_TICKS, history: [...next.history, finished] };
+  }
+
+  if (level > next.lastLevel) {
+    next = { ...next, lastLevel: level, queued: getLevelWave(level, allowed) ?? next.queued };
+  }
+
+  if (next.active || tick < next.cooldownUntil || allowed.length === 0) {
+    return { waves: next, finished };
+  }
+
+  let start: WaveEventId | null = next.queued;
+  if (!start && tick > 0 && tick % WAVE_CONFIG.ROLL_INTERVAL_TICKS === 0 && roll() < WAVE_CONFIG.RANDOM_WAVE_CHANCE) {
+    start = allowed[Math.floor(roll() * allowed.length)];
+  }
+
+  if (start) {
+    next = {
+      ...next,
+      queued: null,
+      active: { id: start, startTick: tick, endTick: tick + WAVE_EVENTS[start].durationTicks, livesAtStart: lives },
+    };
+  }
+
+  return { waves: next, finished };
+}
+
+/**
+ * Bonus points paid out for a run's survived waves
+ */
+export function getWaveBonus(history: WaveRecord[]): number {
+  return history.reduce((total, record) => total + record.bonus, 0);
+}